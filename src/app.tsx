@@ -1,7 +1,13 @@
 import { useState, useCallback, useRef } from 'preact/hooks';
 import { Calculator } from './components/Calculator';
 import { History } from './components/History';
+import { Variables } from './components/Variables';
+import { Functions } from './components/Functions';
+import { Matrices } from './components/Matrices';
 import { useHistory } from './hooks/useHistory';
+import { useVariables } from './hooks/useVariables';
+import { useFunctions } from './hooks/useFunctions';
+import { useMatrices } from './hooks/useMatrices';
 import type { CalculatorMode, Theme } from './types';
 
 /**
@@ -11,6 +17,9 @@ export function App() {
   const [theme, setTheme] = useState<Theme>('system');
   const [currentMode, setCurrentMode] = useState<CalculatorMode>('scientific');
   const history = useHistory();
+  const variableStore = useVariables();
+  const functionLibrary = useFunctions();
+  const matrixStore = useMatrices();
 
   // Ref to calculator for setting expressions from history
   const calculatorSetExpression = useRef<((expr: string) => void) | null>(null);
@@ -56,10 +65,12 @@ export function App() {
     calculatorSetExpression.current?.(result);
   }, []);
 
-  const showHistory =
-    currentMode !== 'graphing' &&
-    currentMode !== 'statistics' &&
-    history.entries.length > 0;
+  const isCalculatorMode = currentMode !== 'graphing' && currentMode !== 'statistics';
+  const showHistory = isCalculatorMode && history.entries.length > 0;
+  const usesVariables = currentMode === 'basic' || currentMode === 'scientific';
+  const showVariables = usesVariables && variableStore.variables.length > 0;
+  const showFunctions = currentMode === 'scientific' || currentMode === 'graphing';
+  const showMatrices = currentMode === 'scientific';
 
   return (
     <div class="app">
@@ -78,9 +89,43 @@ export function App() {
       <main class="app-main">
         <Calculator
           onHistoryAdd={history.addEntry}
+          onHistoryUpdate={history.updateResult}
           onModeChange={setCurrentMode}
+          variables={variableStore.variables}
+          functions={functionLibrary.functions}
+          onVariableAssign={variableStore.setVariable}
+          onFunctionAssign={functionLibrary.setFunction}
+          matrices={matrixStore.matrices}
+          onMatrixAssign={matrixStore.setMatrix}
         />
 
+        {showFunctions && (
+          <Functions
+            functions={functionLibrary.functions}
+            onDefine={functionLibrary.setFunction}
+            onRemove={functionLibrary.removeFunction}
+            onClear={functionLibrary.clearFunctions}
+          />
+        )}
+
+        {showMatrices && (
+          <Matrices
+            matrices={matrixStore.matrices}
+            context={{ variables: variableStore.variables, functions: functionLibrary.functions }}
+            onStore={matrixStore.setMatrix}
+            onRemove={matrixStore.removeMatrix}
+            onClear={matrixStore.clearMatrices}
+          />
+        )}
+
+        {showVariables && (
+          <Variables
+            variables={variableStore.variables}
+            onRemove={variableStore.removeVariable}
+            onClear={variableStore.clearVariables}
+          />
+        )}
+
         {showHistory && (
           <History
             entries={history.entries}
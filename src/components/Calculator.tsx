@@ -1,22 +1,76 @@
+import { useMemo, useState } from 'preact/hooks';
 import { useCalculator } from '../hooks/useCalculator';
 import { Display } from './Display';
-import { Keypad } from './Keypad';
+import { Keypad, type KeypadAction } from './Keypad';
+import { ConstantsPicker } from './ConstantsPicker';
 import { StatisticsView } from './StatisticsView';
 import { GraphView } from './GraphView';
-import type { HistoryEntry, CalculatorMode } from '../types';
+import { UnitConverter } from './UnitConverter';
+import { SolverView } from './SolverView';
+import { LinearSystemView } from './LinearSystemView';
+import { SequenceView } from './SequenceView';
+import { DEFAULT_BOUNDS } from '../utils/graphing';
+import type {
+  HistoryEntry,
+  CalculatorMode,
+  EvaluationContext,
+  GraphBounds,
+  GraphPoint,
+  UserFunction,
+  UserMatrix,
+  UserVariable,
+} from '../types';
 
 interface CalculatorProps {
   onHistoryAdd?: (entry: HistoryEntry) => void;
+  onHistoryUpdate?: (id: string, result: string) => void;
   onModeChange?: (mode: CalculatorMode) => void;
+  variables?: readonly UserVariable[];
+  functions?: readonly UserFunction[];
+  onVariableAssign?: (variable: UserVariable) => void;
+  onFunctionAssign?: (fn: UserFunction) => void;
+  matrices?: readonly UserMatrix[];
+  onMatrixAssign?: (matrix: UserMatrix) => void;
 }
 
 /**
  * Main Calculator component
  */
-export function Calculator({ onHistoryAdd, onModeChange }: CalculatorProps) {
-  const calculator = useCalculator(onHistoryAdd);
+export function Calculator({
+  onHistoryAdd,
+  onHistoryUpdate,
+  onModeChange,
+  variables,
+  functions,
+  onVariableAssign,
+  onFunctionAssign,
+  matrices,
+  onMatrixAssign,
+}: CalculatorProps) {
+  const calculator = useCalculator(onHistoryAdd, {
+    variables,
+    functions,
+    matrices,
+    onVariableAssign,
+    onFunctionAssign,
+    onMatrixAssign,
+    onHistoryUpdate,
+  });
 
-  const handleAction = (action: 'clear' | 'allClear' | 'backspace' | 'equals' | 'ans') => {
+  // Expression sent to the graph from the display or solver, with any points
+  // to mark and the viewport to show them in
+  const [graphExpression, setGraphExpression] = useState('');
+  const [graphPoints, setGraphPoints] = useState<readonly GraphPoint[]>([]);
+  const [graphBounds, setGraphBounds] = useState<GraphBounds>(DEFAULT_BOUNDS);
+  const [showConstants, setShowConstants] = useState(false);
+
+  // Shared with the graph so plotted expressions resolve user names the same way
+  const evaluationContext: EvaluationContext = useMemo(
+    () => ({ variables, functions, matrices }),
+    [variables, functions, matrices]
+  );
+
+  const handleAction = (action: KeypadAction) => {
     switch (action) {
       case 'clear':
         calculator.clear();
@@ -33,17 +87,61 @@ export function Calculator({ onHistoryAdd, onModeChange }: CalculatorProps) {
       case 'ans':
         calculator.insertAns();
         break;
+      case 'toggleFraction':
+        calculator.toggleResultFormat();
+        break;
+      case 'toFraction':
+        calculator.showFraction();
+        break;
+      case 'toDecimal':
+        calculator.showDecimal();
+        break;
+      case 'constants':
+        setShowConstants((show) => !show);
+        break;
     }
   };
 
   const handleModeChange = (mode: CalculatorMode) => {
     calculator.setMode(mode);
+    setShowConstants(false);
     onModeChange?.(mode);
   };
 
+  const handleGraph = (
+    expression: string,
+    points: readonly GraphPoint[] = [],
+    bounds: GraphBounds = DEFAULT_BOUNDS
+  ) => {
+    setGraphExpression(expression);
+    setGraphPoints(points);
+    setGraphBounds(bounds);
+    handleModeChange('graphing');
+  };
+
+  // The Graph tab opens the graph without the expression, points and viewport
+  // last sent to it
+  const handleGraphTab = () => handleGraph('');
+
+  // Results from the solvers go into the scientific calculator
+  const handleUseValue = (value: string) => {
+    calculator.setExpression(value);
+    handleModeChange('scientific');
+  };
+
   const showStatisticsView = calculator.state.mode === 'statistics';
   const showGraphView = calculator.state.mode === 'graphing';
-  const showCalculator = !showStatisticsView && !showGraphView;
+  const showUnitView = calculator.state.mode === 'units';
+  const showSolverView = calculator.state.mode === 'solver';
+  const showSystemView = calculator.state.mode === 'system';
+  const showSequenceView = calculator.state.mode === 'sequence';
+  const showCalculator =
+    !showStatisticsView &&
+    !showGraphView &&
+    !showUnitView &&
+    !showSolverView &&
+    !showSystemView &&
+    !showSequenceView;
 
   return (
     <div class="calculator">
@@ -61,6 +159,12 @@ export function Calculator({ onHistoryAdd, onModeChange }: CalculatorProps) {
           >
             Scientific
           </button>
+          <button
+            class={`mode-tab ${calculator.state.mode === 'programmer' ? 'active' : ''}`}
+            onClick={() => handleModeChange('programmer')}
+          >
+            Prog
+          </button>
           <button
             class={`mode-tab ${calculator.state.mode === 'statistics' ? 'active' : ''}`}
             onClick={() => handleModeChange('statistics')}
@@ -69,30 +173,118 @@ export function Calculator({ onHistoryAdd, onModeChange }: CalculatorProps) {
           </button>
           <button
             class={`mode-tab ${calculator.state.mode === 'graphing' ? 'active' : ''}`}
-            onClick={() => handleModeChange('graphing')}
+            onClick={handleGraphTab}
           >
             Graph
           </button>
+          <button
+            class={`mode-tab ${calculator.state.mode === 'units' ? 'active' : ''}`}
+            onClick={() => handleModeChange('units')}
+          >
+            Units
+          </button>
+          <button
+            class={`mode-tab ${calculator.state.mode === 'solver' ? 'active' : ''}`}
+            onClick={() => handleModeChange('solver')}
+          >
+            Solve
+          </button>
+          <button
+            class={`mode-tab ${calculator.state.mode === 'system' ? 'active' : ''}`}
+            onClick={() => handleModeChange('system')}
+          >
+            System
+          </button>
+          <button
+            class={`mode-tab ${calculator.state.mode === 'sequence' ? 'active' : ''}`}
+            onClick={() => handleModeChange('sequence')}
+          >
+            Seq
+          </button>
         </div>
       </div>
 
-      {showStatisticsView && <StatisticsView />}
+      {showStatisticsView && <StatisticsView displayFormat={calculator.state.displayFormat} />}
+
+      {showGraphView && (
+        <GraphView
+          context={evaluationContext}
+          angleUnit={calculator.state.angleUnit}
+          onToggleAngleUnit={calculator.toggleAngleUnit}
+          displayFormat={calculator.state.displayFormat}
+          initialExpression={graphExpression}
+          points={graphPoints}
+          initialBounds={graphBounds}
+        />
+      )}
+
+      {showUnitView && <UnitConverter onHistoryAdd={onHistoryAdd} />}
 
-      {showGraphView && <GraphView />}
+      {showSolverView && (
+        <SolverView
+          context={evaluationContext}
+          angleUnit={calculator.state.angleUnit}
+          displayFormat={calculator.state.displayFormat}
+          onUseValue={handleUseValue}
+          onGraph={handleGraph}
+        />
+      )}
+
+      {showSystemView && (
+        <LinearSystemView
+          context={evaluationContext}
+          angleUnit={calculator.state.angleUnit}
+          displayFormat={calculator.state.displayFormat}
+          onUseValue={handleUseValue}
+        />
+      )}
+
+      {showSequenceView && (
+        <SequenceView
+          context={evaluationContext}
+          angleUnit={calculator.state.angleUnit}
+          displayFormat={calculator.state.displayFormat}
+          onGraph={handleGraph}
+        />
+      )}
 
       {showCalculator && (
         <>
-          <Display state={calculator.state} />
+          <Display
+            state={calculator.state}
+            onBigNumberPrecisionChange={calculator.setBigNumberPrecision}
+            onDisplayFormatChange={calculator.setDisplayFormat}
+            onToggleMixedFractions={calculator.toggleMixedFractions}
+            onNumberBaseChange={calculator.setNumberBase}
+            onWordSizeChange={calculator.setWordSize}
+            onToggleSigned={calculator.toggleSigned}
+            onGraph={handleGraph}
+          />
+
+          {showConstants && calculator.state.mode === 'scientific' && (
+            <ConstantsPicker
+              onInsert={(expression) => {
+                calculator.insertConstant(expression);
+                setShowConstants(false);
+              }}
+              onClose={() => setShowConstants(false)}
+            />
+          )}
 
           <Keypad
             mode={calculator.state.mode}
             angleUnit={calculator.state.angleUnit}
+            numberMode={calculator.state.numberMode}
+            complexMode={calculator.state.complexMode}
+            programmer={calculator.state.programmer}
             onDigit={(digit) => calculator.appendToExpression(digit)}
             onOperator={(op) => calculator.appendToExpression(op)}
             onFunction={(func) => calculator.insertFunction(func)}
             onConstant={(constant) => calculator.insertConstant(constant)}
             onAction={handleAction}
             onToggleAngleUnit={calculator.toggleAngleUnit}
+            onToggleNumberMode={calculator.toggleNumberMode}
+            onToggleComplexMode={calculator.toggleComplexMode}
           />
         </>
       )}
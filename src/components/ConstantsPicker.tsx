@@ -0,0 +1,120 @@
+import { useState } from 'preact/hooks';
+import { useFavoriteConstants } from '../hooks/useFavoriteConstants';
+import {
+  CONSTANT_CATEGORIES,
+  PHYSICAL_CONSTANTS,
+  formatConstant,
+  searchConstants,
+} from '../utils/constants';
+import type { PhysicalConstant } from '../types';
+
+interface ConstantsPickerProps {
+  onInsert: (expression: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Tab listing the favorite constants, shown before the categories
+ */
+const FAVORITES_TAB = 'Favorites';
+
+/**
+ * Searchable catalog of physical constants that inserts a constant into the
+ * expression, with or without its units
+ */
+export function ConstantsPicker({ onInsert, onClose }: ConstantsPickerProps) {
+  const { favorites, isFavorite, toggleFavorite } = useFavoriteConstants();
+  const [tab, setTab] = useState(() =>
+    favorites.length > 0 ? FAVORITES_TAB : CONSTANT_CATEGORIES[0].name
+  );
+  const [query, setQuery] = useState('');
+  const [withUnits, setWithUnits] = useState(true);
+
+  // A search looks through every category
+  let constants: readonly PhysicalConstant[];
+  if (query.trim()) {
+    constants = searchConstants(query);
+  } else if (tab === FAVORITES_TAB) {
+    constants = PHYSICAL_CONSTANTS.filter((constant) => favorites.includes(constant.name));
+  } else {
+    constants = CONSTANT_CATEGORIES.find((category) => category.name === tab)?.constants ?? [];
+  }
+
+  const emptyMessage = query.trim()
+    ? 'No matching constants'
+    : 'Star a constant to add it to your favorites';
+
+  return (
+    <div class="constants-panel">
+      <div class="history-header">
+        <span class="history-title">Constants</span>
+        <label class="constants-units">
+          <input
+            type="checkbox"
+            checked={withUnits}
+            onChange={(e) => setWithUnits((e.target as HTMLInputElement).checked)}
+          />
+          Units
+        </label>
+        <button class="history-clear-btn" onClick={onClose} aria-label="Close constants">
+          Close
+        </button>
+      </div>
+
+      <div class="constants-search">
+        <input
+          type="search"
+          class="stats-input"
+          value={query}
+          onInput={(e) => setQuery((e.target as HTMLInputElement).value)}
+          placeholder="Search constants"
+          aria-label="Search constants"
+        />
+      </div>
+
+      {!query.trim() && (
+        <div class="stats-tabs constants-categories">
+          {[FAVORITES_TAB, ...CONSTANT_CATEGORIES.map((category) => category.name)].map((name) => (
+            <button
+              key={name}
+              class={`stats-tab ${name === tab ? 'active' : ''}`}
+              onClick={() => setTab(name)}
+            >
+              {name === FAVORITES_TAB ? '★' : name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div class="variables-list constants-list">
+        {constants.length === 0 && <div class="history-empty">{emptyMessage}</div>}
+        {constants.map((constant) => {
+          const favorite = isFavorite(constant.name);
+          return (
+            <div key={constant.name} class="variables-item">
+              <button
+                class="constants-insert"
+                onClick={() => onInsert(formatConstant(constant, withUnits))}
+                title={constant.name}
+              >
+                <span class="variables-name constants-symbol">{constant.symbol}</span>
+                <span class="constants-label">{constant.label}</span>
+                <span class="variables-value">
+                  {constant.value} {constant.unit}
+                </span>
+              </button>
+              <button
+                class={`variables-remove constants-favorite ${favorite ? 'active' : ''}`}
+                onClick={() => toggleFavorite(constant.name)}
+                aria-label={`${favorite ? 'Unstar' : 'Star'} ${constant.label}`}
+                aria-pressed={favorite}
+              >
+                {favorite ? '★' : '☆'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
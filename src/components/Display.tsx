@@ -1,27 +1,370 @@
-import type { CalculatorState } from '../types';
+import { MAX_DISPLAY_DIGITS, withSIPrefix } from '../utils/format';
+import { WORD_SIZES, formatAllBases } from '../utils/programmer';
+import { MatrixGrid } from './MatrixGrid';
+import type {
+  BigNumberPrecision,
+  CalculatorState,
+  DisplayFormat,
+  DisplayNotation,
+  ErrorSpan,
+  NumberBase,
+  PrimeFactor,
+  WordSize,
+} from '../types';
 
 interface DisplayProps {
   state: CalculatorState;
+  onBigNumberPrecisionChange?: (precision: BigNumberPrecision) => void;
+  onDisplayFormatChange?: (displayFormat: DisplayFormat) => void;
+  onToggleMixedFractions?: () => void;
+  onNumberBaseChange?: (base: NumberBase) => void;
+  onWordSizeChange?: (wordSize: WordSize) => void;
+  onToggleSigned?: () => void;
+  onGraph?: (expression: string) => void;
+}
+
+/**
+ * Digit counts offered in high-precision mode
+ */
+const BIGNUMBER_PRECISIONS: BigNumberPrecision[] = [32, 64, 128];
+
+/**
+ * Display notations with their indicator labels
+ */
+const NOTATIONS: { notation: DisplayNotation; label: string }[] = [
+  { notation: 'normal', label: 'Norm' },
+  { notation: 'fixed', label: 'Fix' },
+  { notation: 'scientific', label: 'Sci' },
+  { notation: 'engineering', label: 'Eng' },
+];
+
+/**
+ * Bases listed in the programmer display, with their labels
+ */
+const NUMBER_BASES: { base: NumberBase; label: string }[] = [
+  { base: 'hex', label: 'HEX' },
+  { base: 'dec', label: 'DEC' },
+  { base: 'oct', label: 'OCT' },
+  { base: 'bin', label: 'BIN' },
+];
+
+/**
+ * Group binary digits in fours so long bit patterns stay readable
+ */
+function groupBits(bits: string): string {
+  const padded = bits.padStart(Math.ceil(bits.length / 4) * 4, '0');
+  return padded.replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+/**
+ * Show the exponents of a symbolic result as superscripts, e.g. `x^3` as x³
+ */
+function renderSymbolic(expression: string) {
+  return expression
+    .split(/\^(\w+|\([^()]*\))/)
+    .map((part, index) =>
+      index % 2 === 1 ? <sup key={index}>{part.replace(/^\((.*)\)$/, '$1')}</sup> : part
+    );
+}
+
+/**
+ * Show a prime factorization with its exponents as superscripts, e.g. 2³·3²·5
+ */
+function renderFactorization(factors: readonly PrimeFactor[], negative: boolean) {
+  return (
+    <>
+      {negative && '-'}
+      {factors.length === 0
+        ? '1'
+        : factors.map(({ prime, exponent }, index) => (
+            <span key={prime}>
+              {index > 0 && '·'}
+              {prime}
+              {exponent > 1 && <sup>{exponent}</sup>}
+            </span>
+          ))}
+    </>
+  );
+}
+
+/**
+ * Show the components of a vector result between angle brackets
+ */
+function renderVector(components: readonly string[]) {
+  return (
+    <span class="display-vector-components">
+      ⟨
+      {components.map((component, index) => (
+        <span key={index} class="display-vector-component">
+          {component}
+          {index < components.length - 1 && ','}
+        </span>
+      ))}
+      ⟩
+    </span>
+  );
+}
+
+/**
+ * Underline the part of the expression an error points at. An empty span,
+ * such as a missing value at the end, is marked by a blank.
+ */
+function renderErrorSpan(expression: string, span: ErrorSpan) {
+  const start = Math.min(span.start, expression.length);
+  const end = Math.min(Math.max(span.end, start), expression.length);
+  return (
+    <>
+      {expression.slice(0, start)}
+      <mark class="display-error-span">{expression.slice(start, end) || '\u00a0'}</mark>
+      {expression.slice(end)}
+    </>
+  );
 }
 
 /**
  * Display component showing the current expression and result
  */
-export function Display({ state }: DisplayProps) {
-  const { expression, result, isError } = state;
+export function Display({
+  state,
+  onBigNumberPrecisionChange,
+  onDisplayFormatChange,
+  onToggleMixedFractions,
+  onNumberBaseChange,
+  onWordSizeChange,
+  onToggleSigned,
+  onGraph,
+}: DisplayProps) {
+  const {
+    expression,
+    result,
+    approximation,
+    isError,
+    errorSpan,
+    errorSuggestion,
+    isSymbolic,
+    errorEstimate,
+    matrix,
+    vector,
+    factorization,
+    numberMode,
+    bigNumberPrecision,
+    displayFormat,
+    mode,
+    programmer,
+  } = state;
+  const isProgrammer = mode === 'programmer';
+  const bases = isProgrammer && !isError ? formatAllBases(result || '0', programmer) : null;
+
+  // Fixed notation counts decimal places; scientific and engineering need a digit
+  const minDigits = displayFormat.notation === 'fixed' ? 0 : 1;
+  const digitOptions = Array.from(
+    { length: MAX_DISPLAY_DIGITS - minDigits + 1 },
+    (_, index) => index + minDigits
+  );
+
+  const showSIPrefixes =
+    displayFormat.notation === 'engineering' && displayFormat.siPrefixes && !isError;
+  const showSymbolic = isSymbolic && !isError && Boolean(result);
+  const showMatrix = matrix !== null && !isError && Boolean(result);
+  const showVector = vector !== null && !isError && Boolean(result);
+  const showFactorization = factorization !== null && !isError && Boolean(result);
+  const showMixedToggle = numberMode === 'fraction' || (!isError && result.includes('/'));
+  const isApproximate = !isError && Boolean(approximation) && result === approximation;
+
+  const handleNotationChange = (notation: DisplayNotation) => {
+    onDisplayFormatChange?.({
+      ...displayFormat,
+      notation,
+      digits: Math.max(displayFormat.digits, notation === 'fixed' ? 0 : 1),
+    });
+  };
 
   return (
     <div class="display">
+      {isProgrammer && (
+        <div class="display-indicators">
+          <label class="display-indicator">
+            Bits
+            <select
+              class="display-select"
+              value={programmer.wordSize}
+              onChange={(e) =>
+                onWordSizeChange?.(Number((e.target as HTMLSelectElement).value) as WordSize)
+              }
+            >
+              {WORD_SIZES.map((wordSize) => (
+                <option key={wordSize} value={wordSize}>
+                  {wordSize}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            class="display-select"
+            onClick={onToggleSigned}
+            aria-label={`${programmer.signed ? 'Signed' : 'Unsigned'} integers. Click to change.`}
+          >
+            {programmer.signed ? 'Signed' : 'Unsigned'}
+          </button>
+        </div>
+      )}
+      {isProgrammer && (
+        <div class="display-bases">
+          {NUMBER_BASES.map(({ base, label }) => (
+            <button
+              key={base}
+              class={`display-base ${programmer.base === base ? 'active' : ''}`}
+              onClick={() => onNumberBaseChange?.(base)}
+              aria-pressed={programmer.base === base}
+            >
+              <span class="display-base-label">{label}</span>
+              <span class="display-base-value">
+                {bases ? (base === 'bin' ? groupBits(bases.bin) : bases[base]) : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      {!isProgrammer && (
+        <div class="display-indicators">
+          <label class="display-indicator">
+            Format
+            <select
+              class="display-select"
+              value={displayFormat.notation}
+              onChange={(e) =>
+                handleNotationChange((e.target as HTMLSelectElement).value as DisplayNotation)
+              }
+            >
+              {NOTATIONS.map(({ notation, label }) => (
+                <option key={notation} value={notation}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {displayFormat.notation !== 'normal' && (
+            <select
+              class="display-select"
+              value={displayFormat.digits}
+              onChange={(e) =>
+                onDisplayFormatChange?.({
+                  ...displayFormat,
+                  digits: Number((e.target as HTMLSelectElement).value),
+                })
+              }
+              aria-label={
+                displayFormat.notation === 'fixed' ? 'Decimal places' : 'Significant digits'
+              }
+            >
+              {digitOptions.map((digits) => (
+                <option key={digits} value={digits}>
+                  {digits}
+                </option>
+              ))}
+            </select>
+          )}
+          {displayFormat.notation === 'engineering' && (
+            <button
+              class="display-select"
+              onClick={() =>
+                onDisplayFormatChange?.({
+                  ...displayFormat,
+                  siPrefixes: !displayFormat.siPrefixes,
+                })
+              }
+              aria-pressed={displayFormat.siPrefixes}
+              aria-label="Show SI prefixes"
+            >
+              {displayFormat.siPrefixes ? 'SI' : 'E'}
+            </button>
+          )}
+          {showMixedToggle && (
+            <button
+              class="display-select"
+              onClick={onToggleMixedFractions}
+              aria-pressed={displayFormat.mixedFractions}
+              aria-label="Show fractions as mixed numbers"
+            >
+              {displayFormat.mixedFractions ? 'a b/c' : 'b/c'}
+            </button>
+          )}
+          {numberMode === 'bignumber' && (
+            <label class="display-indicator">
+              Digits
+              <select
+                class="display-select"
+                value={bigNumberPrecision}
+                onChange={(e) =>
+                  onBigNumberPrecisionChange?.(
+                    Number((e.target as HTMLSelectElement).value) as BigNumberPrecision
+                  )
+                }
+              >
+                {BIGNUMBER_PRECISIONS.map((precision) => (
+                  <option key={precision} value={precision}>
+                    {precision}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {showSymbolic && (
+            <button
+              class="display-select"
+              onClick={() => onGraph?.(result)}
+              aria-label="Graph this result"
+            >
+              Graph
+            </button>
+          )}
+        </div>
+      )}
       <div class="display-expression" aria-live="polite">
-        {expression || '0'}
+        {isError && errorSpan && expression
+          ? renderErrorSpan(expression, errorSpan)
+          : expression || '0'}
       </div>
       <div
         class={`display-result ${isError ? 'display-error' : ''}`}
         aria-live="polite"
         role="status"
+        aria-label={showSymbolic || showFactorization ? result : undefined}
       >
-        {result}
+        {showMatrix ? (
+          <MatrixGrid
+            entries={showSIPrefixes ? matrix.map((row) => row.map(withSIPrefix)) : matrix}
+          />
+        ) : showVector ? (
+          renderVector(showSIPrefixes ? vector.components.map(withSIPrefix) : vector.components)
+        ) : showSymbolic ? (
+          renderSymbolic(result)
+        ) : showFactorization ? (
+          renderFactorization(factorization, result.startsWith('-'))
+        ) : showSIPrefixes ? (
+          withSIPrefix(result)
+        ) : isApproximate ? (
+          `≈ ${result}`
+        ) : (
+          result
+        )}
       </div>
+      {isError && errorSuggestion && (
+        <div class="display-estimate display-suggestion">{errorSuggestion}</div>
+      )}
+      {errorEstimate && !isError && (
+        <div class="display-estimate" aria-label={`Estimated error ${errorEstimate}`}>
+          ± {errorEstimate}
+        </div>
+      )}
+      {showVector && vector.magnitude && (
+        <div class="display-estimate display-vector">
+          <span aria-label={`Magnitude ${vector.magnitude}`}>|v| = {vector.magnitude}</span>
+          {vector.direction && (
+            <span aria-label={`Direction ${vector.direction}`}>∠ {vector.direction}</span>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,78 @@
+import { useState } from 'preact/hooks';
+import { evaluate, formatFunctionDefinition } from '../utils/math-engine';
+import type { UserFunction } from '../types';
+
+interface FunctionsProps {
+  functions: readonly UserFunction[];
+  onDefine: (fn: UserFunction) => void;
+  onRemove: (name: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Panel for defining and managing the user function library
+ */
+export function Functions({ functions, onDefine, onRemove, onClear }: FunctionsProps) {
+  const [definition, setDefinition] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: Event) => {
+    e.preventDefault();
+    if (!definition.trim()) return;
+
+    const result = evaluate(definition);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    if (!result.assignedFunction) {
+      setError('Expected a definition like f(x) = x^2');
+      return;
+    }
+
+    onDefine(result.assignedFunction);
+    setDefinition('');
+    setError('');
+  };
+
+  return (
+    <div class="variables-panel">
+      <div class="history-header">
+        <span class="history-title">Functions ({functions.length})</span>
+        {functions.length > 0 && (
+          <button class="history-clear-btn" onClick={onClear} aria-label="Clear functions">
+            Clear
+          </button>
+        )}
+      </div>
+      <form class="functions-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          class="graph-function-input"
+          value={definition}
+          onInput={(e) => setDefinition((e.target as HTMLInputElement).value)}
+          placeholder="f(x) = x^2 - 3x"
+          aria-label="New function definition"
+        />
+        <button type="submit" class="graph-control-btn functions-define-btn">
+          Define
+        </button>
+      </form>
+      {error && <div class="functions-error">{error}</div>}
+      <div class="variables-list">
+        {functions.map((fn) => (
+          <div key={fn.name} class="variables-item">
+            <span class="variables-value">{formatFunctionDefinition(fn)}</span>
+            <button
+              class="variables-remove"
+              onClick={() => onRemove(fn.name)}
+              aria-label={`Delete function ${fn.name}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,67 @@
 import { useState, useRef, useEffect, useCallback } from 'preact/hooks';
 import { useGraph } from '../hooks/useGraph';
 import {
+  DEFAULT_BOUNDS,
   drawGrid,
   drawFunction,
+  drawPoints,
   drawTracePoint,
   generateTable,
 } from '../utils/graphing';
+import { ModeToggle } from './ModeToggle';
+import { formatNumber } from '../utils/format';
+import type {
+  AngleUnit,
+  DisplayFormat,
+  EvaluationContext,
+  GraphBounds,
+  GraphPoint,
+} from '../types';
+
+interface GraphViewProps {
+  context?: EvaluationContext;
+  angleUnit?: AngleUnit;
+  onToggleAngleUnit?: () => void;
+  displayFormat?: DisplayFormat;
+  /** Expression plotted as y1 when the view opens, e.g. a symbolic result */
+  initialExpression?: string;
+  /** Points marked on the graph, e.g. the real roots of a polynomial */
+  points?: readonly GraphPoint[];
+  /** Viewport when the view opens and after Reset, e.g. fitted to the marked points */
+  initialBounds?: GraphBounds;
+}
 
 type GraphTab = 'graph' | 'table';
 
 /**
- * Format number for display in table
+ * Default for no marked points, shared so redraws are not triggered
+ */
+const NO_POINTS: readonly GraphPoint[] = [];
+
+/**
+ * Format number for display in table, in the user's display format
  */
-function formatTableValue(value: number | null): string {
+function formatTableValue(value: number | null, displayFormat?: DisplayFormat): string {
   if (value === null) return 'undefined';
   if (!Number.isFinite(value)) return 'undefined';
-  if (Math.abs(value) < 0.0001 && value !== 0) {
-    return value.toExponential(4);
-  }
-  return Number(value.toPrecision(6)).toString();
+  return formatNumber(value, displayFormat);
 }
 
 /**
  * Graph view component with canvas-based rendering
  */
-export function GraphView() {
+export function GraphView({
+  context,
+  angleUnit = 'rad',
+  onToggleAngleUnit,
+  displayFormat,
+  initialExpression,
+  points = NO_POINTS,
+  initialBounds = DEFAULT_BOUNDS,
+}: GraphViewProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const graph = useGraph();
+  const graph = useGraph(context, angleUnit, initialExpression, initialBounds);
 
   const [activeTab, setActiveTab] = useState<GraphTab>('graph');
 
@@ -72,10 +106,15 @@ export function GraphView() {
     // Draw functions
     for (const func of graph.functions) {
       if (func.visible && func.expression.trim()) {
-        drawFunction(ctx, func.expression, func.color, graph.bounds, width, height);
+        drawFunction(ctx, func.expression, func.color, graph.bounds, width, height, context, angleUnit);
       }
     }
 
+    // Draw marked points in the color of y1
+    if (points.length > 0) {
+      drawPoints(ctx, points, graph.functions[0].color, graph.bounds, width, height);
+    }
+
     // Draw trace point if active
     if (graph.tracePoint) {
       const func = graph.functions.find((f) => f.id === graph.tracePoint?.functionId);
@@ -91,7 +130,7 @@ export function GraphView() {
         );
       }
     }
-  }, [graph.bounds, graph.functions, graph.tracePoint]);
+  }, [graph.bounds, graph.functions, graph.tracePoint, points, context, angleUnit]);
 
   // Redraw on changes
   useEffect(() => {
@@ -239,7 +278,9 @@ export function GraphView() {
           graph.functions[0].expression,
           graph.bounds.xMin,
           graph.bounds.xMax,
-          (graph.bounds.xMax - graph.bounds.xMin) / 20
+          (graph.bounds.xMax - graph.bounds.xMin) / 20,
+          context,
+          angleUnit
         )
       : [];
 
@@ -276,7 +317,7 @@ export function GraphView() {
               onInput={(e) =>
                 graph.updateFunction(func.id, (e.target as HTMLInputElement).value)
               }
-              placeholder="e.g., sin(x), x^2"
+              placeholder="e.g., sin(x), x^2, f(x-1)"
             />
             <button
               class="graph-function-toggle"
@@ -313,8 +354,8 @@ export function GraphView() {
             {/* Trace info overlay */}
             {graph.tracePoint && (
               <div class="graph-trace-info">
-                x: {formatTableValue(graph.tracePoint.x)}, y:{' '}
-                {formatTableValue(graph.tracePoint.y)}
+                x: {formatTableValue(graph.tracePoint.x, displayFormat)}, y:{' '}
+                {formatTableValue(graph.tracePoint.y, displayFormat)}
               </div>
             )}
           </div>
@@ -337,6 +378,13 @@ export function GraphView() {
             <button class="graph-control-btn" onClick={graph.resetView}>
               Reset
             </button>
+            {onToggleAngleUnit && (
+              <ModeToggle
+                angleUnit={angleUnit}
+                onToggle={onToggleAngleUnit}
+                className="graph-control-btn"
+              />
+            )}
           </div>
         </>
       )}
@@ -353,8 +401,8 @@ export function GraphView() {
             <tbody>
               {tableData.map((row, index) => (
                 <tr key={index}>
-                  <td>{formatTableValue(row.x)}</td>
-                  <td>{formatTableValue(row.y)}</td>
+                  <td>{formatTableValue(row.x, displayFormat)}</td>
+                  <td>{formatTableValue(row.y, displayFormat)}</td>
                 </tr>
               ))}
             </tbody>
@@ -1,3 +1,4 @@
+import { MatrixGrid } from './MatrixGrid';
 import type { HistoryEntry } from '../types';
 
 interface HistoryProps {
@@ -76,18 +77,23 @@ export function History({
               {entry.expression}
             </div>
             <div
-              class="history-result"
-              onClick={() => onSelectResult?.(entry.result)}
+              class={`history-result ${entry.symbolic ? 'history-result-symbolic' : ''}`}
+              onClick={() => onSelectResult?.(entry.answer ?? entry.result)}
               role="button"
               tabIndex={0}
               onKeyDown={(e) => {
                 if (e.key === 'Enter' || e.key === ' ') {
-                  onSelectResult?.(entry.result);
+                  onSelectResult?.(entry.answer ?? entry.result);
                 }
               }}
               title="Click to insert result"
             >
-              = {entry.result}
+              ={' '}
+              {entry.matrix ? (
+                <MatrixGrid entries={entry.matrix} class="history-matrix" />
+              ) : (
+                entry.result
+              )}
             </div>
             <div class="history-time">{formatTime(entry.timestamp)}</div>
           </div>
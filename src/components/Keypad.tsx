@@ -1,16 +1,55 @@
-import type { AngleUnit, CalculatorMode } from '../types';
+import { useState } from 'preact/hooks';
+import { ModeToggle } from './ModeToggle';
+import { useLongPress } from '../hooks/useLongPress';
+import { isDigitInBase } from '../utils/programmer';
+import type {
+  AngleUnit,
+  CalculatorMode,
+  ComplexMode,
+  NumberMode,
+  ProgrammerSettings,
+} from '../types';
+
+/**
+ * Keypad buttons that act on the calculator rather than type into the expression
+ */
+export type KeypadAction =
+  | 'clear'
+  | 'allClear'
+  | 'backspace'
+  | 'equals'
+  | 'ans'
+  | 'toggleFraction'
+  | 'toFraction'
+  | 'toDecimal'
+  | 'constants';
 
 interface KeypadProps {
   mode: CalculatorMode;
   angleUnit: AngleUnit;
+  numberMode: NumberMode;
+  complexMode: ComplexMode;
+  programmer: ProgrammerSettings;
   onDigit: (digit: string) => void;
   onOperator: (operator: string) => void;
   onFunction: (funcName: string) => void;
   onConstant: (constant: string) => void;
-  onAction: (action: 'clear' | 'allClear' | 'backspace' | 'equals' | 'ans') => void;
+  onAction: (action: KeypadAction) => void;
   onToggleAngleUnit: () => void;
+  onToggleNumberMode: () => void;
+  onToggleComplexMode: () => void;
 }
 
+/**
+ * Page of function buttons shown in scientific mode
+ */
+type KeypadPage = 'scientific' | 'integer';
+
+/**
+ * Modifier that remaps scientific buttons to their secondary functions
+ */
+type KeypadShift = 'second' | 'hyperbolic';
+
 interface ButtonDef {
   label: string;
   value: string;
@@ -19,6 +58,42 @@ interface ButtonDef {
   className?: string;
 }
 
+/**
+ * Keypad labels for each number mode
+ */
+const NUMBER_MODE_LABELS: Record<NumberMode, string> = {
+  decimal: 'DEC',
+  fraction: 'FRAC',
+  bignumber: 'BIG',
+};
+
+/**
+ * Spoken names for each number mode
+ */
+const NUMBER_MODE_NAMES: Record<NumberMode, string> = {
+  decimal: 'decimal',
+  fraction: 'exact fractions',
+  bignumber: 'high precision',
+};
+
+/**
+ * Keypad labels for each complex mode
+ */
+const COMPLEX_MODE_LABELS: Record<ComplexMode, string> = {
+  real: 'REAL',
+  rectangular: 'a+bi',
+  polar: 'r∠θ',
+};
+
+/**
+ * Spoken names for each complex mode
+ */
+const COMPLEX_MODE_NAMES: Record<ComplexMode, string> = {
+  real: 'real results only',
+  rectangular: 'complex, rectangular form',
+  polar: 'complex, polar form',
+};
+
 /**
  * Basic calculator buttons
  */
@@ -73,6 +148,123 @@ const SCIENTIFIC_BUTTONS: ButtonDef[] = [
   { label: 'n!', value: 'factorial', type: 'function', ariaLabel: 'Factorial', className: 'btn-function' },
   { label: '%', value: '%', type: 'operator', ariaLabel: 'Percent', className: 'btn-function' },
   { label: 'DEG', value: 'toggleAngle', type: 'toggle', className: 'btn-toggle' },
+  { label: 'DEC', value: 'toggleNumberMode', type: 'toggle', className: 'btn-toggle' },
+  { label: 'S⇔D', value: 'toggleFraction', type: 'action', ariaLabel: 'Toggle fraction and decimal result', className: 'btn-secondary' },
+  { label: '▸Frac', value: 'toFraction', type: 'action', ariaLabel: 'Show result as a fraction', className: 'btn-secondary' },
+  { label: '▸Dec', value: 'toDecimal', type: 'action', ariaLabel: 'Show result as a decimal', className: 'btn-secondary' },
+  { label: 'i', value: 'i', type: 'constant', ariaLabel: 'Imaginary unit', className: 'btn-constant' },
+  { label: 'arg', value: 'arg', type: 'function', ariaLabel: 'Complex argument', className: 'btn-function' },
+  { label: 'conj', value: 'conj', type: 'function', ariaLabel: 'Complex conjugate', className: 'btn-function' },
+  { label: 'REAL', value: 'toggleComplexMode', type: 'toggle', className: 'btn-toggle' },
+  { label: 'x', value: 'x', type: 'constant', ariaLabel: 'Variable x', className: 'btn-constant' },
+  { label: 'd/dx', value: 'd/dx', type: 'function', ariaLabel: 'Derivative with respect to x', className: 'btn-function' },
+  { label: ',', value: ',', type: 'operator', ariaLabel: 'Comma', className: 'btn-paren' },
+  { label: 'simp', value: 'simplify', type: 'function', ariaLabel: 'Simplify', className: 'btn-function' },
+  { label: 'expand', value: 'expand', type: 'function', ariaLabel: 'Expand', className: 'btn-function' },
+  { label: 'factor', value: 'factor', type: 'function', ariaLabel: 'Factor', className: 'btn-function' },
+  { label: '∫', value: '∫', type: 'function', ariaLabel: 'Definite integral', className: 'btn-function' },
+  { label: 'Σ', value: 'Σ', type: 'function', ariaLabel: 'Summation', className: 'btn-function' },
+  { label: 'Π', value: 'Π', type: 'function', ariaLabel: 'Product', className: 'btn-function' },
+  { label: '∞', value: '∞', type: 'constant', ariaLabel: 'Infinity', className: 'btn-constant' },
+  { label: '[', value: '[', type: 'operator', ariaLabel: 'Open Bracket', className: 'btn-paren' },
+  { label: ']', value: ']', type: 'operator', ariaLabel: 'Close Bracket', className: 'btn-paren' },
+  { label: 'r∠θ', value: 'vec', type: 'function', ariaLabel: 'Vector from magnitude and angle', className: 'btn-function' },
+  { label: '|v|', value: 'norm', type: 'function', ariaLabel: 'Vector magnitude', className: 'btn-function' },
+  { label: 'u·v', value: 'dot', type: 'function', ariaLabel: 'Dot product', className: 'btn-function' },
+  { label: 'u×v', value: 'cross', type: 'function', ariaLabel: 'Cross product', className: 'btn-function' },
+  { label: 'const', value: 'constants', type: 'action', ariaLabel: 'Physical constants', className: 'btn-secondary' },
+  { label: 'ℤ', value: 'integerPage', type: 'toggle', ariaLabel: 'Number theory functions', className: 'btn-toggle' },
+  { label: '2nd', value: 'secondLayer', type: 'toggle', ariaLabel: 'Second functions', className: 'btn-toggle' },
+  { label: 'HYP', value: 'hyperbolicLayer', type: 'toggle', ariaLabel: 'Hyperbolic functions', className: 'btn-toggle' },
+];
+
+/**
+ * Functions reached with 2nd or a long press, by the value of the button they replace
+ */
+const SECOND_BUTTONS: Record<string, ButtonDef> = {
+  sin: { label: 'csc', value: 'csc', type: 'function', ariaLabel: 'Cosecant', className: 'btn-function' },
+  cos: { label: 'sec', value: 'sec', type: 'function', ariaLabel: 'Secant', className: 'btn-function' },
+  tan: { label: 'cot', value: 'cot', type: 'function', ariaLabel: 'Cotangent', className: 'btn-function' },
+  asin: { label: 'csc⁻¹', value: 'acsc', type: 'function', ariaLabel: 'Arc Cosecant', className: 'btn-function' },
+  acos: { label: 'sec⁻¹', value: 'asec', type: 'function', ariaLabel: 'Arc Secant', className: 'btn-function' },
+  atan: { label: 'cot⁻¹', value: 'acot', type: 'function', ariaLabel: 'Arc Cotangent', className: 'btn-function' },
+  log: { label: 'logb', value: 'logb', type: 'function', ariaLabel: 'Logarithm to base b', className: 'btn-function' },
+  sqrt: { label: 'ⁿ√', value: 'nthRoot', type: 'function', ariaLabel: 'Nth Root', className: 'btn-function' },
+  '10^': { label: 'rnd', value: 'round', type: 'function', ariaLabel: 'Round', className: 'btn-function' },
+  abs: { label: '⌊x⌋', value: 'floor', type: 'function', ariaLabel: 'Floor', className: 'btn-function' },
+  factorial: { label: '⌈x⌉', value: 'ceil', type: 'function', ariaLabel: 'Ceiling', className: 'btn-function' },
+  '%': { label: 'mod', value: 'mod', type: 'function', ariaLabel: 'Modulo', className: 'btn-function' },
+};
+
+/**
+ * Functions reached with HYP, by the value of the button they replace
+ */
+const HYPERBOLIC_BUTTONS: Record<string, ButtonDef> = {
+  sin: { label: 'sinh', value: 'sinh', type: 'function', ariaLabel: 'Hyperbolic Sine', className: 'btn-function' },
+  cos: { label: 'cosh', value: 'cosh', type: 'function', ariaLabel: 'Hyperbolic Cosine', className: 'btn-function' },
+  tan: { label: 'tanh', value: 'tanh', type: 'function', ariaLabel: 'Hyperbolic Tangent', className: 'btn-function' },
+  asin: { label: 'sinh⁻¹', value: 'asinh', type: 'function', ariaLabel: 'Inverse Hyperbolic Sine', className: 'btn-function' },
+  acos: { label: 'cosh⁻¹', value: 'acosh', type: 'function', ariaLabel: 'Inverse Hyperbolic Cosine', className: 'btn-function' },
+  atan: { label: 'tanh⁻¹', value: 'atanh', type: 'function', ariaLabel: 'Inverse Hyperbolic Tangent', className: 'btn-function' },
+};
+
+/**
+ * Remapped buttons for each modifier
+ */
+const SHIFTED_BUTTONS: Record<KeypadShift, Record<string, ButtonDef>> = {
+  second: SECOND_BUTTONS,
+  hyperbolic: HYPERBOLIC_BUTTONS,
+};
+
+/**
+ * Toggle buttons for each modifier, by their value
+ */
+const SHIFT_TOGGLES: Record<string, KeypadShift> = {
+  secondLayer: 'second',
+  hyperbolicLayer: 'hyperbolic',
+};
+
+/**
+ * Number theory buttons, on the second page of scientific mode
+ */
+const INTEGER_BUTTONS: ButtonDef[] = [
+  { label: 'gcd', value: 'gcd', type: 'function', ariaLabel: 'Greatest common divisor', className: 'btn-function' },
+  { label: 'lcm', value: 'lcm', type: 'function', ariaLabel: 'Least common multiple', className: 'btn-function' },
+  { label: 'prime?', value: 'isPrime', type: 'function', ariaLabel: 'Is prime', className: 'btn-function' },
+  { label: 'factor', value: 'factor', type: 'function', ariaLabel: 'Prime factorization', className: 'btn-function' },
+  { label: 'xʸ mod', value: 'powmod', type: 'function', ariaLabel: 'Modular exponentiation', className: 'btn-function' },
+  { label: 'x⁻¹ mod', value: 'invmod', type: 'function', ariaLabel: 'Modular inverse', className: 'btn-function' },
+  { label: 'φ', value: 'totient', type: 'function', ariaLabel: "Euler's totient", className: 'btn-function' },
+  { label: '÷R', value: 'divmod', type: 'function', ariaLabel: 'Integer division with remainder', className: 'btn-function' },
+  { label: 'mod', value: 'mod', type: 'function', ariaLabel: 'Modulo', className: 'btn-function' },
+  { label: 'n!', value: 'factorial', type: 'function', ariaLabel: 'Factorial', className: 'btn-function' },
+  { label: 'nCr', value: 'combinations', type: 'function', ariaLabel: 'Combinations', className: 'btn-function' },
+  { label: 'xʸ', value: '^', type: 'operator', ariaLabel: 'Power', className: 'btn-function' },
+  { label: '(', value: '(', type: 'operator', ariaLabel: 'Open Parenthesis', className: 'btn-paren' },
+  { label: ')', value: ')', type: 'operator', ariaLabel: 'Close Parenthesis', className: 'btn-paren' },
+  { label: ',', value: ',', type: 'operator', ariaLabel: 'Comma', className: 'btn-paren' },
+  { label: 'f(x)', value: 'scientificPage', type: 'toggle', ariaLabel: 'Scientific functions', className: 'btn-toggle' },
+];
+
+/**
+ * Programmer mode buttons: hex digits and bitwise operators
+ */
+const PROGRAMMER_BUTTONS: ButtonDef[] = [
+  { label: 'A', value: 'A', type: 'digit' },
+  { label: 'B', value: 'B', type: 'digit' },
+  { label: 'C', value: 'C', type: 'digit' },
+  { label: 'D', value: 'D', type: 'digit' },
+  { label: 'E', value: 'E', type: 'digit' },
+  { label: 'F', value: 'F', type: 'digit' },
+  { label: '(', value: '(', type: 'operator', ariaLabel: 'Open Parenthesis', className: 'btn-paren' },
+  { label: ')', value: ')', type: 'operator', ariaLabel: 'Close Parenthesis', className: 'btn-paren' },
+  { label: '<<', value: '<<', type: 'operator', ariaLabel: 'Shift left', className: 'btn-function' },
+  { label: '>>', value: '>>', type: 'operator', ariaLabel: 'Shift right', className: 'btn-function' },
+  { label: 'AND', value: '&', type: 'operator', ariaLabel: 'Bitwise AND', className: 'btn-function' },
+  { label: 'OR', value: '|', type: 'operator', ariaLabel: 'Bitwise OR', className: 'btn-function' },
+  { label: 'XOR', value: '^', type: 'operator', ariaLabel: 'Bitwise XOR', className: 'btn-function' },
+  { label: 'NOT', value: '~', type: 'operator', ariaLabel: 'Bitwise NOT', className: 'btn-function' },
+  { label: 'MOD', value: '%', type: 'operator', ariaLabel: 'Remainder', className: 'btn-function' },
 ];
 
 /**
@@ -81,13 +273,22 @@ const SCIENTIFIC_BUTTONS: ButtonDef[] = [
 export function Keypad({
   mode,
   angleUnit,
+  numberMode,
+  complexMode,
+  programmer,
   onDigit,
   onOperator,
   onFunction,
   onConstant,
   onAction,
   onToggleAngleUnit,
+  onToggleNumberMode,
+  onToggleComplexMode,
 }: KeypadProps) {
+  const [page, setPage] = useState<KeypadPage>('scientific');
+  const [shift, setShift] = useState<KeypadShift | null>(null);
+  const longPress = useLongPress();
+
   const handleClick = (button: ButtonDef) => {
     switch (button.type) {
       case 'digit':
@@ -103,52 +304,159 @@ export function Keypad({
         onConstant(button.value);
         break;
       case 'action':
-        onAction(button.value as 'clear' | 'allClear' | 'backspace' | 'equals' | 'ans');
+        onAction(button.value as KeypadAction);
         break;
       case 'toggle':
         if (button.value === 'toggleAngle') {
           onToggleAngleUnit();
+        } else if (button.value === 'toggleNumberMode') {
+          onToggleNumberMode();
+        } else if (button.value === 'toggleComplexMode') {
+          onToggleComplexMode();
+        } else if (button.value === 'integerPage') {
+          setPage('integer');
+        } else if (button.value === 'scientificPage') {
+          setPage('scientific');
+        } else if (button.value in SHIFT_TOGGLES) {
+          const layer = SHIFT_TOGGLES[button.value];
+          setShift((current) => (current === layer ? null : layer));
         }
         break;
     }
   };
 
+  // A scientific button under the active modifier, which is used up only by a
+  // key it remaps; toggles such as the angle unit leave it armed
+  const handleScientificClick = (button: ButtonDef) => {
+    if (longPress.consumeLongPress()) return;
+    const shifted = shift && SHIFTED_BUTTONS[shift][button.value];
+    handleClick(shifted || button);
+    if (shifted) {
+      setShift(null);
+    }
+  };
+
   const showScientific = mode === 'scientific' || mode === 'statistics';
+  const showInteger = showScientific && page === 'integer';
+  const showProgrammer = mode === 'programmer';
+
+  // Programmer mode only accepts integer digits valid in the current base
+  const isDisabled = (button: ButtonDef) =>
+    showProgrammer && button.type === 'digit' && !isDigitInBase(button.value, programmer.base);
 
   return (
     <div class="keypad-container">
-      {showScientific && (
+      {showInteger && (
+        <div class="keypad keypad-scientific">
+          {INTEGER_BUTTONS.map((button) => (
+            <button
+              key={button.value}
+              class={`btn ${button.className || ''}`}
+              onClick={() => handleClick(button)}
+              aria-label={button.ariaLabel || button.label}
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showScientific && !showInteger && (
         <div class="keypad keypad-scientific">
           {SCIENTIFIC_BUTTONS.map((button) => {
             // Special handling for angle toggle button
             if (button.value === 'toggleAngle') {
+              return (
+                <ModeToggle
+                  key={button.value}
+                  angleUnit={angleUnit}
+                  onToggle={() => handleScientificClick(button)}
+                  className={`btn ${button.className || ''}`}
+                />
+              );
+            }
+
+            // Number mode toggle shows the active arithmetic
+            if (button.value === 'toggleNumberMode') {
               return (
                 <button
                   key={button.value}
                   class={`btn ${button.className || ''}`}
-                  onClick={() => handleClick(button)}
+                  onClick={() => handleScientificClick(button)}
+                  aria-label={`Number mode: ${NUMBER_MODE_NAMES[numberMode]}. Click to change.`}
+                  aria-pressed={numberMode !== 'decimal'}
+                >
+                  {NUMBER_MODE_LABELS[numberMode]}
+                </button>
+              );
+            }
+
+            // Complex mode toggle shows how complex results are displayed
+            if (button.value === 'toggleComplexMode') {
+              return (
+                <button
+                  key={button.value}
+                  class={`btn ${button.className || ''}`}
+                  onClick={() => handleScientificClick(button)}
+                  aria-label={`Complex mode: ${COMPLEX_MODE_NAMES[complexMode]}. Click to change.`}
+                  aria-pressed={complexMode !== 'real'}
+                >
+                  {COMPLEX_MODE_LABELS[complexMode]}
+                </button>
+              );
+            }
+
+            // 2nd and HYP stay lit while they remap the other buttons
+            if (button.value in SHIFT_TOGGLES) {
+              const active = shift === SHIFT_TOGGLES[button.value];
+              return (
+                <button
+                  key={button.value}
+                  class={`btn ${button.className || ''} ${active ? 'active' : ''}`}
+                  onClick={() => handleScientificClick(button)}
                   aria-label={button.ariaLabel || button.label}
-                  aria-pressed={angleUnit === 'deg'}
+                  aria-pressed={active}
                 >
-                  {angleUnit === 'deg' ? 'DEG' : 'RAD'}
+                  {button.label}
                 </button>
               );
             }
 
+            // Buttons with a second function hint at it and reach it on a long press
+            const second = SECOND_BUTTONS[button.value];
+            const shown = (shift && SHIFTED_BUTTONS[shift][button.value]) || button;
             return (
               <button
                 key={button.value}
-                class={`btn ${button.className || ''}`}
-                onClick={() => handleClick(button)}
-                aria-label={button.ariaLabel || button.label}
+                class={`btn ${shown.className || ''} ${shown !== button ? 'btn-shifted' : ''}`}
+                onClick={() => handleScientificClick(button)}
+                aria-label={shown.ariaLabel || shown.label}
+                data-second={!shift && second ? second.label : undefined}
+                {...(second && longPress.bind(() => handleClick(second)))}
               >
-                {button.label}
+                {shown.label}
               </button>
             );
           })}
         </div>
       )}
 
+      {showProgrammer && (
+        <div class="keypad keypad-programmer">
+          {PROGRAMMER_BUTTONS.map((button) => (
+            <button
+              key={button.value}
+              class={`btn ${button.className || ''}`}
+              onClick={() => handleClick(button)}
+              aria-label={button.ariaLabel || button.label}
+              disabled={isDisabled(button)}
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div class="keypad keypad-basic">
         {BASIC_BUTTONS.map((button) => (
           <button
@@ -156,6 +464,7 @@ export function Keypad({
             class={`btn ${button.className || ''}`}
             onClick={() => handleClick(button)}
             aria-label={button.ariaLabel || button.label}
+            disabled={isDisabled(button)}
           >
             {button.label}
           </button>
@@ -0,0 +1,211 @@
+import { useState, useMemo } from 'preact/hooks';
+import { evaluate } from '../utils/math-engine';
+import { MAX_SYSTEM_SIZE, solveLinearSystem } from '../utils/linear-system';
+import { formatNumber } from '../utils/format';
+import type {
+  AngleUnit,
+  DisplayFormat,
+  EvaluationContext,
+  LinearSystemResult,
+} from '../types';
+
+interface LinearSystemViewProps {
+  context?: EvaluationContext;
+  angleUnit?: AngleUnit;
+  displayFormat?: DisplayFormat;
+  /** Called with a result in calculator syntax to use it in the calculator */
+  onUseValue?: (value: string) => void;
+}
+
+/**
+ * Number of equations the grid can be set to
+ */
+const SYSTEM_SIZES = Array.from({ length: MAX_SYSTEM_SIZE }, (_, index) => index + 1);
+
+/**
+ * Empty grid large enough for the biggest system, so entries survive
+ * shrinking and growing the system
+ */
+const EMPTY_CELLS: readonly (readonly string[])[] = Array.from(
+  { length: MAX_SYSTEM_SIZE },
+  () => Array.from({ length: MAX_SYSTEM_SIZE + 1 }, () => '')
+);
+
+/**
+ * Evaluate a matrix entry typed as an expression, e.g. `1/3`; blank entries are 0
+ */
+function evaluateEntry(
+  value: string,
+  angleUnit: AngleUnit,
+  context: EvaluationContext
+): number | null {
+  if (!value.trim()) return 0;
+  const result = evaluate(value, angleUnit, context);
+  if (!result.success) return null;
+  const number = Number(result.value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Linear system solver with a grid for the augmented matrix [A | b]
+ */
+export function LinearSystemView({
+  context = {},
+  angleUnit = 'rad',
+  displayFormat,
+  onUseValue,
+}: LinearSystemViewProps) {
+  const [size, setSize] = useState(3);
+  const [cells, setCells] = useState(EMPTY_CELLS);
+
+  const rows = useMemo(
+    () => cells.slice(0, size).map((row) => row.slice(0, size + 1)),
+    [cells, size]
+  );
+
+  const outcome: { result: LinearSystemResult } | { error: string } | null = useMemo(() => {
+    if (rows.every((row) => row.every((value) => !value.trim()))) return null;
+
+    const augmented: number[][] = [];
+    for (const [row, entries] of rows.entries()) {
+      const values = entries.map((value) => evaluateEntry(value, angleUnit, context));
+      if (values.some((value) => value === null)) {
+        return { error: `Invalid entry in equation ${row + 1}` };
+      }
+      augmented.push(values as number[]);
+    }
+    return { result: solveLinearSystem(augmented) };
+  }, [rows, angleUnit, context]);
+
+  const handleCellInput = (row: number, column: number, value: string) => {
+    setCells((prev) =>
+      prev.map((entries, i) =>
+        i === row ? entries.map((entry, j) => (j === column ? value : entry)) : entries
+      )
+    );
+  };
+
+  const result = outcome && 'result' in outcome ? outcome.result : null;
+  const error = outcome && 'error' in outcome ? outcome.error : null;
+
+  return (
+    <div class="stats-container">
+      <div class="system-view">
+        <div class="stats-input-row">
+          <label class="stats-label">
+            Equations:
+            <select
+              class="stats-input-small"
+              value={size}
+              onChange={(e) => setSize(Number((e.target as HTMLSelectElement).value))}
+            >
+              {SYSTEM_SIZES.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button class="graph-control-btn" onClick={() => setCells(EMPTY_CELLS)}>
+            Clear
+          </button>
+        </div>
+
+        <div
+          class="system-grid"
+          style={{ gridTemplateColumns: `repeat(${size}, 1fr) auto 1fr` }}
+          role="group"
+          aria-label="Augmented matrix"
+        >
+          {Array.from({ length: size }, (_, column) => (
+            <div key={`x${column}`} class="system-heading">
+              x<sub>{column + 1}</sub>
+            </div>
+          ))}
+          <div class="system-bar" />
+          <div class="system-heading">b</div>
+
+          {rows.map((entries, row) =>
+            entries.flatMap((value, column) => {
+              const input = (
+                <input
+                  key={`${row}-${column}`}
+                  type="text"
+                  inputMode="decimal"
+                  class="stats-input-small system-cell"
+                  value={value}
+                  onInput={(e) =>
+                    handleCellInput(row, column, (e.target as HTMLInputElement).value)
+                  }
+                  placeholder="0"
+                  aria-label={
+                    column === size
+                      ? `Equation ${row + 1}, right-hand side`
+                      : `Equation ${row + 1}, coefficient of x${column + 1}`
+                  }
+                />
+              );
+              return column === size
+                ? [<div key={`bar${row}`} class="system-bar" />, input]
+                : [input];
+            })
+          )}
+        </div>
+
+        {result?.kind === 'unique' && (
+          <div class="solver-roots" aria-live="polite">
+            {result.solution.map((value, index) => (
+              <div key={index} class="stats-result-item solver-root">
+                <div class="stats-result-label">
+                  x<sub>{index + 1}</sub>
+                </div>
+                <div class="stats-result-value">{formatNumber(value, displayFormat)}</div>
+                <button
+                  class="graph-control-btn"
+                  onClick={() => onUseValue?.(formatNumber(value))}
+                  aria-label={`Use x${index + 1} in the calculator`}
+                >
+                  Use
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {result && result.kind !== 'unique' && (
+          <div class="stats-section" aria-live="polite">
+            <div class="stats-empty">
+              {result.kind === 'infinite'
+                ? 'Singular system: infinitely many solutions'
+                : 'Inconsistent system: no solution'}
+            </div>
+            <div class="stats-section-title">Reduced row echelon form</div>
+            <div
+              class="system-grid system-rref"
+              style={{ gridTemplateColumns: `repeat(${size}, 1fr) auto 1fr` }}
+            >
+              {result.rref.map((entries, row) =>
+                entries.flatMap((value, column) => {
+                  const entry = (
+                    <div key={`${row}-${column}`} class="system-entry">
+                      {formatNumber(value, displayFormat)}
+                    </div>
+                  );
+                  return column === size
+                    ? [<div key={`bar${row}`} class="system-bar" />, entry]
+                    : [entry];
+                })
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div class="stats-empty" aria-live="polite">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
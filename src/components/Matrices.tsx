@@ -0,0 +1,181 @@
+import { useState } from 'preact/hooks';
+import { evaluate, MATRIX_NAMES } from '../utils/math-engine';
+import type { EvaluationContext, UserMatrix } from '../types';
+
+interface MatricesProps {
+  matrices: readonly UserMatrix[];
+  context?: EvaluationContext;
+  onStore: (matrix: UserMatrix) => void;
+  onRemove: (name: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Largest number of rows or columns the editor offers
+ */
+const MAX_MATRIX_SIZE = 8;
+
+/**
+ * Row and column counts the editor can be set to
+ */
+const MATRIX_SIZES = Array.from({ length: MAX_MATRIX_SIZE }, (_, index) => index + 1);
+
+/**
+ * Grid of entries for a matrix, padded with blanks to the largest size so
+ * entries survive shrinking and growing the matrix
+ */
+function toCells(entries: readonly (readonly string[])[] = []): string[][] {
+  return Array.from({ length: MAX_MATRIX_SIZE }, (_, i) =>
+    Array.from({ length: MAX_MATRIX_SIZE }, (_, j) => entries[i]?.[j] ?? '')
+  );
+}
+
+/**
+ * Panel for editing and managing the named matrices [A]…[J]
+ */
+export function Matrices({ matrices, context = {}, onStore, onRemove, onClear }: MatricesProps) {
+  const [name, setName] = useState(MATRIX_NAMES[0]);
+  const [rows, setRows] = useState(2);
+  const [columns, setColumns] = useState(2);
+  const [cells, setCells] = useState(() => toCells());
+  const [error, setError] = useState('');
+
+  // Open a matrix in the editor, or start a blank one of the current size
+  const handleSelect = (selected: string) => {
+    const matrix = matrices.find((m) => m.name === selected);
+    setName(selected);
+    setCells(toCells(matrix?.entries));
+    if (matrix) {
+      setRows(matrix.entries.length);
+      setColumns(matrix.entries[0].length);
+    }
+    setError('');
+  };
+
+  const handleCellInput = (row: number, column: number, value: string) => {
+    setCells((prev) =>
+      prev.map((entries, i) =>
+        i === row ? entries.map((entry, j) => (j === column ? value : entry)) : entries
+      )
+    );
+  };
+
+  const handleSubmit = (e: Event) => {
+    e.preventDefault();
+
+    // Blank entries are stored as 0
+    const entries = cells
+      .slice(0, rows)
+      .map((row) => row.slice(0, columns).map((entry) => entry.trim() || '0'));
+
+    for (const [row, values] of entries.entries()) {
+      const column = values.findIndex((entry) => !evaluate(entry, 'rad', context).success);
+      if (column !== -1) {
+        setError(`Invalid entry in row ${row + 1}, column ${column + 1}`);
+        return;
+      }
+    }
+
+    onStore({ name, entries });
+    setError('');
+  };
+
+  return (
+    <div class="variables-panel matrices-panel">
+      <div class="history-header">
+        <span class="history-title">Matrices ({matrices.length})</span>
+        {matrices.length > 0 && (
+          <button class="history-clear-btn" onClick={onClear} aria-label="Clear matrices">
+            Clear
+          </button>
+        )}
+      </div>
+      <form class="matrices-form" onSubmit={handleSubmit}>
+        <div class="matrices-controls">
+          <select
+            class="display-select"
+            value={name}
+            onChange={(e) => handleSelect((e.target as HTMLSelectElement).value)}
+            aria-label="Matrix to edit"
+          >
+            {MATRIX_NAMES.map((option) => (
+              <option key={option} value={option}>
+                [{option}]
+              </option>
+            ))}
+          </select>
+          <select
+            class="display-select"
+            value={rows}
+            onChange={(e) => setRows(Number((e.target as HTMLSelectElement).value))}
+            aria-label="Rows"
+          >
+            {MATRIX_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+          ×
+          <select
+            class="display-select"
+            value={columns}
+            onChange={(e) => setColumns(Number((e.target as HTMLSelectElement).value))}
+            aria-label="Columns"
+          >
+            {MATRIX_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+          <button type="submit" class="graph-control-btn functions-define-btn">
+            Store
+          </button>
+        </div>
+        <div class="matrices-editor" style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}>
+          {cells.slice(0, rows).map((entries, row) =>
+            entries.slice(0, columns).map((value, column) => (
+              <input
+                key={`${row}-${column}`}
+                type="text"
+                inputMode="decimal"
+                class="stats-input-small matrices-cell"
+                value={value}
+                onInput={(e) =>
+                  handleCellInput(row, column, (e.target as HTMLInputElement).value)
+                }
+                placeholder="0"
+                aria-label={`[${name}] row ${row + 1}, column ${column + 1}`}
+              />
+            ))
+          )}
+        </div>
+      </form>
+      {error && <div class="functions-error">{error}</div>}
+      <div class="variables-list">
+        {matrices.map((matrix) => (
+          <div key={matrix.name} class="variables-item">
+            <button
+              class="matrices-name"
+              onClick={() => handleSelect(matrix.name)}
+              aria-label={`Edit matrix ${matrix.name}`}
+            >
+              [{matrix.name}]
+            </button>
+            <span class="variables-value">
+              {matrix.entries.length}×{matrix.entries[0].length}
+            </span>
+            <button
+              class="variables-remove"
+              onClick={() => onRemove(matrix.name)}
+              aria-label={`Delete matrix ${matrix.name}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+interface MatrixGridProps {
+  /** Formatted entries, row by row */
+  entries: readonly (readonly string[])[];
+  class?: string;
+}
+
+/**
+ * Matrix result laid out as a grid between brackets
+ */
+export function MatrixGrid({ entries, class: className = '' }: MatrixGridProps) {
+  const columns = entries[0]?.length ?? 0;
+
+  return (
+    <div
+      class={`matrix-grid ${className}`}
+      style={{ gridTemplateColumns: `repeat(${columns}, auto)` }}
+      role="table"
+      aria-label={`${entries.length} by ${columns} matrix`}
+    >
+      {entries.map((row, i) => (
+        <div key={i} class="matrix-row" role="row">
+          {row.map((entry, j) => (
+            <span key={j} class="matrix-entry" role="cell">
+              {entry}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,20 +3,43 @@ import type { AngleUnit } from '../types';
 interface ModeToggleProps {
   angleUnit: AngleUnit;
   onToggle: () => void;
+  className?: string;
 }
 
 /**
- * Toggle button for DEG/RAD mode
+ * Button labels for each angle unit
  */
-export function ModeToggle({ angleUnit, onToggle }: ModeToggleProps) {
+const ANGLE_UNIT_LABELS: Record<AngleUnit, string> = {
+  deg: 'DEG',
+  rad: 'RAD',
+  grad: 'GRAD',
+};
+
+/**
+ * Spoken names for each angle unit
+ */
+const ANGLE_UNIT_NAMES: Record<AngleUnit, string> = {
+  deg: 'degrees',
+  rad: 'radians',
+  grad: 'gradians',
+};
+
+/**
+ * Toggle button for DEG/RAD/GRAD mode
+ */
+export function ModeToggle({
+  angleUnit,
+  onToggle,
+  className = 'btn btn-toggle mode-toggle-btn',
+}: ModeToggleProps) {
   return (
     <button
-      class="btn btn-toggle mode-toggle-btn"
+      class={className}
       onClick={onToggle}
-      aria-label={`Current angle unit: ${angleUnit === 'deg' ? 'degrees' : 'radians'}. Click to toggle.`}
-      aria-pressed={angleUnit === 'deg'}
+      aria-label={`Current angle unit: ${ANGLE_UNIT_NAMES[angleUnit]}. Click to change.`}
+      aria-pressed={angleUnit !== 'rad'}
     >
-      {angleUnit === 'deg' ? 'DEG' : 'RAD'}
+      {ANGLE_UNIT_LABELS[angleUnit]}
     </button>
   );
 }
@@ -0,0 +1,146 @@
+import { useState, useMemo } from 'preact/hooks';
+import { evaluateSequence } from '../utils/math-engine';
+import { formatNumber } from '../utils/format';
+import { fitBounds } from '../utils/graphing';
+import type {
+  AngleUnit,
+  DisplayFormat,
+  EvaluationContext,
+  GraphBounds,
+  GraphPoint,
+  SequenceResult,
+} from '../types';
+
+interface SequenceViewProps {
+  context?: EvaluationContext;
+  angleUnit?: AngleUnit;
+  displayFormat?: DisplayFormat;
+  /** Called to plot the terms as points, with bounds that show them all */
+  onGraph?: (expression: string, points: readonly GraphPoint[], bounds: GraphBounds) => void;
+}
+
+/**
+ * Sequence mode: a term table with partial sums for a sequence defined
+ * explicitly or by a recurrence with initial terms
+ */
+export function SequenceView({
+  context = {},
+  angleUnit = 'rad',
+  displayFormat,
+  onGraph,
+}: SequenceViewProps) {
+  const [definition, setDefinition] = useState('');
+  const [initialTerms, setInitialTerms] = useState('');
+  const [start, setStart] = useState('1');
+  const [count, setCount] = useState('10');
+
+  const result: SequenceResult | null = useMemo(() => {
+    if (!definition.trim()) return null;
+    return evaluateSequence(
+      definition,
+      initialTerms,
+      Number(start),
+      Number(count),
+      angleUnit,
+      context
+    );
+  }, [definition, initialTerms, start, count, angleUnit, context]);
+
+  const handleGraph = () => {
+    if (!result?.success) return;
+    const points = result.terms.map((term) => ({ x: term.n, y: term.value }));
+    onGraph?.('', points, fitBounds(points));
+  };
+
+  return (
+    <div class="stats-container">
+      <div class="solver-view">
+        <div class="stats-input-container">
+          <label class="stats-label" htmlFor="sequence-definition">
+            Definition:
+          </label>
+          <input
+            id="sequence-definition"
+            type="text"
+            class="stats-input"
+            value={definition}
+            onInput={(e) => setDefinition((e.target as HTMLInputElement).value)}
+            placeholder="u(n) = u(n-1) + u(n-2) or u(n) = 2^n"
+          />
+        </div>
+
+        <div class="stats-input-container">
+          <label class="stats-label" htmlFor="sequence-initial">
+            Initial terms:
+          </label>
+          <input
+            id="sequence-initial"
+            type="text"
+            class="stats-input"
+            value={initialTerms}
+            onInput={(e) => setInitialTerms((e.target as HTMLInputElement).value)}
+            placeholder="1, 1"
+          />
+        </div>
+
+        <div class="stats-input-row">
+          <label class="stats-label">
+            From n =
+            <input
+              type="number"
+              class="stats-input-small"
+              value={start}
+              onInput={(e) => setStart((e.target as HTMLInputElement).value)}
+            />
+          </label>
+          <label class="stats-label">
+            Terms:
+            <input
+              type="number"
+              class="stats-input-small"
+              min="1"
+              value={count}
+              onInput={(e) => setCount((e.target as HTMLInputElement).value)}
+            />
+          </label>
+        </div>
+
+        {result?.success && (
+          <>
+            <div class="graph-table-container sequence-table">
+              <table class="graph-table">
+                <thead>
+                  <tr>
+                    <th>{result.variable}</th>
+                    <th>
+                      {result.name}({result.variable})
+                    </th>
+                    <th>Σ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.terms.map((term) => (
+                    <tr key={term.n}>
+                      <td>{term.n}</td>
+                      <td>{formatNumber(term.value, displayFormat)}</td>
+                      <td>{formatNumber(term.partialSum, displayFormat)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <button class="graph-control-btn solver-graph-btn" onClick={handleGraph}>
+              Graph
+            </button>
+          </>
+        )}
+
+        {result && !result.success && (
+          <div class="stats-empty" aria-live="polite">
+            {result.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
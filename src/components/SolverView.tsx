@@ -0,0 +1,237 @@
+import { useState, useMemo } from 'preact/hooks';
+import {
+  evaluate,
+  findPolynomialRoots,
+  formatPolynomialRoot,
+  solveEquation,
+} from '../utils/math-engine';
+import { formatNumber } from '../utils/format';
+import type {
+  AngleUnit,
+  DisplayFormat,
+  EvaluationContext,
+  GraphPoint,
+  PolynomialRootsResult,
+  SolveRange,
+  SolveResult,
+} from '../types';
+
+interface SolverViewProps {
+  context?: EvaluationContext;
+  angleUnit?: AngleUnit;
+  displayFormat?: DisplayFormat;
+  /** Called with a result in calculator syntax to use it in the calculator */
+  onUseValue?: (value: string) => void;
+  /** Called to plot a polynomial with its real roots marked */
+  onGraph?: (expression: string, points: readonly GraphPoint[]) => void;
+}
+
+type SolverTab = 'interval' | 'guess' | 'polynomial';
+
+/**
+ * Evaluate a limit or guess typed as an expression, e.g. `-2pi`
+ */
+function evaluateBound(
+  value: string,
+  angleUnit: AngleUnit,
+  context: EvaluationContext
+): number | null {
+  const result = evaluate(value, angleUnit, context);
+  if (!result.success) return null;
+  const number = Number(result.value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Equation solver listing the real roots in an interval or near a guess,
+ * and every root of a polynomial
+ */
+export function SolverView({
+  context = {},
+  angleUnit = 'rad',
+  displayFormat,
+  onUseValue,
+  onGraph,
+}: SolverViewProps) {
+  const [activeTab, setActiveTab] = useState<SolverTab>('interval');
+  const [equation, setEquation] = useState('');
+  const [variable, setVariable] = useState('x');
+  const [min, setMin] = useState('-10');
+  const [max, setMax] = useState('10');
+  const [guess, setGuess] = useState('0');
+
+  const isPolynomial = activeTab === 'polynomial';
+  const name = variable.trim() || 'x';
+
+  const result: SolveResult | null = useMemo(() => {
+    if (!equation.trim() || isPolynomial) return null;
+
+    let range: SolveRange;
+    if (activeTab === 'guess') {
+      const start = evaluateBound(guess, angleUnit, context);
+      if (start === null) return { success: false, error: 'Invalid guess' };
+      range = { guess: start };
+    } else {
+      const from = evaluateBound(min, angleUnit, context);
+      const to = evaluateBound(max, angleUnit, context);
+      if (from === null || to === null || from >= to) {
+        return { success: false, error: 'Invalid interval' };
+      }
+      range = { min: from, max: to };
+    }
+
+    return solveEquation(equation, name, range, angleUnit, context);
+  }, [activeTab, isPolynomial, equation, name, min, max, guess, angleUnit, context]);
+
+  const polynomialResult: PolynomialRootsResult | null = useMemo(
+    () => (equation.trim() && isPolynomial ? findPolynomialRoots(equation, context) : null),
+    [equation, isPolynomial, context]
+  );
+
+  const error =
+    (result && !result.success && result.error) ||
+    (polynomialResult && !polynomialResult.success && polynomialResult.error);
+
+  const handleGraph = () => {
+    if (!polynomialResult?.success) return;
+    const points = polynomialResult.roots
+      .filter((root) => root.im === 0)
+      .map((root) => ({ x: root.re, y: 0 }));
+    onGraph?.(polynomialResult.polynomial, points);
+  };
+
+  return (
+    <div class="stats-container">
+      <div class="stats-tabs">
+        <button
+          class={`stats-tab ${activeTab === 'interval' ? 'active' : ''}`}
+          onClick={() => setActiveTab('interval')}
+        >
+          Interval
+        </button>
+        <button
+          class={`stats-tab ${activeTab === 'guess' ? 'active' : ''}`}
+          onClick={() => setActiveTab('guess')}
+        >
+          Near Guess
+        </button>
+        <button
+          class={`stats-tab ${isPolynomial ? 'active' : ''}`}
+          onClick={() => setActiveTab('polynomial')}
+        >
+          Polynomial
+        </button>
+      </div>
+
+      <div class="solver-view">
+        <div class="stats-input-container">
+          <label class="stats-label" htmlFor="solver-equation">
+            {isPolynomial ? 'Polynomial or coefficients:' : 'Equation:'}
+          </label>
+          <input
+            id="solver-equation"
+            type="text"
+            class="stats-input"
+            value={equation}
+            onInput={(e) => setEquation((e.target as HTMLInputElement).value)}
+            placeholder={isPolynomial ? 'x^3 - 2x - 5 or 1, 0, -2, -5' : 'x^3 - 2x = 5'}
+          />
+        </div>
+
+        {!isPolynomial && (
+          <div class="stats-input-row">
+            <label class="stats-label">
+              Variable:
+              <input
+                type="text"
+                class="stats-input-small"
+                value={variable}
+                onInput={(e) => setVariable((e.target as HTMLInputElement).value)}
+              />
+            </label>
+            {activeTab === 'interval' ? (
+              <>
+                <label class="stats-label">
+                  From:
+                  <input
+                    type="text"
+                    class="stats-input-small"
+                    value={min}
+                    onInput={(e) => setMin((e.target as HTMLInputElement).value)}
+                  />
+                </label>
+                <label class="stats-label">
+                  To:
+                  <input
+                    type="text"
+                    class="stats-input-small"
+                    value={max}
+                    onInput={(e) => setMax((e.target as HTMLInputElement).value)}
+                  />
+                </label>
+              </>
+            ) : (
+              <label class="stats-label">
+                Guess:
+                <input
+                  type="text"
+                  class="stats-input-small"
+                  value={guess}
+                  onInput={(e) => setGuess((e.target as HTMLInputElement).value)}
+                />
+              </label>
+            )}
+          </div>
+        )}
+
+        {result?.success && (
+          <div class="stats-results" aria-live="polite">
+            {result.roots.map((root, index) => (
+              <div key={index} class="stats-result-item">
+                <div class="stats-result-label">
+                  {name}
+                  {result.roots.length > 1 && <sub>{index + 1}</sub>}
+                </div>
+                <div class="stats-result-value">{formatNumber(root, displayFormat)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {polynomialResult?.success && (
+          <>
+            <div class="solver-roots" aria-live="polite">
+              {polynomialResult.roots.map((root, index) => (
+                <div key={index} class="stats-result-item solver-root">
+                  <div class="stats-result-label">
+                    x<sub>{index + 1}</sub>
+                    {root.multiplicity > 1 && ` (×${root.multiplicity})`}
+                  </div>
+                  <div class="stats-result-value">
+                    {formatPolynomialRoot(root, displayFormat)}
+                  </div>
+                  <button
+                    class="graph-control-btn"
+                    onClick={() => onUseValue?.(formatPolynomialRoot(root))}
+                    aria-label={`Use x${index + 1} in the calculator`}
+                  >
+                    Use
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button class="graph-control-btn solver-graph-btn" onClick={handleGraph}>
+              Graph
+            </button>
+          </>
+        )}
+
+        {error && (
+          <div class="stats-empty" aria-live="polite">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,25 +7,27 @@ import {
   normalCDF,
   normalInverseCDF,
 } from '../utils/statistics';
-import type { StatisticsData } from '../types';
+import { formatNumber } from '../utils/format';
+import type { DisplayFormat, StatisticsData } from '../types';
+
+interface StatisticsViewProps {
+  displayFormat?: DisplayFormat;
+}
 
 type StatsTab = 'data' | 'probability';
 
 /**
- * Format a number for display
+ * Format a number for display in the user's display format
  */
-function formatValue(value: number): string {
+function formatValue(value: number, displayFormat?: DisplayFormat): string {
   if (!Number.isFinite(value)) return 'Error';
-  if (Math.abs(value) < 0.0001 && value !== 0) {
-    return value.toExponential(4);
-  }
-  return Number(value.toPrecision(8)).toString();
+  return formatNumber(value, displayFormat);
 }
 
 /**
  * Statistics view for data analysis
  */
-export function StatisticsView() {
+export function StatisticsView({ displayFormat }: StatisticsViewProps) {
   const [activeTab, setActiveTab] = useState<StatsTab>('data');
   const [dataInput, setDataInput] = useState('');
 
@@ -139,31 +141,31 @@ export function StatisticsView() {
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">Sum</div>
-                <div class="stats-result-value">{formatValue(stats.sum)}</div>
+                <div class="stats-result-value">{formatValue(stats.sum, displayFormat)}</div>
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">Mean (x̄)</div>
-                <div class="stats-result-value">{formatValue(stats.mean)}</div>
+                <div class="stats-result-value">{formatValue(stats.mean, displayFormat)}</div>
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">Median</div>
-                <div class="stats-result-value">{formatValue(stats.median)}</div>
+                <div class="stats-result-value">{formatValue(stats.median, displayFormat)}</div>
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">Mode</div>
                 <div class="stats-result-value">
                   {stats.mode.length === 0
                     ? 'None'
-                    : stats.mode.map(formatValue).join(', ')}
+                    : stats.mode.map((value) => formatValue(value, displayFormat)).join(', ')}
                 </div>
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">Std Dev (σ)</div>
-                <div class="stats-result-value">{formatValue(stats.stdDev)}</div>
+                <div class="stats-result-value">{formatValue(stats.stdDev, displayFormat)}</div>
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">Variance (σ²)</div>
-                <div class="stats-result-value">{formatValue(stats.variance)}</div>
+                <div class="stats-result-value">{formatValue(stats.variance, displayFormat)}</div>
               </div>
             </div>
           )}
@@ -207,13 +209,13 @@ export function StatisticsView() {
               <div class="stats-result-item">
                 <div class="stats-result-label">nPr</div>
                 <div class="stats-result-value">
-                  {nPrResult !== null ? formatValue(nPrResult) : '-'}
+                  {nPrResult !== null ? formatValue(nPrResult, displayFormat) : '-'}
                 </div>
               </div>
               <div class="stats-result-item">
                 <div class="stats-result-label">nCr</div>
                 <div class="stats-result-value">
-                  {nCrResult !== null ? formatValue(nCrResult) : '-'}
+                  {nCrResult !== null ? formatValue(nCrResult, displayFormat) : '-'}
                 </div>
               </div>
             </div>
@@ -263,7 +265,7 @@ export function StatisticsView() {
                 <div class="stats-result-item">
                   <div class="stats-result-label">P(X ≤ x)</div>
                   <div class="stats-result-value">
-                    {normalCDFResult !== null ? formatValue(normalCDFResult) : '-'}
+                    {normalCDFResult !== null ? formatValue(normalCDFResult, displayFormat) : '-'}
                   </div>
                 </div>
               </div>
@@ -287,7 +289,7 @@ export function StatisticsView() {
                 <div class="stats-result-item">
                   <div class="stats-result-label">x for P(X≤x)=p</div>
                   <div class="stats-result-value">
-                    {normalInverseResult !== null ? formatValue(normalInverseResult) : '-'}
+                    {normalInverseResult !== null ? formatValue(normalInverseResult, displayFormat) : '-'}
                   </div>
                 </div>
               </div>
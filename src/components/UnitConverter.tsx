@@ -0,0 +1,136 @@
+import { useState, useMemo } from 'preact/hooks';
+import { UNIT_CATEGORIES, convertUnit, formatConversion } from '../utils/units';
+import type { HistoryEntry, UnitCategory } from '../types';
+
+interface UnitConverterProps {
+  onHistoryAdd?: (entry: HistoryEntry) => void;
+}
+
+/**
+ * Find a unit category by name, defaulting to the first one
+ */
+function findCategory(name: string): UnitCategory {
+  return UNIT_CATEGORIES.find((category) => category.name === name) ?? UNIT_CATEGORIES[0];
+}
+
+/**
+ * Unit converter with a categorized unit picker
+ */
+export function UnitConverter({ onHistoryAdd }: UnitConverterProps) {
+  const [categoryName, setCategoryName] = useState(UNIT_CATEGORIES[0].name);
+  const [value, setValue] = useState('1');
+  const [fromUnit, setFromUnit] = useState(UNIT_CATEGORIES[0].units[0].name);
+  const [toUnit, setToUnit] = useState(UNIT_CATEGORIES[0].units[1].name);
+
+  const category = findCategory(categoryName);
+
+  const result = useMemo(
+    () => convertUnit(value, fromUnit, toUnit),
+    [value, fromUnit, toUnit]
+  );
+
+  const handleCategoryChange = (name: string) => {
+    const next = findCategory(name);
+    setCategoryName(next.name);
+    setFromUnit(next.units[0].name);
+    setToUnit(next.units[1].name);
+  };
+
+  const handleSwap = () => {
+    setFromUnit(toUnit);
+    setToUnit(fromUnit);
+  };
+
+  const handleSave = () => {
+    if (!result.success) return;
+    onHistoryAdd?.({
+      id: crypto.randomUUID(),
+      expression: formatConversion(value, fromUnit, toUnit),
+      result: result.displayValue,
+      timestamp: Date.now(),
+    });
+  };
+
+  return (
+    <div class="stats-container">
+      <div class="stats-tabs units-categories">
+        {UNIT_CATEGORIES.map((option) => (
+          <button
+            key={option.name}
+            class={`stats-tab ${option.name === category.name ? 'active' : ''}`}
+            onClick={() => handleCategoryChange(option.name)}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+
+      <div class="units-view">
+        <div class="stats-input-container">
+          <label class="stats-label" htmlFor="unit-value">
+            Value:
+          </label>
+          <input
+            id="unit-value"
+            type="text"
+            class="stats-input"
+            value={value}
+            onInput={(e) => setValue((e.target as HTMLInputElement).value)}
+            placeholder="1"
+          />
+        </div>
+
+        <div class="units-picker-row">
+          <label class="stats-label units-picker">
+            From:
+            <select
+              class="stats-input"
+              value={fromUnit}
+              onChange={(e) => setFromUnit((e.target as HTMLSelectElement).value)}
+            >
+              {category.units.map((unit) => (
+                <option key={unit.name} value={unit.name}>
+                  {unit.label} ({unit.name})
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            class="graph-control-btn units-swap-btn"
+            onClick={handleSwap}
+            aria-label="Swap units"
+          >
+            ⇄
+          </button>
+          <label class="stats-label units-picker">
+            To:
+            <select
+              class="stats-input"
+              value={toUnit}
+              onChange={(e) => setToUnit((e.target as HTMLSelectElement).value)}
+            >
+              {category.units.map((unit) => (
+                <option key={unit.name} value={unit.name}>
+                  {unit.label} ({unit.name})
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div class="stats-result-item units-result">
+          <div class="stats-result-label">{formatConversion(value || '0', fromUnit, toUnit)}</div>
+          <div class="stats-result-value">{result.success ? result.displayValue : '-'}</div>
+        </div>
+
+        <button
+          class="graph-control-btn units-save-btn"
+          onClick={handleSave}
+          disabled={!result.success}
+        >
+          Add to History
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { UserVariable } from '../types';
+
+interface VariablesProps {
+  variables: readonly UserVariable[];
+  onRemove: (name: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Panel listing user-defined variables
+ */
+export function Variables({ variables, onRemove, onClear }: VariablesProps) {
+  return (
+    <div class="variables-panel">
+      <div class="history-header">
+        <span class="history-title">Variables ({variables.length})</span>
+        <button class="history-clear-btn" onClick={onClear} aria-label="Clear variables">
+          Clear
+        </button>
+      </div>
+      <div class="variables-list">
+        {variables.map((variable) => (
+          <div key={variable.name} class="variables-item">
+            <span class="variables-name">{variable.name}</span>
+            <span class="variables-value">= {variable.value}</span>
+            <button
+              class="variables-remove"
+              onClick={() => onRemove(variable.name)}
+              aria-label={`Delete variable ${variable.name}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
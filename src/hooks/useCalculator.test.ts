@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import { useCalculator } from './useCalculator';
+import type { DisplayFormat } from '../types';
+
+describe('useCalculator', () => {
+  const fix2: DisplayFormat = {
+    notation: 'fixed',
+    digits: 2,
+    siPrefixes: false,
+    mixedFractions: false,
+  };
+
+  /**
+   * Type an expression and press =
+   */
+  function calculate(result: { current: ReturnType<typeof useCalculator> }, expression: string) {
+    act(() => result.current.setExpression(expression));
+    act(() => {
+      result.current.calculateResult();
+    });
+  }
+
+  describe('ANS', () => {
+    it('keeps full precision whatever the display format', () => {
+      const { result } = renderHook(() => useCalculator());
+
+      act(() => result.current.setDisplayFormat(fix2));
+      calculate(result, 'pi');
+      expect(result.current.state.result).toBe('3.14');
+
+      act(() => result.current.clear());
+      act(() => result.current.insertAns());
+      calculate(result, result.current.state.expression + '*1');
+
+      expect(result.current.state.result).toBe('3.14');
+      expect(Number(result.current.state.previousResult)).toBeCloseTo(Math.PI, 12);
+    });
+
+    it('reads the same after mixed numbers are turned off', () => {
+      const { result } = renderHook(() => useCalculator());
+
+      act(() => result.current.toggleNumberMode());
+      act(() => result.current.toggleMixedFractions());
+      calculate(result, '7/2');
+      expect(result.current.state.result).toBe('3 1/2');
+
+      act(() => result.current.toggleMixedFractions());
+      act(() => result.current.clear());
+      act(() => result.current.insertAns());
+      calculate(result, result.current.state.expression + '*2');
+
+      expect(result.current.state.result).toBe('7');
+    });
+
+    it('keeps a fraction shown as a mixed number in improper form', () => {
+      const onHistoryUpdate = vi.fn();
+      const { result } = renderHook(() => useCalculator(undefined, { onHistoryUpdate }));
+
+      act(() => result.current.toggleMixedFractions());
+      calculate(result, '3.5');
+      act(() => result.current.showFraction());
+
+      expect(result.current.state.result).toBe('3 1/2');
+      expect(result.current.state.previousResult).toBe('7/2');
+      expect(onHistoryUpdate).toHaveBeenCalledWith(expect.any(String), '3 1/2', '7/2');
+    });
+
+    it('stands for the quotient of a division with remainder', () => {
+      const { result } = renderHook(() => useCalculator());
+
+      calculate(result, 'divmod(17, 5)');
+
+      expect(result.current.state.previousResult).toBe('3');
+    });
+  });
+
+  describe('history', () => {
+    it('records the result as shown and at full precision', () => {
+      const onHistoryAdd = vi.fn();
+      const { result } = renderHook(() => useCalculator(onHistoryAdd));
+
+      act(() => result.current.setDisplayFormat(fix2));
+      calculate(result, 'pi');
+
+      expect(onHistoryAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ result: '3.14', answer: String(Math.PI) })
+      );
+    });
+  });
+});
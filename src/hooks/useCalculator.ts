@@ -1,6 +1,39 @@
-import { useState, useCallback, useEffect } from 'preact/hooks';
-import type { CalculatorState, CalculatorMode, HistoryEntry } from '../types';
-import { evaluate, getUnclosedParentheses } from '../utils/math-engine';
+import { useState, useCallback, useEffect, useRef } from 'preact/hooks';
+import type {
+  AngleUnit,
+  BigNumberPrecision,
+  CalculationResult,
+  CalculatorState,
+  CalculatorMode,
+  ComplexMode,
+  DisplayFormat,
+  HistoryEntry,
+  NumberBase,
+  NumberMode,
+  ProgrammerSettings,
+  UserFunction,
+  UserMatrix,
+  UserVariable,
+  WordSize,
+} from '../types';
+import {
+  DEFAULT_BIGNUMBER_PRECISION,
+  evaluate,
+  getUnclosedParentheses,
+  isAssignmentTarget,
+} from '../utils/math-engine';
+import { DEFAULT_DISPLAY_FORMAT, formatNumber } from '../utils/format';
+import {
+  convertToDecimal,
+  convertToFraction,
+  formatFraction,
+  parseFraction,
+} from '../utils/fractions';
+import {
+  convertExpressionBase,
+  convertResult,
+  evaluateProgrammer,
+} from '../utils/programmer';
 
 /**
  * Initial calculator state
@@ -9,9 +42,81 @@ const INITIAL_STATE: CalculatorState = {
   expression: '',
   result: '',
   previousResult: '0',
+  alternateResult: '',
+  approximation: '',
+  errorEstimate: '',
+  matrix: null,
+  vector: null,
+  factorization: null,
   angleUnit: 'rad',
+  numberMode: 'decimal',
+  bigNumberPrecision: DEFAULT_BIGNUMBER_PRECISION,
+  complexMode: 'real',
+  displayFormat: DEFAULT_DISPLAY_FORMAT,
+  programmer: {
+    base: 'dec',
+    wordSize: 64,
+    signed: true,
+  },
   mode: 'scientific',
   isError: false,
+  errorSpan: null,
+  errorSuggestion: '',
+  isSymbolic: false,
+};
+
+/**
+ * Format the error estimate of a numeric integral, empty if there is none
+ */
+function formatErrorEstimate(errorEstimate: number | undefined): string {
+  return errorEstimate === undefined
+    ? ''
+    : formatNumber(errorEstimate, { ...DEFAULT_DISPLAY_FORMAT, notation: 'scientific', digits: 2 });
+}
+
+/**
+ * What ANS stands for after a result: the result at full precision, or as
+ * shown when there is no such form, as for symbolic and programmer results
+ */
+function answerFor(result: Extract<CalculationResult, { success: true }>): string {
+  return result.answer ?? result.displayValue;
+}
+
+/**
+ * What ANS stands for after a result is shown in another form: fractions in
+ * improper form, which reads the same whether or not mixed numbers are on,
+ * otherwise the result as shown
+ */
+function answerForConverted(result: string): string {
+  const fraction = parseFraction(result);
+  return fraction ? formatFraction(fraction, false) : result;
+}
+
+/**
+ * Order in which the angle unit toggle cycles
+ */
+const NEXT_ANGLE_UNIT: Record<AngleUnit, AngleUnit> = {
+  rad: 'deg',
+  deg: 'grad',
+  grad: 'rad',
+};
+
+/**
+ * Order in which the number mode toggle cycles
+ */
+const NEXT_NUMBER_MODE: Record<NumberMode, NumberMode> = {
+  decimal: 'fraction',
+  fraction: 'bignumber',
+  bignumber: 'decimal',
+};
+
+/**
+ * Order in which the complex mode toggle cycles
+ */
+const NEXT_COMPLEX_MODE: Record<ComplexMode, ComplexMode> = {
+  real: 'rectangular',
+  rectangular: 'polar',
+  polar: 'real',
 };
 
 /**
@@ -44,6 +149,57 @@ function lastNumberHasDecimal(expression: string): boolean {
   return lastPart.includes('.');
 }
 
+/**
+ * Keys that insert programmer mode operators
+ */
+const PROGRAMMER_KEYS: Record<string, string> = {
+  '&': '&',
+  '|': '|',
+  '~': '~',
+  '%': '%',
+  '<': '<<',
+  '>': '>>',
+};
+
+/**
+ * Apply new programmer settings, re-expressing the current expression and
+ * results so they keep their values
+ */
+function withProgrammerSettings(
+  prev: CalculatorState,
+  settings: ProgrammerSettings
+): CalculatorState {
+  const from = prev.programmer;
+  return {
+    ...prev,
+    programmer: settings,
+    expression:
+      from.base === settings.base
+        ? prev.expression
+        : convertExpressionBase(prev.expression, from.base, settings.base),
+    result: prev.isError ? prev.result : convertResult(prev.result, from, settings),
+    previousResult: convertResult(prev.previousResult, from, settings),
+  };
+}
+
+/**
+ * Check if a value is a single letter typed as part of a name
+ */
+function isLetter(value: string): boolean {
+  return /^[a-zA-Z]$/.test(value);
+}
+
+export interface UseCalculatorOptions {
+  variables?: readonly UserVariable[];
+  functions?: readonly UserFunction[];
+  onVariableAssign?: (variable: UserVariable) => void;
+  onFunctionAssign?: (fn: UserFunction) => void;
+  matrices?: readonly UserMatrix[];
+  onMatrixAssign?: (matrix: UserMatrix) => void;
+  /** Told when the latest result is shown in another form, to update its history entry */
+  onHistoryUpdate?: (id: string, result: string, answer: string) => void;
+}
+
 export interface UseCalculatorReturn {
   state: CalculatorState;
   appendToExpression: (value: string) => void;
@@ -52,6 +208,17 @@ export interface UseCalculatorReturn {
   backspace: () => void;
   calculateResult: () => HistoryEntry | null;
   toggleAngleUnit: () => void;
+  toggleNumberMode: () => void;
+  setBigNumberPrecision: (precision: BigNumberPrecision) => void;
+  toggleComplexMode: () => void;
+  toggleResultFormat: () => void;
+  showFraction: () => void;
+  showDecimal: () => void;
+  toggleMixedFractions: () => void;
+  setDisplayFormat: (displayFormat: DisplayFormat) => void;
+  setNumberBase: (base: NumberBase) => void;
+  setWordSize: (wordSize: WordSize) => void;
+  toggleSigned: () => void;
   setMode: (mode: CalculatorMode) => void;
   insertAns: () => void;
   insertFunction: (funcName: string) => void;
@@ -63,9 +230,21 @@ export interface UseCalculatorReturn {
  * Hook for managing calculator state and operations
  */
 export function useCalculator(
-  onHistoryAdd?: (entry: HistoryEntry) => void
+  onHistoryAdd?: (entry: HistoryEntry) => void,
+  options: UseCalculatorOptions = {}
 ): UseCalculatorReturn {
+  const {
+    variables,
+    functions,
+    matrices,
+    onVariableAssign,
+    onFunctionAssign,
+    onMatrixAssign,
+    onHistoryUpdate,
+  } = options;
   const [state, setState] = useState<CalculatorState>(INITIAL_STATE);
+  // History entry of the current result, updated when the result changes form
+  const lastEntryId = useRef<string | null>(null);
 
   /**
    * Append a value to the current expression
@@ -74,7 +253,12 @@ export function useCalculator(
     setState((prev) => {
       // If there was an error, start fresh with the new input
       if (prev.isError) {
-        if (isDigitOrDecimal(value) || value === '(' || value === 'π' || value === 'e') {
+        if (
+          isDigitOrDecimal(value) ||
+          isLetter(value.charAt(0)) ||
+          value.startsWith('(') ||
+          value === 'π'
+        ) {
           return {
             ...prev,
             expression: value,
@@ -188,6 +372,9 @@ export function useCalculator(
    */
   const calculateResult = useCallback((): HistoryEntry | null => {
     let historyEntry: HistoryEntry | null = null;
+    let assignedVariable: UserVariable | undefined;
+    let assignedFunction: UserFunction | undefined;
+    let assignedMatrix: UserMatrix | undefined;
 
     setState((prev) => {
       if (!prev.expression.trim()) {
@@ -201,49 +388,295 @@ export function useCalculator(
         expression += ')'.repeat(unclosed);
       }
 
-      const calcResult = evaluate(expression, prev.angleUnit);
+      const calcResult =
+        prev.mode === 'programmer'
+          ? evaluateProgrammer(expression, prev.programmer)
+          : evaluate(expression, prev.angleUnit, {
+              variables,
+              functions,
+              matrices,
+              numberMode: prev.numberMode,
+              bigNumberPrecision: prev.bigNumberPrecision,
+              complexMode: prev.complexMode,
+              displayFormat: prev.displayFormat,
+            });
 
       if (calcResult.success) {
+        assignedVariable = calcResult.assignedVariable;
+        assignedFunction = calcResult.assignedFunction;
+        assignedMatrix = calcResult.assignedMatrix;
+
         historyEntry = {
           id: crypto.randomUUID(),
           expression: prev.expression,
           result: calcResult.displayValue,
+          answer: calcResult.answer,
+          symbolic: calcResult.symbolic,
+          matrix: calcResult.matrix,
           timestamp: Date.now(),
         };
+        lastEntryId.current = historyEntry.id;
 
         return {
           ...prev,
           expression: expression,
           result: calcResult.displayValue,
-          previousResult: calcResult.displayValue,
+          previousResult: answerFor(calcResult),
+          alternateResult: calcResult.alternateDisplayValue ?? '',
+          approximation: '',
+          errorEstimate: formatErrorEstimate(calcResult.errorEstimate),
+          matrix: calcResult.matrix ?? null,
+          vector: calcResult.vector ?? null,
+          factorization: calcResult.factorization ?? null,
           isError: false,
+          errorSpan: null,
+          errorSuggestion: '',
+          isSymbolic: calcResult.symbolic ?? false,
         };
       }
 
+      lastEntryId.current = null;
       return {
         ...prev,
         result: calcResult.error,
+        alternateResult: '',
+        approximation: '',
+        errorEstimate: '',
+        matrix: null,
+        vector: null,
+        factorization: null,
         isError: true,
+        errorSpan: calcResult.span ?? null,
+        errorSuggestion: calcResult.suggestion ?? '',
+        isSymbolic: false,
       };
     });
 
+    if (assignedVariable && onVariableAssign) {
+      onVariableAssign(assignedVariable);
+    }
+
+    if (assignedFunction && onFunctionAssign) {
+      onFunctionAssign(assignedFunction);
+    }
+
+    if (assignedMatrix && onMatrixAssign) {
+      onMatrixAssign(assignedMatrix);
+    }
+
     if (historyEntry && onHistoryAdd) {
       onHistoryAdd(historyEntry);
     }
 
     return historyEntry;
-  }, [onHistoryAdd]);
+  }, [
+    onHistoryAdd,
+    onVariableAssign,
+    onFunctionAssign,
+    onMatrixAssign,
+    variables,
+    functions,
+    matrices,
+  ]);
 
   /**
-   * Toggle between degrees and radians
+   * Cycle through radians, degrees and gradians
    */
   const toggleAngleUnit = useCallback(() => {
     setState((prev) => ({
       ...prev,
-      angleUnit: prev.angleUnit === 'deg' ? 'rad' : 'deg',
+      angleUnit: NEXT_ANGLE_UNIT[prev.angleUnit],
+    }));
+  }, []);
+
+  /**
+   * Cycle through decimal, exact fraction and high-precision arithmetic
+   */
+  const toggleNumberMode = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      numberMode: NEXT_NUMBER_MODE[prev.numberMode],
+    }));
+  }, []);
+
+  /**
+   * Set the significant digits used in high-precision mode
+   */
+  const setBigNumberPrecision = useCallback((precision: BigNumberPrecision) => {
+    setState((prev) => ({
+      ...prev,
+      bigNumberPrecision: precision,
+    }));
+  }, []);
+
+  /**
+   * Cycle through real-only, rectangular complex and polar complex results
+   */
+  const toggleComplexMode = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      complexMode: NEXT_COMPLEX_MODE[prev.complexMode],
     }));
   }, []);
 
+  /**
+   * Show the current result in another form, which also becomes ANS and the
+   * result of its history entry. `convert` returns the changed state, or
+   * null to leave the result as it is.
+   */
+  const replaceResult = useCallback(
+    (convert: (prev: CalculatorState) => Partial<CalculatorState> | null) => {
+      let replaced: { result: string; answer: string } | null = null;
+
+      setState((prev) => {
+        if (prev.isError || !prev.result || prev.mode === 'programmer') {
+          return prev;
+        }
+        const changes = convert(prev);
+        if (!changes) {
+          return prev;
+        }
+        const result = changes.result ?? prev.result;
+        if (result === prev.result) {
+          return { ...prev, ...changes };
+        }
+        replaced = { result, answer: answerForConverted(result) };
+        return { ...prev, ...changes, previousResult: replaced.answer };
+      });
+
+      if (replaced !== null && lastEntryId.current && onHistoryUpdate) {
+        const { result, answer } = replaced;
+        onHistoryUpdate(lastEntryId.current, result, answer);
+      }
+    },
+    [onHistoryUpdate]
+  );
+
+  /**
+   * Flip the current result between its fraction and decimal forms
+   */
+  const toggleResultFormat = useCallback(() => {
+    replaceResult((prev) =>
+      prev.alternateResult ? { result: prev.alternateResult, alternateResult: prev.result } : null
+    );
+  }, [replaceResult]);
+
+  /**
+   * Show the current result as a fraction, approximating irrational values
+   * by the closest fraction with a limited denominator
+   */
+  const showFraction = useCallback(() => {
+    replaceResult((prev) => {
+      const converted = convertToFraction(prev.result, prev.displayFormat.mixedFractions);
+      if (!converted) {
+        return null;
+      }
+      // Keep the decimal to flip back to; a fraction being reformatted already has one
+      return {
+        result: converted.text,
+        alternateResult: parseFraction(prev.result) ? prev.alternateResult : prev.result,
+        approximation: converted.exact ? '' : converted.text,
+      };
+    });
+  }, [replaceResult]);
+
+  /**
+   * Show the current fraction result as a decimal
+   */
+  const showDecimal = useCallback(() => {
+    replaceResult((prev) => {
+      // The decimal a fraction was made from is more precise than the fraction
+      const decimal =
+        prev.alternateResult && !parseFraction(prev.alternateResult)
+          ? prev.alternateResult
+          : convertToDecimal(prev.result, prev.displayFormat);
+      return decimal && parseFraction(prev.result)
+        ? { result: decimal, alternateResult: prev.result }
+        : null;
+    });
+  }, [replaceResult]);
+
+  /**
+   * Switch fractions between improper (`7/2`) and mixed (`3 1/2`) form,
+   * reformatting the current result if it is a fraction
+   */
+  const toggleMixedFractions = useCallback(() => {
+    const reformat = (text: string, mixed: boolean) => {
+      const value = parseFraction(text);
+      return value ? formatFraction(value, mixed) : text;
+    };
+
+    setState((prev) => ({
+      ...prev,
+      displayFormat: { ...prev.displayFormat, mixedFractions: !prev.displayFormat.mixedFractions },
+    }));
+    replaceResult((prev) => ({
+      result: reformat(prev.result, prev.displayFormat.mixedFractions),
+      alternateResult: reformat(prev.alternateResult, prev.displayFormat.mixedFractions),
+      approximation: reformat(prev.approximation, prev.displayFormat.mixedFractions),
+    }));
+  }, [replaceResult]);
+
+  /**
+   * Set the notation used for results, redisplaying the current result in it
+   */
+  const setDisplayFormat = useCallback((displayFormat: DisplayFormat) => {
+    setState((prev) => {
+      const next = { ...prev, displayFormat };
+      if (!prev.result || prev.isError || prev.mode === 'programmer') {
+        return next;
+      }
+
+      const calcResult = evaluate(prev.expression, prev.angleUnit, {
+        variables,
+        functions,
+        matrices,
+        numberMode: prev.numberMode,
+        bigNumberPrecision: prev.bigNumberPrecision,
+        complexMode: prev.complexMode,
+        displayFormat,
+      });
+      if (!calcResult.success) {
+        return next;
+      }
+
+      return {
+        ...next,
+        result: calcResult.displayValue,
+        previousResult: answerFor(calcResult),
+        alternateResult: calcResult.alternateDisplayValue ?? '',
+        approximation: '',
+        errorEstimate: formatErrorEstimate(calcResult.errorEstimate),
+        matrix: calcResult.matrix ?? null,
+        vector: calcResult.vector ?? null,
+        factorization: calcResult.factorization ?? null,
+      };
+    });
+  }, [variables, functions, matrices]);
+
+  /**
+   * Switch the programmer mode base, converting the expression and result
+   */
+  const setNumberBase = useCallback((base: NumberBase) => {
+    setState((prev) => withProgrammerSettings(prev, { ...prev.programmer, base }));
+  }, []);
+
+  /**
+   * Set the programmer mode word size, wrapping the result to fit
+   */
+  const setWordSize = useCallback((wordSize: WordSize) => {
+    setState((prev) => withProgrammerSettings(prev, { ...prev.programmer, wordSize }));
+  }, []);
+
+  /**
+   * Switch programmer mode between signed and unsigned integers
+   */
+  const toggleSigned = useCallback(() => {
+    setState((prev) =>
+      withProgrammerSettings(prev, { ...prev.programmer, signed: !prev.programmer.signed })
+    );
+  }, []);
+
   /**
    * Set the calculator mode
    */
@@ -297,12 +730,20 @@ export function useCalculator(
         return;
       }
 
+      // Leave browser shortcuts alone
+      if (e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+      }
+
       const key = e.key;
 
-      // Digits and operators
+      // Digits, letters and operators
       if (/^[0-9]$/.test(key)) {
         e.preventDefault();
         appendToExpression(key);
+      } else if (isLetter(key)) {
+        e.preventDefault();
+        appendToExpression(key);
       } else if (key === '.') {
         e.preventDefault();
         appendToExpression('.');
@@ -318,12 +759,31 @@ export function useCalculator(
       } else if (key === '/') {
         e.preventDefault();
         appendToExpression('÷');
-      } else if (key === '(' || key === ')') {
+      } else if (key === '(' || key === ')' || key === '[' || key === ']' || key === ',') {
         e.preventDefault();
         appendToExpression(key);
       } else if (key === '^') {
         e.preventDefault();
         appendToExpression('^');
+      } else if (state.mode === 'programmer' && key in PROGRAMMER_KEYS) {
+        e.preventDefault();
+        appendToExpression(PROGRAMMER_KEYS[key]);
+      }
+      // Spaces separate words in unit conversions (5 km to m); a focused
+      // button keeps space for activation
+      else if (
+        key === ' ' &&
+        !(e.target instanceof HTMLButtonElement) &&
+        state.expression &&
+        !state.expression.endsWith(' ')
+      ) {
+        e.preventDefault();
+        appendToExpression(' ');
+      }
+      // "=" after a bare name or function head starts an assignment (r = 4.5, f(x) = x^2)
+      else if (key === '=' && isAssignmentTarget(state.expression)) {
+        e.preventDefault();
+        appendToExpression(' = ');
       }
       // Actions
       else if (key === 'Enter' || key === '=') {
@@ -343,7 +803,7 @@ export function useCalculator(
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [appendToExpression, calculateResult, backspace, clear, allClear]);
+  }, [appendToExpression, calculateResult, backspace, clear, allClear, state.expression, state.mode]);
 
   return {
     state,
@@ -353,6 +813,17 @@ export function useCalculator(
     backspace,
     calculateResult,
     toggleAngleUnit,
+    toggleNumberMode,
+    setBigNumberPrecision,
+    toggleComplexMode,
+    toggleResultFormat,
+    showFraction,
+    showDecimal,
+    toggleMixedFractions,
+    setDisplayFormat,
+    setNumberBase,
+    setWordSize,
+    toggleSigned,
     setMode,
     insertAns,
     insertFunction,
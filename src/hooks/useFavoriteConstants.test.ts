@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import { useFavoriteConstants } from './useFavoriteConstants';
+
+describe('useFavoriteConstants', () => {
+  // Mock localStorage
+  const mockStorage: Record<string, string> = {};
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', {
+      getItem: vi.fn((key: string) => mockStorage[key] || null),
+      setItem: vi.fn((key: string, value: string) => {
+        mockStorage[key] = value;
+      }),
+      removeItem: vi.fn((key: string) => {
+        delete mockStorage[key];
+      }),
+      clear: vi.fn(() => {
+        Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      }),
+    });
+
+    // Clear storage before each test
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('initializes with no favorites', () => {
+    const { result } = renderHook(() => useFavoriteConstants());
+    expect(result.current.favorites).toEqual([]);
+  });
+
+  it('loads favorites from localStorage on init', () => {
+    mockStorage['mathpwa-favorite-constants'] = JSON.stringify(['speedOfLight', 'avogadro']);
+
+    const { result } = renderHook(() => useFavoriteConstants());
+    expect(result.current.favorites).toEqual(['speedOfLight', 'avogadro']);
+    expect(result.current.isFavorite('avogadro')).toBe(true);
+    expect(result.current.isFavorite('boltzmann')).toBe(false);
+  });
+
+  it('toggles a favorite on and off', () => {
+    const { result } = renderHook(() => useFavoriteConstants());
+
+    act(() => {
+      result.current.toggleFavorite('planckConstant');
+    });
+    expect(result.current.favorites).toEqual(['planckConstant']);
+
+    act(() => {
+      result.current.toggleFavorite('planckConstant');
+    });
+    expect(result.current.favorites).toEqual([]);
+  });
+
+  it('saves favorites to localStorage', () => {
+    const { result } = renderHook(() => useFavoriteConstants());
+
+    act(() => {
+      result.current.toggleFavorite('gravity');
+    });
+
+    expect(JSON.parse(mockStorage['mathpwa-favorite-constants'])).toEqual(['gravity']);
+  });
+
+  it('ignores invalid stored data', () => {
+    mockStorage['mathpwa-favorite-constants'] = JSON.stringify(['gravity', 42, null]);
+
+    const { result } = renderHook(() => useFavoriteConstants());
+    expect(result.current.favorites).toEqual(['gravity']);
+  });
+
+  it('handles corrupted localStorage data', () => {
+    mockStorage['mathpwa-favorite-constants'] = 'not valid json';
+
+    const { result } = renderHook(() => useFavoriteConstants());
+    expect(result.current.favorites).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { useState, useCallback, useEffect } from 'preact/hooks';
+
+/**
+ * LocalStorage key for favorite physical constants
+ */
+const STORAGE_KEY = 'mathpwa-favorite-constants';
+
+/**
+ * Load favorite constant names from localStorage
+ */
+function loadFavorites(): string[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.filter((name): name is string => typeof name === 'string');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save favorite constant names to localStorage
+ */
+function saveFavorites(favorites: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch (error) {
+    console.error('Failed to save favorite constants:', error);
+  }
+}
+
+export interface UseFavoriteConstantsReturn {
+  favorites: string[];
+  isFavorite: (name: string) => boolean;
+  toggleFavorite: (name: string) => void;
+}
+
+/**
+ * Hook for managing favorite physical constants with localStorage persistence
+ */
+export function useFavoriteConstants(): UseFavoriteConstantsReturn {
+  const [favorites, setFavorites] = useState<string[]>(() => loadFavorites());
+
+  // Save to localStorage whenever favorites change
+  useEffect(() => {
+    saveFavorites(favorites);
+  }, [favorites]);
+
+  const isFavorite = useCallback((name: string) => favorites.includes(name), [favorites]);
+
+  const toggleFavorite = useCallback((name: string) => {
+    setFavorites((prev) =>
+      prev.includes(name) ? prev.filter((favorite) => favorite !== name) : [...prev, name]
+    );
+  }, []);
+
+  return {
+    favorites,
+    isFavorite,
+    toggleFavorite,
+  };
+}
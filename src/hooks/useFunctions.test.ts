@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import { useFunctions } from './useFunctions';
+import type { UserFunction } from '../types';
+
+describe('useFunctions', () => {
+  // Mock localStorage
+  const mockStorage: Record<string, string> = {};
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', {
+      getItem: vi.fn((key: string) => mockStorage[key] || null),
+      setItem: vi.fn((key: string, value: string) => {
+        mockStorage[key] = value;
+      }),
+      removeItem: vi.fn((key: string) => {
+        delete mockStorage[key];
+      }),
+      clear: vi.fn(() => {
+        Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      }),
+    });
+
+    // Clear storage before each test
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createFunction = (name: string, body: string): UserFunction => ({
+    name,
+    params: ['x'],
+    body,
+  });
+
+  it('initializes with an empty library', () => {
+    const { result } = renderHook(() => useFunctions());
+    expect(result.current.functions).toEqual([]);
+  });
+
+  it('loads functions from localStorage on init', () => {
+    mockStorage['mathpwa-functions'] = JSON.stringify([
+      createFunction('g', '2x'),
+      createFunction('f', 'x^2'),
+    ]);
+
+    const { result } = renderHook(() => useFunctions());
+    expect(result.current.functions).toHaveLength(2);
+    expect(result.current.functions[0].name).toBe('f');
+  });
+
+  it('replaces a function when redefined', () => {
+    const { result } = renderHook(() => useFunctions());
+
+    act(() => {
+      result.current.setFunction(createFunction('f', 'x^2'));
+      result.current.setFunction(createFunction('f', 'x^3'));
+    });
+
+    expect(result.current.functions).toEqual([createFunction('f', 'x^3')]);
+  });
+
+  it('removes a specific function', () => {
+    const { result } = renderHook(() => useFunctions());
+
+    act(() => {
+      result.current.setFunction(createFunction('f', 'x^2'));
+      result.current.setFunction(createFunction('g', '2x'));
+    });
+
+    act(() => {
+      result.current.removeFunction('f');
+    });
+
+    expect(result.current.functions.map((f) => f.name)).toEqual(['g']);
+  });
+
+  it('clears all functions', () => {
+    const { result } = renderHook(() => useFunctions());
+
+    act(() => {
+      result.current.setFunction(createFunction('f', 'x^2'));
+    });
+
+    act(() => {
+      result.current.clearFunctions();
+    });
+
+    expect(result.current.functions).toHaveLength(0);
+  });
+
+  it('saves to localStorage when functions change', () => {
+    const { result } = renderHook(() => useFunctions());
+
+    act(() => {
+      result.current.setFunction(createFunction('f', 'x^2'));
+    });
+
+    const saved = JSON.parse(mockStorage['mathpwa-functions']);
+    expect(saved).toEqual([createFunction('f', 'x^2')]);
+  });
+
+  it('ignores invalid localStorage data', () => {
+    mockStorage['mathpwa-functions'] = JSON.stringify([
+      createFunction('f', 'x^2'), // valid
+      { name: 'g', params: 'x', body: '2x' }, // invalid - params not an array
+      { name: 'h', params: ['x'] }, // invalid - missing body
+      null, // invalid
+    ]);
+
+    const { result } = renderHook(() => useFunctions());
+    expect(result.current.functions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { useState, useCallback, useEffect } from 'preact/hooks';
+import type { UserFunction } from '../types';
+
+/**
+ * LocalStorage key for user functions
+ */
+const STORAGE_KEY = 'mathpwa-functions';
+
+/**
+ * Sort functions alphabetically by name for stable listing
+ */
+function sortByName(functions: UserFunction[]): UserFunction[] {
+  return [...functions].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Load functions from localStorage
+ */
+function loadFunctions(): UserFunction[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    // Validate entries
+    return sortByName(
+      parsed.filter(
+        (fn): fn is UserFunction =>
+          typeof fn === 'object' &&
+          fn !== null &&
+          typeof fn.name === 'string' &&
+          Array.isArray(fn.params) &&
+          fn.params.every((param: unknown) => typeof param === 'string') &&
+          typeof fn.body === 'string'
+      )
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save functions to localStorage
+ */
+function saveFunctions(functions: UserFunction[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(functions));
+  } catch (error) {
+    console.error('Failed to save functions:', error);
+  }
+}
+
+export interface UseFunctionsReturn {
+  functions: UserFunction[];
+  setFunction: (fn: UserFunction) => void;
+  removeFunction: (name: string) => void;
+  clearFunctions: () => void;
+}
+
+/**
+ * Hook for managing the user function library with localStorage persistence
+ */
+export function useFunctions(): UseFunctionsReturn {
+  const [functions, setFunctions] = useState<UserFunction[]>(() => loadFunctions());
+
+  // Save to localStorage whenever functions change
+  useEffect(() => {
+    saveFunctions(functions);
+  }, [functions]);
+
+  const setFunction = useCallback((fn: UserFunction) => {
+    setFunctions((prev) => sortByName([...prev.filter((f) => f.name !== fn.name), fn]));
+  }, []);
+
+  const removeFunction = useCallback((name: string) => {
+    setFunctions((prev) => prev.filter((f) => f.name !== name));
+  }, []);
+
+  const clearFunctions = useCallback(() => {
+    setFunctions([]);
+  }, []);
+
+  return {
+    functions,
+    setFunction,
+    removeFunction,
+    clearFunctions,
+  };
+}
@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef } from 'preact/hooks';
-import type { GraphFunction, GraphBounds, TracePoint } from '../types';
+import type { AngleUnit, EvaluationContext, GraphFunction, GraphBounds, TracePoint } from '../types';
 import { DEFAULT_BOUNDS, evaluateFunction, GRAPH_COLORS } from '../utils/graphing';
 
 /**
@@ -36,11 +36,16 @@ export interface UseGraphReturn {
 /**
  * Hook for managing graph state
  */
-export function useGraph(): UseGraphReturn {
+export function useGraph(
+  context: EvaluationContext = {},
+  angleUnit: AngleUnit = 'rad',
+  initialExpression = '',
+  initialBounds: GraphBounds = DEFAULT_BOUNDS
+): UseGraphReturn {
   const [functions, setFunctions] = useState<GraphFunction[]>([
-    { id: '1', expression: '', color: GRAPH_COLORS[0], visible: true },
+    { id: '1', expression: initialExpression, color: GRAPH_COLORS[0], visible: true },
   ]);
-  const [bounds, setBounds] = useState<GraphBounds>(DEFAULT_BOUNDS);
+  const [bounds, setBounds] = useState<GraphBounds>(initialBounds);
   const [tracePoint, setTracePoint] = useState<TracePoint | null>(null);
   const [isTracing, setIsTracing] = useState(false);
 
@@ -122,8 +127,8 @@ export function useGraph(): UseGraphReturn {
   }, []);
 
   const resetView = useCallback(() => {
-    setBounds(DEFAULT_BOUNDS);
-  }, []);
+    setBounds(initialBounds);
+  }, [initialBounds]);
 
   const pan = useCallback((deltaX: number, deltaY: number) => {
     setBounds((prev) => ({
@@ -193,7 +198,7 @@ export function useGraph(): UseGraphReturn {
         return;
       }
 
-      const graphY = evaluateFunction(visibleFunc.expression, graphX);
+      const graphY = evaluateFunction(visibleFunc.expression, graphX, context, angleUnit);
       if (graphY !== null) {
         setTracePoint({
           x: graphX,
@@ -204,7 +209,7 @@ export function useGraph(): UseGraphReturn {
         setTracePoint(null);
       }
     },
-    [isTracing, bounds, functions]
+    [isTracing, bounds, functions, context, angleUnit]
   );
 
   return {
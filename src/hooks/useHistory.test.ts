@@ -89,6 +89,24 @@ describe('useHistory', () => {
     expect(result.current.entries[99].expression).toBe('1+1');
   });
 
+  it('updates the result of an entry', () => {
+    const { result } = renderHook(() => useHistory());
+
+    act(() => {
+      result.current.addEntry(createEntry('1', '1/3', '0.333333333333'));
+      result.current.addEntry(createEntry('2', '7/2', '3.5'));
+    });
+
+    act(() => {
+      result.current.updateResult('2', '3 1/2', '7/2');
+    });
+
+    const results = result.current.entries.map((entry) => entry.result);
+    expect(results).toEqual(['3 1/2', '0.333333333333']);
+    expect(result.current.entries[0].expression).toBe('7/2');
+    expect(result.current.entries[0].answer).toBe('7/2');
+  });
+
   it('clears all entries', () => {
     const { result } = renderHook(() => useHistory());
 
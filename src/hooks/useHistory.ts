@@ -30,6 +30,7 @@ function loadHistory(): HistoryEntry[] {
         typeof entry.id === 'string' &&
         typeof entry.expression === 'string' &&
         typeof entry.result === 'string' &&
+        (entry.answer === undefined || typeof entry.answer === 'string') &&
         typeof entry.timestamp === 'number'
     );
   } catch {
@@ -51,6 +52,7 @@ function saveHistory(entries: HistoryEntry[]): void {
 export interface UseHistoryReturn {
   entries: HistoryEntry[];
   addEntry: (entry: HistoryEntry) => void;
+  updateResult: (id: string, result: string, answer?: string) => void;
   clearHistory: () => void;
   removeEntry: (id: string) => void;
 }
@@ -80,6 +82,12 @@ export function useHistory(): UseHistoryReturn {
     });
   }, []);
 
+  const updateResult = useCallback((id: string, result: string, answer?: string) => {
+    setEntries((prev) =>
+      prev.map((entry) => (entry.id === id ? { ...entry, result, answer } : entry))
+    );
+  }, []);
+
   const clearHistory = useCallback(() => {
     setEntries([]);
   }, []);
@@ -91,6 +99,7 @@ export function useHistory(): UseHistoryReturn {
   return {
     entries,
     addEntry,
+    updateResult,
     clearHistory,
     removeEntry,
   };
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/preact';
+import { useLongPress, LONG_PRESS_DELAY } from './useLongPress';
+
+describe('useLongPress', () => {
+  const touch = { pointerType: 'touch' } as PointerEvent;
+  const mouse = { pointerType: 'mouse' } as PointerEvent;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fires once a touch is held long enough', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress());
+    const handlers = result.current.bind(onLongPress);
+
+    handlers.onPointerDown(touch);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY - 1);
+    expect(onLongPress).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not fire for a short touch', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress());
+    const handlers = result.current.bind(onLongPress);
+
+    handlers.onPointerDown(touch);
+    handlers.onPointerUp();
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(onLongPress).not.toHaveBeenCalled();
+    expect(result.current.consumeLongPress()).toBe(false);
+  });
+
+  it('does not fire when the touch leaves or is cancelled', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress());
+    const handlers = result.current.bind(onLongPress);
+
+    handlers.onPointerDown(touch);
+    handlers.onPointerLeave();
+    handlers.onPointerDown(touch);
+    handlers.onPointerCancel();
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(onLongPress).not.toHaveBeenCalled();
+  });
+
+  it('ignores mouse presses', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress());
+
+    result.current.bind(onLongPress).onPointerDown(mouse);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(onLongPress).not.toHaveBeenCalled();
+  });
+
+  it('reports a long press to the click that ends it, once', () => {
+    const { result } = renderHook(() => useLongPress());
+
+    result.current.bind(vi.fn()).onPointerDown(touch);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(result.current.consumeLongPress()).toBe(true);
+    expect(result.current.consumeLongPress()).toBe(false);
+  });
+
+  it('clears a long press on the next touch', () => {
+    const { result } = renderHook(() => useLongPress());
+    const handlers = result.current.bind(vi.fn());
+
+    handlers.onPointerDown(touch);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+    handlers.onPointerDown(touch);
+    handlers.onPointerUp();
+
+    expect(result.current.consumeLongPress()).toBe(false);
+  });
+
+  it('uses a custom delay', () => {
+    const onLongPress = vi.fn();
+    const { result } = renderHook(() => useLongPress(200));
+
+    result.current.bind(onLongPress).onPointerDown(touch);
+    vi.advanceTimersByTime(200);
+
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+  });
+
+  it('suppresses the context menu', () => {
+    const { result } = renderHook(() => useLongPress());
+    const event = { preventDefault: vi.fn() } as unknown as Event;
+
+    result.current.bind(vi.fn()).onContextMenu(event);
+
+    expect(event.preventDefault).toHaveBeenCalled();
+  });
+
+  it('does not fire after unmounting', () => {
+    const onLongPress = vi.fn();
+    const { result, unmount } = renderHook(() => useLongPress());
+
+    result.current.bind(onLongPress).onPointerDown(touch);
+    unmount();
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(onLongPress).not.toHaveBeenCalled();
+  });
+});
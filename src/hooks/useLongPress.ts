@@ -0,0 +1,75 @@
+import { useRef, useCallback, useEffect } from 'preact/hooks';
+
+/**
+ * How long a touch must be held to count as a long press, in milliseconds
+ */
+export const LONG_PRESS_DELAY = 500;
+
+/**
+ * Pointer handlers to spread onto an element
+ */
+export interface LongPressHandlers {
+  onPointerDown: (e: PointerEvent) => void;
+  onPointerUp: () => void;
+  onPointerLeave: () => void;
+  onPointerCancel: () => void;
+  onContextMenu: (e: Event) => void;
+}
+
+export interface UseLongPressReturn {
+  /** Handlers that call onLongPress once a touch has been held long enough */
+  bind: (onLongPress: () => void) => LongPressHandlers;
+  /**
+   * Whether the press that ends with this click was a long press, in which
+   * case the click should be ignored. Clears the flag.
+   */
+  consumeLongPress: () => boolean;
+}
+
+/**
+ * Hook for long presses on touch screens. Mouse presses are left to the
+ * click handler, and the context menu a long touch would open is suppressed.
+ */
+export function useLongPress(delay = LONG_PRESS_DELAY): UseLongPressReturn {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fired = useRef(false);
+
+  const cancel = useCallback(() => {
+    if (timer.current !== null) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+  }, []);
+
+  // Don't fire after the element has gone
+  useEffect(() => cancel, [cancel]);
+
+  const bind = useCallback(
+    (onLongPress: () => void): LongPressHandlers => ({
+      onPointerDown: (e) => {
+        cancel();
+        fired.current = false;
+        if (e.pointerType === 'mouse') return;
+
+        timer.current = setTimeout(() => {
+          timer.current = null;
+          fired.current = true;
+          onLongPress();
+        }, delay);
+      },
+      onPointerUp: cancel,
+      onPointerLeave: cancel,
+      onPointerCancel: cancel,
+      onContextMenu: (e) => e.preventDefault(),
+    }),
+    [cancel, delay]
+  );
+
+  const consumeLongPress = useCallback(() => {
+    const wasLongPress = fired.current;
+    fired.current = false;
+    return wasLongPress;
+  }, []);
+
+  return { bind, consumeLongPress };
+}
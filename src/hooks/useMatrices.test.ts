@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import { useMatrices } from './useMatrices';
+import type { UserMatrix } from '../types';
+
+describe('useMatrices', () => {
+  // Mock localStorage
+  const mockStorage: Record<string, string> = {};
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', {
+      getItem: vi.fn((key: string) => mockStorage[key] || null),
+      setItem: vi.fn((key: string, value: string) => {
+        mockStorage[key] = value;
+      }),
+      removeItem: vi.fn((key: string) => {
+        delete mockStorage[key];
+      }),
+      clear: vi.fn(() => {
+        Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      }),
+    });
+
+    // Clear storage before each test
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createMatrix = (name: string, entries: string[][]): UserMatrix => ({
+    name,
+    entries,
+  });
+
+  it('initializes with no matrices', () => {
+    const { result } = renderHook(() => useMatrices());
+    expect(result.current.matrices).toEqual([]);
+  });
+
+  it('loads matrices from localStorage on init', () => {
+    mockStorage['mathpwa-matrices'] = JSON.stringify([
+      createMatrix('B', [['1']]),
+      createMatrix('A', [['1', '2']]),
+    ]);
+
+    const { result } = renderHook(() => useMatrices());
+    expect(result.current.matrices).toHaveLength(2);
+    expect(result.current.matrices[0].name).toBe('A');
+  });
+
+  it('replaces a matrix when stored again', () => {
+    const { result } = renderHook(() => useMatrices());
+
+    act(() => {
+      result.current.setMatrix(createMatrix('A', [['1']]));
+      result.current.setMatrix(createMatrix('A', [['2', '3']]));
+    });
+
+    expect(result.current.matrices).toEqual([createMatrix('A', [['2', '3']])]);
+  });
+
+  it('removes a specific matrix', () => {
+    const { result } = renderHook(() => useMatrices());
+
+    act(() => {
+      result.current.setMatrix(createMatrix('A', [['1']]));
+      result.current.setMatrix(createMatrix('B', [['2']]));
+    });
+
+    act(() => {
+      result.current.removeMatrix('A');
+    });
+
+    expect(result.current.matrices.map((m) => m.name)).toEqual(['B']);
+  });
+
+  it('clears all matrices', () => {
+    const { result } = renderHook(() => useMatrices());
+
+    act(() => {
+      result.current.setMatrix(createMatrix('A', [['1']]));
+    });
+
+    act(() => {
+      result.current.clearMatrices();
+    });
+
+    expect(result.current.matrices).toHaveLength(0);
+  });
+
+  it('saves to localStorage when matrices change', () => {
+    const { result } = renderHook(() => useMatrices());
+
+    act(() => {
+      result.current.setMatrix(createMatrix('A', [['1', '0'], ['0', '1']]));
+    });
+
+    const saved = JSON.parse(mockStorage['mathpwa-matrices']);
+    expect(saved).toEqual([createMatrix('A', [['1', '0'], ['0', '1']])]);
+  });
+
+  it('ignores invalid localStorage data', () => {
+    mockStorage['mathpwa-matrices'] = JSON.stringify([
+      createMatrix('A', [['1', '2']]), // valid
+      { name: 'B', entries: [['1', '2'], ['3']] }, // invalid - ragged rows
+      { name: 'C', entries: [[1, 2]] }, // invalid - entries not strings
+      { name: 'D', entries: [] }, // invalid - empty
+      null, // invalid
+    ]);
+
+    const { result } = renderHook(() => useMatrices());
+    expect(result.current.matrices).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect } from 'preact/hooks';
+import type { UserMatrix } from '../types';
+
+/**
+ * LocalStorage key for named matrices
+ */
+const STORAGE_KEY = 'mathpwa-matrices';
+
+/**
+ * Sort matrices by name so [A] comes before [B]
+ */
+function sortByName(matrices: UserMatrix[]): UserMatrix[] {
+  return [...matrices].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Check that stored entries form a non-empty grid of strings
+ */
+function isEntryGrid(entries: unknown): entries is string[][] {
+  return (
+    Array.isArray(entries) &&
+    entries.length > 0 &&
+    entries.every(
+      (row: unknown) =>
+        Array.isArray(row) &&
+        row.length > 0 &&
+        row.length === entries[0].length &&
+        row.every((entry: unknown) => typeof entry === 'string')
+    )
+  );
+}
+
+/**
+ * Load matrices from localStorage
+ */
+function loadMatrices(): UserMatrix[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    // Validate entries
+    return sortByName(
+      parsed.filter(
+        (matrix): matrix is UserMatrix =>
+          typeof matrix === 'object' &&
+          matrix !== null &&
+          typeof matrix.name === 'string' &&
+          isEntryGrid(matrix.entries)
+      )
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save matrices to localStorage
+ */
+function saveMatrices(matrices: UserMatrix[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(matrices));
+  } catch (error) {
+    console.error('Failed to save matrices:', error);
+  }
+}
+
+export interface UseMatricesReturn {
+  matrices: UserMatrix[];
+  setMatrix: (matrix: UserMatrix) => void;
+  removeMatrix: (name: string) => void;
+  clearMatrices: () => void;
+}
+
+/**
+ * Hook for managing the named matrices [A]…[J] with localStorage persistence
+ */
+export function useMatrices(): UseMatricesReturn {
+  const [matrices, setMatrices] = useState<UserMatrix[]>(() => loadMatrices());
+
+  // Save to localStorage whenever matrices change
+  useEffect(() => {
+    saveMatrices(matrices);
+  }, [matrices]);
+
+  const setMatrix = useCallback((matrix: UserMatrix) => {
+    setMatrices((prev) => sortByName([...prev.filter((m) => m.name !== matrix.name), matrix]));
+  }, []);
+
+  const removeMatrix = useCallback((name: string) => {
+    setMatrices((prev) => prev.filter((m) => m.name !== name));
+  }, []);
+
+  const clearMatrices = useCallback(() => {
+    setMatrices([]);
+  }, []);
+
+  return {
+    matrices,
+    setMatrix,
+    removeMatrix,
+    clearMatrices,
+  };
+}
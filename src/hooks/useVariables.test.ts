@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import { useVariables } from './useVariables';
+
+describe('useVariables', () => {
+  // Mock localStorage
+  const mockStorage: Record<string, string> = {};
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', {
+      getItem: vi.fn((key: string) => mockStorage[key] || null),
+      setItem: vi.fn((key: string, value: string) => {
+        mockStorage[key] = value;
+      }),
+      removeItem: vi.fn((key: string) => {
+        delete mockStorage[key];
+      }),
+      clear: vi.fn(() => {
+        Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      }),
+    });
+
+    // Clear storage before each test
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('initializes with no variables', () => {
+    const { result } = renderHook(() => useVariables());
+    expect(result.current.variables).toEqual([]);
+  });
+
+  it('loads variables from localStorage on init', () => {
+    mockStorage['mathpwa-variables'] = JSON.stringify([
+      { name: 'r', value: '4.5' },
+      { name: 'g', value: '9.81' },
+    ]);
+
+    const { result } = renderHook(() => useVariables());
+    expect(result.current.variables).toHaveLength(2);
+    expect(result.current.variables[0].name).toBe('g');
+  });
+
+  it('adds variables sorted by name', () => {
+    const { result } = renderHook(() => useVariables());
+
+    act(() => {
+      result.current.setVariable({ name: 'r', value: '4.5' });
+      result.current.setVariable({ name: 'a', value: '1' });
+    });
+
+    expect(result.current.variables.map((v) => v.name)).toEqual(['a', 'r']);
+  });
+
+  it('replaces an existing variable with the same name', () => {
+    const { result } = renderHook(() => useVariables());
+
+    act(() => {
+      result.current.setVariable({ name: 'r', value: '4.5' });
+      result.current.setVariable({ name: 'r', value: '2' });
+    });
+
+    expect(result.current.variables).toEqual([{ name: 'r', value: '2' }]);
+  });
+
+  it('removes a specific variable', () => {
+    const { result } = renderHook(() => useVariables());
+
+    act(() => {
+      result.current.setVariable({ name: 'a', value: '1' });
+      result.current.setVariable({ name: 'b', value: '2' });
+    });
+
+    act(() => {
+      result.current.removeVariable('a');
+    });
+
+    expect(result.current.variables).toEqual([{ name: 'b', value: '2' }]);
+  });
+
+  it('clears all variables', () => {
+    const { result } = renderHook(() => useVariables());
+
+    act(() => {
+      result.current.setVariable({ name: 'a', value: '1' });
+      result.current.setVariable({ name: 'b', value: '2' });
+    });
+
+    act(() => {
+      result.current.clearVariables();
+    });
+
+    expect(result.current.variables).toHaveLength(0);
+  });
+
+  it('saves to localStorage when variables change', () => {
+    const { result } = renderHook(() => useVariables());
+
+    act(() => {
+      result.current.setVariable({ name: 'r', value: '4.5' });
+    });
+
+    const saved = JSON.parse(mockStorage['mathpwa-variables']);
+    expect(saved).toEqual([{ name: 'r', value: '4.5' }]);
+  });
+
+  it('ignores invalid localStorage data', () => {
+    mockStorage['mathpwa-variables'] = JSON.stringify([
+      { name: 'r', value: '4.5' }, // valid
+      { name: 'x' }, // invalid - missing value
+      null, // invalid
+    ]);
+
+    const { result } = renderHook(() => useVariables());
+    expect(result.current.variables).toHaveLength(1);
+  });
+});
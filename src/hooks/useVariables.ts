@@ -0,0 +1,91 @@
+import { useState, useCallback, useEffect } from 'preact/hooks';
+import type { UserVariable } from '../types';
+
+/**
+ * LocalStorage key for user variables
+ */
+const STORAGE_KEY = 'mathpwa-variables';
+
+/**
+ * Sort variables alphabetically by name for stable listing
+ */
+function sortByName(variables: UserVariable[]): UserVariable[] {
+  return [...variables].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Load variables from localStorage
+ */
+function loadVariables(): UserVariable[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    // Validate entries
+    return sortByName(
+      parsed.filter(
+        (variable): variable is UserVariable =>
+          typeof variable === 'object' &&
+          variable !== null &&
+          typeof variable.name === 'string' &&
+          typeof variable.value === 'string'
+      )
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save variables to localStorage
+ */
+function saveVariables(variables: UserVariable[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(variables));
+  } catch (error) {
+    console.error('Failed to save variables:', error);
+  }
+}
+
+export interface UseVariablesReturn {
+  variables: UserVariable[];
+  setVariable: (variable: UserVariable) => void;
+  removeVariable: (name: string) => void;
+  clearVariables: () => void;
+}
+
+/**
+ * Hook for managing user-defined variables with localStorage persistence
+ */
+export function useVariables(): UseVariablesReturn {
+  const [variables, setVariables] = useState<UserVariable[]>(() => loadVariables());
+
+  // Save to localStorage whenever variables change
+  useEffect(() => {
+    saveVariables(variables);
+  }, [variables]);
+
+  const setVariable = useCallback((variable: UserVariable) => {
+    setVariables((prev) =>
+      sortByName([...prev.filter((v) => v.name !== variable.name), variable])
+    );
+  }, []);
+
+  const removeVariable = useCallback((name: string) => {
+    setVariables((prev) => prev.filter((v) => v.name !== name));
+  }, []);
+
+  const clearVariables = useCallback(() => {
+    setVariables([]);
+  }, []);
+
+  return {
+    variables,
+    setVariable,
+    removeVariable,
+    clearVariables,
+  };
+}
@@ -1,25 +1,270 @@
 /**
- * Angle unit for trigonometric calculations
+ * Angle unit for trigonometric calculations: degrees, radians or gradians
  */
-export type AngleUnit = 'deg' | 'rad';
+export type AngleUnit = 'deg' | 'rad' | 'grad';
 
 /**
  * Calculator display mode
  */
-export type CalculatorMode = 'basic' | 'scientific' | 'statistics' | 'graphing';
+export type CalculatorMode =
+  | 'basic'
+  | 'scientific'
+  | 'programmer'
+  | 'statistics'
+  | 'graphing'
+  | 'units'
+  | 'solver'
+  | 'system'
+  | 'sequence';
+
+/**
+ * Number type used for arithmetic
+ */
+export type NumberMode = 'decimal' | 'fraction' | 'bignumber';
+
+/**
+ * Significant digits available in high-precision (BigNumber) mode
+ */
+export type BigNumberPrecision = 32 | 64 | 128;
+
+/**
+ * Whether complex results are allowed and how they are displayed:
+ * rectangular `a + bi` or polar `r∠θ`
+ */
+export type ComplexMode = 'real' | 'rectangular' | 'polar';
+
+/**
+ * Base used for integer input and display in programmer mode
+ */
+export type NumberBase = 'hex' | 'dec' | 'oct' | 'bin';
+
+/**
+ * Integer width in bits for programmer mode
+ */
+export type WordSize = 8 | 16 | 32 | 64;
+
+/**
+ * How programmer mode reads, wraps and shows integers
+ */
+export interface ProgrammerSettings {
+  readonly base: NumberBase;
+  readonly wordSize: WordSize;
+  readonly signed: boolean;
+}
+
+/**
+ * How numeric results are written: automatic, fixed decimals, scientific
+ * or engineering (exponent a multiple of three)
+ */
+export type DisplayNotation = 'normal' | 'fixed' | 'scientific' | 'engineering';
+
+/**
+ * User setting for formatting numeric results
+ */
+export interface DisplayFormat {
+  readonly notation: DisplayNotation;
+  /** Decimal places in fixed notation, significant digits in scientific and engineering */
+  readonly digits: number;
+  /** Show engineering exponents as SI prefixes, e.g. `12.3k` */
+  readonly siPrefixes: boolean;
+  /** Show improper fractions as mixed numbers, e.g. `3 1/2` for `7/2` */
+  readonly mixedFractions: boolean;
+}
 
 /**
  * Theme preference
  */
 export type Theme = 'light' | 'dark' | 'system';
 
+/**
+ * User-defined variable stored between calculations
+ */
+export interface UserVariable {
+  readonly name: string;
+  /** math.js expression that reproduces the stored value */
+  readonly value: string;
+}
+
+/**
+ * User-defined function, e.g. `f(x) = x^2 - 3x`
+ */
+export interface UserFunction {
+  readonly name: string;
+  readonly params: readonly string[];
+  /** Function body in calculator syntax, as typed by the user */
+  readonly body: string;
+}
+
+/**
+ * Named matrix [A]…[J] stored between calculations
+ */
+export interface UserMatrix {
+  /** Letter used inside the brackets, e.g. `A` for [A] */
+  readonly name: string;
+  /** Entries in calculator syntax, row by row */
+  readonly entries: readonly (readonly string[])[];
+}
+
+/**
+ * User-defined state available while evaluating an expression
+ */
+export interface EvaluationContext {
+  readonly variables?: readonly UserVariable[];
+  readonly functions?: readonly UserFunction[];
+  readonly matrices?: readonly UserMatrix[];
+  readonly numberMode?: NumberMode;
+  readonly bigNumberPrecision?: BigNumberPrecision;
+  readonly complexMode?: ComplexMode;
+  readonly displayFormat?: DisplayFormat;
+}
+
+/**
+ * Vector result formatted for display
+ */
+export interface VectorDisplay {
+  readonly components: readonly string[];
+  /** Length of a real plane or space vector */
+  readonly magnitude?: string;
+  /** Direction of a real plane vector from the x axis, in the angle unit */
+  readonly direction?: string;
+}
+
+/**
+ * Prime raised to a power in a factorization, e.g. 2^3 in 360 = 2^3·3^2·5
+ */
+export interface PrimeFactor {
+  readonly prime: string;
+  readonly exponent: number;
+}
+
 /**
  * Calculation result that may include an error
  */
+/**
+ * What went wrong in a failed evaluation
+ */
+export type ErrorKind = 'syntax' | 'domain' | 'undefined' | 'overflow';
+
+/**
+ * Characters of an expression an error points at, from `start` up to but not
+ * including `end`. An empty span marks a position, such as the end of input.
+ */
+export interface ErrorSpan {
+  readonly start: number;
+  readonly end: number;
+}
+
 export type CalculationResult = {
   readonly success: true;
   readonly value: number | string;
   readonly displayValue: string;
+  /** Same value in the other of fraction/decimal form, when they differ */
+  readonly alternateDisplayValue?: string;
+  /**
+   * Result at full precision as calculator input, for ANS and history to reuse,
+   * e.g. `3.141592653589793` where Fix 2 shows `3.14`
+   */
+  readonly answer?: string;
+  /** Set when the result is an expression in free variables, e.g. `3 * x^2` from `d/dx(x^3)` */
+  readonly symbolic?: boolean;
+  /** Estimated absolute error of a result from numeric integration */
+  readonly errorEstimate?: number;
+  /** Entries of a matrix result formatted for display, row by row */
+  readonly matrix?: readonly (readonly string[])[];
+  /** Components of a vector result with its magnitude and direction */
+  readonly vector?: VectorDisplay;
+  /** Prime factors of an integer factored by `factor(360)`, whose value is the integer */
+  readonly factorization?: readonly PrimeFactor[];
+  /** Remainder of an integer division by `divmod(17, 5)`, whose value is the quotient */
+  readonly remainder?: string;
+  /** Set when the expression assigned a variable (e.g. `r = 4.5`) */
+  readonly assignedVariable?: UserVariable;
+  /** Set when the expression stored a matrix (e.g. `[A] = [[1, 2], [3, 4]]`) */
+  readonly assignedMatrix?: UserMatrix;
+  /** Set when the expression defined a function (e.g. `f(x) = x^2`) */
+  readonly assignedFunction?: UserFunction;
+} | {
+  readonly success: false;
+  readonly error: string;
+  readonly kind: ErrorKind;
+  /** Offending part of the expression as typed, before preprocessing */
+  readonly span?: ErrorSpan;
+  /** Likely fix, e.g. `Did you mean sin?` */
+  readonly suggestion?: string;
+};
+
+/**
+ * Where to look for the roots of an equation: all of them in an interval,
+ * or one near a guess
+ */
+export type SolveRange =
+  | { readonly min: number; readonly max: number }
+  | { readonly guess: number };
+
+/**
+ * Result of solving an equation
+ */
+export type SolveResult = {
+  readonly success: true;
+  /** Real roots in increasing order */
+  readonly roots: readonly number[];
+} | {
+  readonly success: false;
+  readonly error: string;
+};
+
+/**
+ * Root of a polynomial, real when `im` is 0
+ */
+export interface PolynomialRoot {
+  readonly re: number;
+  readonly im: number;
+  readonly multiplicity: number;
+}
+
+/**
+ * Roots of a polynomial, or why they could not be found
+ */
+export type PolynomialRootsResult = {
+  readonly success: true;
+  /** The polynomial in calculator syntax, e.g. for graphing */
+  readonly polynomial: string;
+  readonly roots: readonly PolynomialRoot[];
+} | {
+  readonly success: false;
+  readonly error: string;
+};
+
+/**
+ * Solution of a linear system: the unique solution, or the reduced row
+ * echelon form of the augmented matrix when there is none
+ */
+export type LinearSystemResult = {
+  readonly kind: 'unique';
+  readonly solution: readonly number[];
+} | {
+  readonly kind: 'infinite' | 'inconsistent';
+  readonly rref: readonly (readonly number[])[];
+};
+
+/**
+ * Term of a sequence with the sum of the terms up to and including it
+ */
+export interface SequenceTerm {
+  readonly n: number;
+  readonly value: number;
+  readonly partialSum: number;
+}
+
+/**
+ * Terms of a sequence, or why they could not be computed
+ */
+export type SequenceResult = {
+  readonly success: true;
+  /** Name and index variable from the definition, e.g. `u` and `n` for `u(n) = 2^n` */
+  readonly name: string;
+  readonly variable: string;
+  readonly terms: readonly SequenceTerm[];
 } | {
   readonly success: false;
   readonly error: string;
@@ -32,6 +277,12 @@ export interface HistoryEntry {
   readonly id: string;
   readonly expression: string;
   readonly result: string;
+  /** Result at full precision, inserted when the entry is reused */
+  readonly answer?: string;
+  /** Set when the result is a symbolic expression rather than a value */
+  readonly symbolic?: boolean;
+  /** Entries of a matrix result formatted for display, row by row */
+  readonly matrix?: readonly (readonly string[])[];
   readonly timestamp: number;
 }
 
@@ -42,9 +293,33 @@ export interface CalculatorState {
   readonly expression: string;
   readonly result: string;
   readonly previousResult: string;
+  /** Result in the other of fraction/decimal form, empty if there is none */
+  readonly alternateResult: string;
+  /** Fraction that only approximates the result, shown with `≈`, empty if there is none */
+  readonly approximation: string;
+  /** Estimated error of a numerically integrated result, empty if there is none */
+  readonly errorEstimate: string;
+  /** Entries of a matrix result, null if the result is not a matrix */
+  readonly matrix: readonly (readonly string[])[] | null;
+  /** Vector result with its magnitude and direction, null if the result is not a vector */
+  readonly vector: VectorDisplay | null;
+  /** Prime factors of a factorization result, null if the result is not one */
+  readonly factorization: readonly PrimeFactor[] | null;
   readonly angleUnit: AngleUnit;
+  readonly numberMode: NumberMode;
+  readonly bigNumberPrecision: BigNumberPrecision;
+  readonly complexMode: ComplexMode;
+  readonly displayFormat: DisplayFormat;
+  /** Integer base, width and signedness used in programmer mode */
+  readonly programmer: ProgrammerSettings;
   readonly mode: CalculatorMode;
   readonly isError: boolean;
+  /** Part of the expression an error points at, null if there is none */
+  readonly errorSpan: ErrorSpan | null;
+  /** Likely fix for an error, empty if there is none */
+  readonly errorSuggestion: string;
+  /** Set when the result is a symbolic expression, e.g. from `expand` */
+  readonly isSymbolic: boolean;
 }
 
 /**
@@ -79,6 +354,46 @@ export interface ScientificFunction {
   readonly mathJsName: string;
 }
 
+/**
+ * Unit offered in the unit converter
+ */
+export interface UnitOption {
+  /** math.js unit expression, e.g. `km/h` */
+  readonly name: string;
+  readonly label: string;
+}
+
+/**
+ * Group of units that can be converted into each other
+ */
+export interface UnitCategory {
+  readonly name: string;
+  readonly units: readonly UnitOption[];
+}
+
+/**
+ * Physical constant from the constants catalog
+ */
+export interface PhysicalConstant {
+  /** Name the constant is typed and evaluated as, e.g. `speedOfLight` */
+  readonly name: string;
+  readonly label: string;
+  /** Conventional symbol, e.g. `c` */
+  readonly symbol: string;
+  /** CODATA value in SI units */
+  readonly value: string;
+  /** math.js unit expression for the value, empty for dimensionless constants */
+  readonly unit: string;
+}
+
+/**
+ * Group of related constants in the constants catalog
+ */
+export interface ConstantCategory {
+  readonly name: string;
+  readonly constants: readonly PhysicalConstant[];
+}
+
 /**
  * Graph function definition
  */
@@ -99,6 +414,14 @@ export interface GraphBounds {
   readonly yMax: number;
 }
 
+/**
+ * Point marked on the graph, e.g. a root of a polynomial
+ */
+export interface GraphPoint {
+  readonly x: number;
+  readonly y: number;
+}
+
 /**
  * Trace point on graph
  */
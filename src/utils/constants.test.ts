@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONSTANT_CATEGORIES,
+  PHYSICAL_CONSTANTS,
+  constantQuantity,
+  findConstant,
+  formatConstant,
+  searchConstants,
+} from './constants';
+import { evaluate, math } from './math-engine';
+
+describe('constants', () => {
+  describe('CONSTANT_CATEGORIES', () => {
+    it('has unique constant names', () => {
+      const names = PHYSICAL_CONSTANTS.map((constant) => constant.name);
+      expect(new Set(names).size).toBe(names.length);
+    });
+
+    it('lists every constant of every category', () => {
+      const count = CONSTANT_CATEGORIES.reduce((sum, c) => sum + c.constants.length, 0);
+      expect(PHYSICAL_CONSTANTS).toHaveLength(count);
+    });
+
+    it('does not shadow math.js units', () => {
+      for (const constant of PHYSICAL_CONSTANTS) {
+        expect(math.Unit.isValuelessUnit(constant.name), constant.name).toBe(false);
+      }
+    });
+
+    it('evaluates every constant to its catalog value and unit', () => {
+      for (const constant of PHYSICAL_CONSTANTS) {
+        const result = evaluate(`${constant.name} / (${constantQuantity(constant)})`);
+        expect(result.success && result.value, constant.name).toBeCloseTo(1, 12);
+      }
+    });
+  });
+
+  describe('findConstant', () => {
+    it('finds a constant by name', () => {
+      expect(findConstant('avogadro')?.symbol).toBe('N_A');
+    });
+
+    it('returns undefined for unknown names', () => {
+      expect(findConstant('warpFactor')).toBeUndefined();
+    });
+  });
+
+  describe('searchConstants', () => {
+    it('returns every constant for an empty query', () => {
+      expect(searchConstants('  ')).toHaveLength(PHYSICAL_CONSTANTS.length);
+    });
+
+    it('matches labels ignoring case', () => {
+      const names = searchConstants('PLANCK').map((constant) => constant.name);
+      expect(names).toContain('planckConstant');
+      expect(names).toContain('planckLength');
+      expect(names).not.toContain('speedOfLight');
+    });
+
+    it('matches names and symbols', () => {
+      expect(searchConstants('speedOf').map((constant) => constant.name)).toEqual([
+        'speedOfLight',
+      ]);
+      expect(searchConstants('N_A').map((constant) => constant.name)).toEqual(['avogadro']);
+    });
+  });
+
+  describe('formatConstant', () => {
+    const speedOfLight = findConstant('speedOfLight')!;
+    const fineStructure = findConstant('fineStructure')!;
+
+    it('inserts the name when units are wanted', () => {
+      expect(formatConstant(speedOfLight, true)).toBe('speedOfLight');
+    });
+
+    it('inserts the parenthesized SI value without units', () => {
+      expect(formatConstant(speedOfLight, false)).toBe('(299792458)');
+    });
+
+    it('inserts the name of dimensionless constants', () => {
+      expect(formatConstant(fineStructure, false)).toBe('fineStructure');
+    });
+  });
+
+  describe('evaluation', () => {
+    it('uses CODATA values rather than older built-in ones', () => {
+      const result = evaluate('neutronMass to kg');
+      expect(result.success && result.displayValue).toBe('1.67492750e-27 kg');
+      expect(evaluate('neutronMass / (1.67492749804e-27 kg)')).toMatchObject({ value: 1 });
+    });
+
+    it('keeps units through calculations', () => {
+      const result = evaluate('electronMass * speedOfLight^2 to MeV');
+      expect(result.success && result.displayValue).toBe('0.510998972003 MeV');
+    });
+
+    it('shows values in SI units without prefixes', () => {
+      expect(evaluate('elementaryCharge')).toMatchObject({ displayValue: '1.60217663e-19 C' });
+    });
+
+    it('multiplies inserted values like any number', () => {
+      expect(evaluate('2(9.80665)')).toMatchObject({ value: 19.6133 });
+    });
+
+    it('works in fraction and BigNumber modes', () => {
+      expect(evaluate('2 speedOfLight', 'rad', { numberMode: 'fraction' })).toMatchObject({
+        displayValue: '599584916 m / s',
+      });
+      expect(evaluate('avogadro * boltzmann', 'rad', { numberMode: 'bignumber' })).toMatchObject({
+        displayValue: '8.31446261815324 J / (mol K)',
+      });
+    });
+
+    it('lets variables shadow constants', () => {
+      const context = { variables: [{ name: 'gravity', value: '3' }] };
+      expect(evaluate('2 gravity', 'rad', context)).toMatchObject({ value: 6 });
+    });
+  });
+});
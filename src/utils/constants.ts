@@ -0,0 +1,331 @@
+import type { ConstantCategory, PhysicalConstant } from '../types';
+
+/**
+ * Physical constants offered by the constants picker, grouped by field.
+ * Values are the CODATA 2018 recommended values in SI units; names are the
+ * math.js names, so constants can also be typed in the calculator.
+ */
+export const CONSTANT_CATEGORIES: readonly ConstantCategory[] = [
+  {
+    name: 'Universal',
+    constants: [
+      {
+        name: 'speedOfLight',
+        label: 'Speed of light in vacuum',
+        symbol: 'c',
+        value: '299792458',
+        unit: 'm/s',
+      },
+      {
+        name: 'gravitationConstant',
+        label: 'Newtonian constant of gravitation',
+        symbol: 'G',
+        value: '6.67430e-11',
+        unit: 'm^3/(kg s^2)',
+      },
+      {
+        name: 'planckConstant',
+        label: 'Planck constant',
+        symbol: 'h',
+        value: '6.62607015e-34',
+        unit: 'J s',
+      },
+      {
+        name: 'reducedPlanckConstant',
+        label: 'Reduced Planck constant',
+        symbol: 'ħ',
+        value: '1.054571817e-34',
+        unit: 'J s',
+      },
+      {
+        name: 'magneticConstant',
+        label: 'Vacuum magnetic permeability',
+        symbol: 'μ₀',
+        value: '1.25663706212e-6',
+        unit: 'N/A^2',
+      },
+      {
+        name: 'electricConstant',
+        label: 'Vacuum electric permittivity',
+        symbol: 'ε₀',
+        value: '8.8541878128e-12',
+        unit: 'F/m',
+      },
+      {
+        name: 'vacuumImpedance',
+        label: 'Characteristic impedance of vacuum',
+        symbol: 'Z₀',
+        value: '376.730313668',
+        unit: 'ohm',
+      },
+    ],
+  },
+  {
+    name: 'Electromagnetic',
+    constants: [
+      {
+        name: 'elementaryCharge',
+        label: 'Elementary charge',
+        symbol: 'e',
+        value: '1.602176634e-19',
+        unit: 'C',
+      },
+      {
+        name: 'coulombConstant',
+        label: 'Coulomb constant',
+        symbol: 'kₑ',
+        value: '8.9875517923e9',
+        unit: 'N m^2/C^2',
+      },
+      {
+        name: 'bohrMagneton',
+        label: 'Bohr magneton',
+        symbol: 'μB',
+        value: '9.2740100783e-24',
+        unit: 'J/T',
+      },
+      {
+        name: 'nuclearMagneton',
+        label: 'Nuclear magneton',
+        symbol: 'μN',
+        value: '5.0507837461e-27',
+        unit: 'J/T',
+      },
+      {
+        name: 'magneticFluxQuantum',
+        label: 'Magnetic flux quantum',
+        symbol: 'Φ₀',
+        value: '2.067833848e-15',
+        unit: 'Wb',
+      },
+      {
+        name: 'conductanceQuantum',
+        label: 'Conductance quantum',
+        symbol: 'G₀',
+        value: '7.748091729e-5',
+        unit: 'S',
+      },
+      {
+        name: 'klitzing',
+        label: 'von Klitzing constant',
+        symbol: 'R_K',
+        value: '25812.80745',
+        unit: 'ohm',
+      },
+    ],
+  },
+  {
+    name: 'Atomic',
+    constants: [
+      {
+        name: 'electronMass',
+        label: 'Electron mass',
+        symbol: 'mₑ',
+        value: '9.1093837015e-31',
+        unit: 'kg',
+      },
+      {
+        name: 'protonMass',
+        label: 'Proton mass',
+        symbol: 'mₚ',
+        value: '1.67262192369e-27',
+        unit: 'kg',
+      },
+      {
+        name: 'neutronMass',
+        label: 'Neutron mass',
+        symbol: 'mₙ',
+        value: '1.67492749804e-27',
+        unit: 'kg',
+      },
+      {
+        name: 'atomicMass',
+        label: 'Atomic mass constant',
+        symbol: 'mᵤ',
+        value: '1.66053906660e-27',
+        unit: 'kg',
+      },
+      {
+        name: 'bohrRadius',
+        label: 'Bohr radius',
+        symbol: 'a₀',
+        value: '5.29177210903e-11',
+        unit: 'm',
+      },
+      {
+        name: 'classicalElectronRadius',
+        label: 'Classical electron radius',
+        symbol: 'rₑ',
+        value: '2.8179403262e-15',
+        unit: 'm',
+      },
+      {
+        name: 'fineStructure',
+        label: 'Fine-structure constant',
+        symbol: 'α',
+        value: '7.2973525693e-3',
+        unit: '',
+      },
+      {
+        name: 'rydberg',
+        label: 'Rydberg constant',
+        symbol: 'R∞',
+        value: '10973731.568160',
+        unit: 'm^-1',
+      },
+      {
+        name: 'hartreeEnergy',
+        label: 'Hartree energy',
+        symbol: 'Eₕ',
+        value: '4.3597447222071e-18',
+        unit: 'J',
+      },
+    ],
+  },
+  {
+    name: 'Chemistry',
+    constants: [
+      {
+        name: 'avogadro',
+        label: 'Avogadro constant',
+        symbol: 'N_A',
+        value: '6.02214076e23',
+        unit: 'mol^-1',
+      },
+      {
+        name: 'boltzmann',
+        label: 'Boltzmann constant',
+        symbol: 'k',
+        value: '1.380649e-23',
+        unit: 'J/K',
+      },
+      {
+        name: 'gasConstant',
+        label: 'Molar gas constant',
+        symbol: 'R',
+        value: '8.314462618',
+        unit: 'J/(mol K)',
+      },
+      {
+        name: 'faraday',
+        label: 'Faraday constant',
+        symbol: 'F',
+        value: '96485.33212',
+        unit: 'C/mol',
+      },
+      {
+        name: 'molarVolume',
+        label: 'Molar volume of an ideal gas at 0 °C and 1 atm',
+        symbol: 'Vₘ',
+        value: '22.41396954e-3',
+        unit: 'm^3/mol',
+      },
+      {
+        name: 'loschmidt',
+        label: 'Loschmidt constant at 0 °C and 1 atm',
+        symbol: 'n₀',
+        value: '2.686780111e25',
+        unit: 'm^-3',
+      },
+      {
+        name: 'stefanBoltzmann',
+        label: 'Stefan–Boltzmann constant',
+        symbol: 'σ',
+        value: '5.670374419e-8',
+        unit: 'W/(m^2 K^4)',
+      },
+      {
+        name: 'wienDisplacement',
+        label: 'Wien displacement law constant',
+        symbol: 'b',
+        value: '2.897771955e-3',
+        unit: 'm K',
+      },
+    ],
+  },
+  {
+    name: 'Gravity & Planck',
+    constants: [
+      {
+        name: 'gravity',
+        label: 'Standard acceleration of gravity',
+        symbol: 'g',
+        value: '9.80665',
+        unit: 'm/s^2',
+      },
+      {
+        name: 'planckLength',
+        label: 'Planck length',
+        symbol: 'l_P',
+        value: '1.616255e-35',
+        unit: 'm',
+      },
+      {
+        name: 'planckMass',
+        label: 'Planck mass',
+        symbol: 'm_P',
+        value: '2.176434e-8',
+        unit: 'kg',
+      },
+      {
+        name: 'planckTime',
+        label: 'Planck time',
+        symbol: 't_P',
+        value: '5.391247e-44',
+        unit: 's',
+      },
+      {
+        name: 'planckTemperature',
+        label: 'Planck temperature',
+        symbol: 'T_P',
+        value: '1.416784e32',
+        unit: 'K',
+      },
+    ],
+  },
+];
+
+/**
+ * Every constant in the catalog, in category order
+ */
+export const PHYSICAL_CONSTANTS: readonly PhysicalConstant[] = CONSTANT_CATEGORIES.flatMap(
+  (category) => category.constants
+);
+
+/**
+ * Find a constant by its name
+ */
+export function findConstant(name: string): PhysicalConstant | undefined {
+  return PHYSICAL_CONSTANTS.find((constant) => constant.name === name);
+}
+
+/**
+ * Constants whose name, label or symbol contains the query, ignoring case
+ */
+export function searchConstants(query: string): PhysicalConstant[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [...PHYSICAL_CONSTANTS];
+  }
+  return PHYSICAL_CONSTANTS.filter((constant) =>
+    [constant.name, constant.label, constant.symbol].some((text) =>
+      text.toLowerCase().includes(needle)
+    )
+  );
+}
+
+/**
+ * Expression that inserts a constant: its name, which evaluates with units,
+ * or its bare value in SI units, parenthesized so it never runs into a
+ * number typed before it
+ */
+export function formatConstant(constant: PhysicalConstant, withUnits: boolean): string {
+  return withUnits || !constant.unit ? constant.name : `(${constant.value})`;
+}
+
+/**
+ * Expression for a constant's value with its unit, e.g. `299792458 m/s`
+ */
+export function constantQuantity(constant: PhysicalConstant): string {
+  return constant.unit ? `${constant.value} ${constant.unit}` : constant.value;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { alignPositions, closestName, editDistance, mapSpan } from './diagnostics';
+
+describe('diagnostics', () => {
+  describe('alignPositions', () => {
+    it('maps an unchanged expression to itself', () => {
+      expect(alignPositions('1+2', '1+2')).toEqual([0, 1, 2, 3]);
+    });
+
+    it('maps inserted characters to where they were inserted', () => {
+      // 2x -> 2*x
+      expect(alignPositions('2x', '2*x')).toEqual([0, 1, 1, 2]);
+    });
+
+    it('maps replacements to the text they replaced', () => {
+      // √(4) -> sqrt(4)
+      expect(alignPositions('√(4)', 'sqrt(4)')).toEqual([0, 0, 0, 0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe('mapSpan', () => {
+    it('maps a span back to the original expression', () => {
+      const positions = alignPositions('2πr', '2*pi*r');
+      expect(mapSpan(positions, 2, 4)).toEqual({ start: 1, end: 2 });
+      expect(mapSpan(positions, 5, 6)).toEqual({ start: 2, end: 3 });
+    });
+
+    it('keeps empty spans empty', () => {
+      expect(mapSpan(alignPositions('2 +', '2 +'), 3, 3)).toEqual({ start: 3, end: 3 });
+    });
+  });
+
+  describe('editDistance', () => {
+    it('counts insertions, deletions and substitutions', () => {
+      expect(editDistance('sqrt', 'sqrt')).toBe(0);
+      expect(editDistance('sqr', 'sqrt')).toBe(1);
+      expect(editDistance('sun', 'sin')).toBe(1);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+
+    it('counts a swap of adjacent characters as one edit', () => {
+      expect(editDistance('tna', 'tan')).toBe(1);
+      expect(editDistance('sni', 'sin')).toBe(1);
+      expect(editDistance('abcd', 'badc')).toBe(2);
+    });
+  });
+
+  describe('closestName', () => {
+    it('finds a misspelled name', () => {
+      expect(closestName('sqr', ['sin', 'sqrt', 'qr'])).toBe('sqrt');
+      expect(closestName('logarithm', ['log', 'logarithms'])).toBe('logarithms');
+    });
+
+    it('prefers a swap of letters to two substitutions', () => {
+      expect(closestName('sni', ['sec', 'sin'])).toBe('sin');
+    });
+
+    it('matches very short names only up to case', () => {
+      expect(closestName('PI', ['pi', 'phi'])).toBe('pi');
+      expect(closestName('x', ['y'])).toBeNull();
+    });
+
+    it('returns null when nothing is close', () => {
+      expect(closestName('foo', ['sin', 'cos'])).toBeNull();
+    });
+  });
+});
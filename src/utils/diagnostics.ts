@@ -0,0 +1,123 @@
+import type { ErrorSpan } from '../types';
+
+/**
+ * Longest expressions whose positions are aligned character by character;
+ * longer ones are mapped proportionally
+ */
+const MAX_ALIGNED_LENGTH = 2000;
+
+/**
+ * For each position in a rewritten expression, the position it came from in
+ * the original. Characters are matched along a longest common subsequence,
+ * so text the rewrite inserted (such as the `*` of an implicit product) maps
+ * to where it was inserted, and text it replaced (`√` with `sqrt`) maps to
+ * what it replaced. The result has one more entry than `rewritten`
+ * so the end of the expression maps too.
+ */
+export function alignPositions(original: string, rewritten: string): number[] {
+  const n = original.length;
+  const m = rewritten.length;
+  if (n * m > MAX_ALIGNED_LENGTH * MAX_ALIGNED_LENGTH || n === 0 || m === 0) {
+    return Array.from({ length: m + 1 }, (_, j) => (m === 0 ? n : Math.round((j * n) / m)));
+  }
+
+  // common[i][j] is the LCS length of original[i..] and rewritten[j..]
+  const common = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      common[i][j] =
+        original[i] === rewritten[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const positions: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (j < m) {
+    if (i < n && original[i] === rewritten[j] && common[i][j] === common[i + 1][j + 1] + 1) {
+      positions.push(i);
+      i++;
+      j++;
+    } else if (i < n && common[i + 1][j] > common[i][j + 1]) {
+      i++;
+    } else {
+      positions.push(i);
+      j++;
+    }
+  }
+  positions.push(n);
+  return positions;
+}
+
+/**
+ * Map a span of a rewritten expression back to the original expression
+ */
+export function mapSpan(positions: readonly number[], start: number, end: number): ErrorSpan {
+  const last = positions.length - 1;
+  const from = positions[Math.min(start, last)];
+  const to = end > start ? positions[Math.min(end - 1, last)] + 1 : from;
+  return { start: from, end: Math.max(from, to) };
+}
+
+/**
+ * Number of single-character insertions, deletions, substitutions and swaps
+ * of adjacent characters that turn `a` into `b` (optimal string alignment)
+ */
+export function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      let distance = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current.push(distance);
+    }
+    [beforePrevious, previous] = [previous, current];
+  }
+  return previous[b.length];
+}
+
+/**
+ * Length of the prefix two strings share
+ */
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * The candidate closest to a misspelled name, or null if none is close.
+ * Names of one or two characters only match up to case, short names allow
+ * one typo and longer names two. Ties go to the longest shared prefix.
+ */
+export function closestName(name: string, candidates: Iterable<string>): string | null {
+  const limit = name.length < 3 ? 0 : name.length < 6 ? 1 : 2;
+  const lower = name.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = limit + 1;
+  let bestPrefix = 0;
+
+  for (const candidate of candidates) {
+    if (candidate === name || Math.abs(candidate.length - name.length) > limit) continue;
+    const distance = editDistance(lower, candidate.toLowerCase());
+    const prefix = commonPrefixLength(lower, candidate.toLowerCase());
+    if (distance < bestDistance || (distance === bestDistance && prefix > bestPrefix)) {
+      best = candidate;
+      bestDistance = distance;
+      bestPrefix = prefix;
+    }
+  }
+  return best;
+}
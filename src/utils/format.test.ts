@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { bignumber } from 'mathjs';
+import { formatBigNumber, formatNumber, toEngineering, withSIPrefix } from './format';
+import type { DisplayFormat } from '../types';
+
+const fixed = (digits: number): DisplayFormat => ({
+  notation: 'fixed',
+  digits,
+  siPrefixes: false,
+  mixedFractions: false,
+});
+const scientific = (digits: number): DisplayFormat => ({
+  notation: 'scientific',
+  digits,
+  siPrefixes: false,
+  mixedFractions: false,
+});
+const engineering = (digits: number): DisplayFormat => ({
+  notation: 'engineering',
+  digits,
+  siPrefixes: true,
+  mixedFractions: false,
+});
+
+describe('format', () => {
+  describe('formatNumber', () => {
+    it('formats normal notation automatically', () => {
+      expect(formatNumber(0.1 + 0.2)).toBe('0.3');
+      expect(formatNumber(1e15)).toBe('1.00000000e+15');
+      expect(formatNumber(1e-12)).toBe('1.00000000e-12');
+    });
+
+    it('handles non-finite values in every notation', () => {
+      expect(formatNumber(Infinity, fixed(2))).toBe('Infinity');
+      expect(formatNumber(-Infinity, scientific(3))).toBe('-Infinity');
+      expect(formatNumber(NaN, engineering(3))).toBe('Error');
+    });
+
+    it('formats fixed decimal places', () => {
+      expect(formatNumber(Math.PI, fixed(2))).toBe('3.14');
+      expect(formatNumber(2, fixed(3))).toBe('2.000');
+      expect(formatNumber(2.5, fixed(0))).toBe('3');
+    });
+
+    it('switches to scientific notation for values fixed would show as zero', () => {
+      expect(formatNumber(0.00001234, fixed(4))).toBe('1.234e-5');
+      expect(formatNumber(-0.00001234, fixed(2))).toBe('-1.2e-5');
+      expect(formatNumber(0.4, fixed(0))).toBe('4e-1');
+      expect(formatNumber(0.00005, fixed(4))).toBe('0.0001');
+      expect(formatNumber(0, fixed(4))).toBe('0.0000');
+    });
+
+    it('formats scientific significant digits', () => {
+      expect(formatNumber(12345, scientific(3))).toBe('1.23e+4');
+      expect(formatNumber(0.000123, scientific(2))).toBe('1.2e-4');
+    });
+
+    it('uses at least one significant digit', () => {
+      expect(formatNumber(12345, scientific(0))).toBe('1e+4');
+    });
+
+    it('formats engineering notation with exponents in multiples of three', () => {
+      expect(formatNumber(12345, engineering(4))).toBe('12.35e+3');
+      expect(formatNumber(0.000123, engineering(3))).toBe('123e-6');
+      expect(formatNumber(-1500000, engineering(2))).toBe('-1.5e+6');
+    });
+  });
+
+  describe('formatBigNumber', () => {
+    it('keeps integers in full in normal notation', () => {
+      expect(formatBigNumber(bignumber('1267650600228229401496703205376'), 32)).toBe(
+        '1267650600228229401496703205376'
+      );
+    });
+
+    it('applies the display notation', () => {
+      const value = bignumber('1267650600228229401496703205376');
+      expect(formatBigNumber(value, 32, scientific(4))).toBe('1.268e+30');
+      expect(formatBigNumber(value, 32, engineering(4))).toBe('1.268e+30');
+      expect(formatBigNumber(bignumber('2').sqrt(), 32, fixed(5))).toBe('1.41421');
+    });
+
+    it('switches to scientific notation for values fixed would show as zero', () => {
+      expect(formatBigNumber(bignumber('1e-40'), 32, fixed(4))).toBe('1.000e-40');
+      expect(formatBigNumber(bignumber('0'), 32, fixed(2))).toBe('0.00');
+    });
+  });
+
+  describe('toEngineering', () => {
+    it('moves the decimal point to make the exponent a multiple of three', () => {
+      expect(toEngineering('1.2345e+4')).toBe('12.345e+3');
+      expect(toEngineering('1.2e-4')).toBe('120e-6');
+      expect(toEngineering('5e+0')).toBe('5e+0');
+    });
+
+    it('leaves other text unchanged', () => {
+      expect(toEngineering('Infinity')).toBe('Infinity');
+    });
+  });
+
+  describe('withSIPrefix', () => {
+    it('replaces engineering exponents with SI prefixes', () => {
+      expect(withSIPrefix('12.3e+3')).toBe('12.3k');
+      expect(withSIPrefix('-4.7e-6')).toBe('-4.7µ');
+      expect(withSIPrefix('5e+0')).toBe('5');
+    });
+
+    it('leaves exponents without a prefix and other text unchanged', () => {
+      expect(withSIPrefix('1e+30')).toBe('1e+30');
+      expect(withSIPrefix('3 + 4i')).toBe('3 + 4i');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { BigNumber } from 'mathjs';
+import type { DisplayFormat } from '../types';
+
+/**
+ * Default display format: automatic notation
+ */
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = {
+  notation: 'normal',
+  digits: 4,
+  siPrefixes: false,
+  mixedFractions: false,
+};
+
+/**
+ * Maximum display precision for results in normal notation
+ */
+export const DISPLAY_PRECISION = 12;
+
+/**
+ * Largest digit count offered for fixed, scientific and engineering notation
+ */
+export const MAX_DISPLAY_DIGITS = 12;
+
+/**
+ * SI prefixes for engineering exponents
+ */
+const SI_PREFIXES: Record<number, string> = {
+  [-24]: 'y',
+  [-21]: 'z',
+  [-18]: 'a',
+  [-15]: 'f',
+  [-12]: 'p',
+  [-9]: 'n',
+  [-6]: 'µ',
+  [-3]: 'm',
+  0: '',
+  3: 'k',
+  6: 'M',
+  9: 'G',
+  12: 'T',
+  15: 'P',
+  18: 'E',
+  21: 'Z',
+  24: 'Y',
+};
+
+/**
+ * Significant digits for scientific and engineering notation, at least one
+ */
+function significantDigits(format: DisplayFormat): number {
+  return Math.min(Math.max(format.digits, 1), MAX_DISPLAY_DIGITS);
+}
+
+/**
+ * Fixed notation of a value rounded away entirely, e.g. `0.0000` or `-0.00`
+ */
+const ROUNDED_ZERO_PATTERN = /^-?0(?:\.0*)?$/;
+
+/**
+ * Rewrite exponential notation (`1.2345e+4`) so the exponent is a multiple
+ * of three (`12.345e+3`), keeping the same significant digits
+ */
+export function toEngineering(exponential: string): string {
+  const match = /^(-?)(\d)(?:\.(\d*))?e([+-]\d+)$/.exec(exponential);
+  if (!match) return exponential;
+
+  const [, sign, lead, fraction = '', exponentText] = match;
+  const exponent = Number(exponentText);
+  const engineeringExponent = Math.floor(exponent / 3) * 3;
+  const shift = exponent - engineeringExponent;
+
+  const digits = (lead + fraction).padEnd(shift + 1, '0');
+  const whole = digits.slice(0, shift + 1);
+  const rest = digits.slice(shift + 1);
+  const mantissa = rest ? `${whole}.${rest}` : whole;
+  const exponentSign = engineeringExponent < 0 ? '-' : '+';
+
+  return `${sign}${mantissa}e${exponentSign}${Math.abs(engineeringExponent)}`;
+}
+
+/**
+ * Replace the exponent of an engineering-notation number with its SI
+ * prefix, e.g. `12.3e+3` becomes `12.3k`. Other text is returned unchanged.
+ */
+export function withSIPrefix(text: string): string {
+  const match = /^(-?\d+(?:\.\d+)?)e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+
+  const prefix = SI_PREFIXES[Number(match[2])];
+  return prefix === undefined ? text : `${match[1]}${prefix}`;
+}
+
+/**
+ * Format a number for display, handling special cases
+ */
+export function formatNumber(
+  value: number,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  if (!Number.isFinite(value)) {
+    if (Number.isNaN(value)) return 'Error';
+    return value > 0 ? 'Infinity' : '-Infinity';
+  }
+
+  switch (format.notation) {
+    case 'fixed': {
+      // A value too small for the decimal places is shown in scientific notation, not as 0
+      const text = value.toFixed(Math.min(format.digits, MAX_DISPLAY_DIGITS));
+      return value !== 0 && ROUNDED_ZERO_PATTERN.test(text)
+        ? value.toExponential(significantDigits(format) - 1)
+        : text;
+    }
+    case 'scientific':
+      return value.toExponential(significantDigits(format) - 1);
+    case 'engineering':
+      return toEngineering(value.toExponential(significantDigits(format) - 1));
+  }
+
+  // Use exponential notation for very large or very small numbers
+  if (Math.abs(value) > 1e12 || (Math.abs(value) < 1e-10 && value !== 0)) {
+    return value.toExponential(DISPLAY_PRECISION - 4);
+  }
+
+  // Round to avoid floating point display issues
+  const rounded = Number(value.toPrecision(DISPLAY_PRECISION));
+
+  // Format with appropriate decimal places
+  const str = rounded.toString();
+
+  // Limit length for display
+  if (str.length > DISPLAY_PRECISION + 2) {
+    return value.toExponential(DISPLAY_PRECISION - 4);
+  }
+
+  return str;
+}
+
+/**
+ * Format a BigNumber for display with up to the given significant digits.
+ * Integers that fit in the digit count are shown in full in normal notation.
+ */
+export function formatBigNumber(
+  value: BigNumber,
+  digits: number,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  if (!value.isFinite()) {
+    if (value.isNaN()) return 'Error';
+    return value.isPositive() ? 'Infinity' : '-Infinity';
+  }
+
+  switch (format.notation) {
+    case 'fixed': {
+      const text = value.toFixed(Math.min(format.digits, MAX_DISPLAY_DIGITS));
+      return !value.isZero() && ROUNDED_ZERO_PATTERN.test(text)
+        ? value.toExponential(significantDigits(format) - 1)
+        : text;
+    }
+    case 'scientific':
+      return value.toExponential(significantDigits(format) - 1);
+    case 'engineering':
+      return toEngineering(value.toExponential(significantDigits(format) - 1));
+  }
+
+  const rounded = value.toSignificantDigits(digits);
+  const exponent = rounded.isZero() ? 0 : rounded.e;
+
+  if (exponent >= digits || exponent < -10) {
+    return rounded.toExponential();
+  }
+
+  return rounded.toFixed();
+}
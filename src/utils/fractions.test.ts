@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { fraction } from 'mathjs';
+import {
+  approximateFraction,
+  convertToDecimal,
+  convertToFraction,
+  formatFraction,
+  parseFraction,
+} from './fractions';
+import { DEFAULT_DISPLAY_FORMAT } from './format';
+import type { DisplayFormat } from '../types';
+
+describe('fractions', () => {
+  describe('formatFraction', () => {
+    it('writes improper fractions', () => {
+      expect(formatFraction(fraction(7, 2))).toBe('7/2');
+      expect(formatFraction(fraction(-7, 2))).toBe('-7/2');
+      expect(formatFraction(fraction(5))).toBe('5');
+    });
+
+    it('writes mixed numbers', () => {
+      expect(formatFraction(fraction(7, 2), true)).toBe('3 1/2');
+      expect(formatFraction(fraction(-7, 2), true)).toBe('-3 1/2');
+      expect(formatFraction(fraction(1, 2), true)).toBe('1/2');
+    });
+  });
+
+  describe('parseFraction', () => {
+    it('reads fractions, mixed numbers and whole numbers', () => {
+      expect(parseFraction('7/2')?.valueOf()).toBe(3.5);
+      expect(parseFraction('-3 1/2')?.valueOf()).toBe(-3.5);
+      expect(parseFraction('5')?.valueOf()).toBe(5);
+    });
+
+    it('rejects anything else', () => {
+      expect(parseFraction('0.5')).toBeNull();
+      expect(parseFraction('1/0')).toBeNull();
+      expect(parseFraction('3 m')).toBeNull();
+      expect(parseFraction('')).toBeNull();
+    });
+  });
+
+  describe('approximateFraction', () => {
+    it('finds exact fractions for rational values', () => {
+      const half = approximateFraction(0.5);
+      expect(half?.value.toFraction()).toBe('1/2');
+      expect(half?.exact).toBe(true);
+      expect(approximateFraction(-0.75)?.value.toFraction()).toBe('-3/4');
+      expect(approximateFraction(1.2345)?.value.toFraction()).toBe('2469/2000');
+    });
+
+    it('recognizes fractions from rounded decimals', () => {
+      expect(approximateFraction(0.333333333333)?.value.toFraction()).toBe('1/3');
+      expect(approximateFraction(0.142857142857)?.value.toFraction()).toBe('1/7');
+    });
+
+    it('approximates irrational values within the denominator limit', () => {
+      const pi = approximateFraction(Math.PI);
+      expect(pi?.value.toFraction()).toBe('355/113');
+      expect(pi?.exact).toBe(false);
+      expect(approximateFraction(Math.PI, 100)?.value.toFraction()).toBe('311/99');
+      expect(approximateFraction(Math.PI, 10)?.value.toFraction()).toBe('22/7');
+    });
+
+    it('keeps whole numbers whole', () => {
+      expect(approximateFraction(42)?.value.toFraction()).toBe('42');
+      expect(approximateFraction(0)?.value.toFraction()).toBe('0');
+    });
+
+    it('returns null for infinite values and NaN', () => {
+      expect(approximateFraction(Infinity)).toBeNull();
+      expect(approximateFraction(NaN)).toBeNull();
+    });
+  });
+
+  describe('convertToFraction', () => {
+    it('converts decimal results', () => {
+      expect(convertToFraction('3.5')).toEqual({ text: '7/2', exact: true });
+      expect(convertToFraction('3.5', true)).toEqual({ text: '3 1/2', exact: true });
+      expect(convertToFraction('2.5e-3')).toEqual({ text: '1/400', exact: true });
+    });
+
+    it('marks approximations', () => {
+      expect(convertToFraction('3.14159265359')).toEqual({ text: '355/113', exact: false });
+    });
+
+    it('reformats fraction results', () => {
+      expect(convertToFraction('7/2', true)).toEqual({ text: '3 1/2', exact: true });
+      expect(convertToFraction('3 1/2')).toEqual({ text: '7/2', exact: true });
+    });
+
+    it('returns null for other results', () => {
+      expect(convertToFraction('5 m / s')).toBeNull();
+      expect(convertToFraction('3 + 4i')).toBeNull();
+      expect(convertToFraction('Infinity')).toBeNull();
+    });
+  });
+
+  describe('convertToDecimal', () => {
+    it('converts fraction results', () => {
+      expect(convertToDecimal('7/2')).toBe('3.5');
+      expect(convertToDecimal('-3 1/2')).toBe('-3.5');
+      expect(convertToDecimal('1/3')).toBe('0.333333333333');
+    });
+
+    it('uses the display format', () => {
+      const format: DisplayFormat = { ...DEFAULT_DISPLAY_FORMAT, notation: 'fixed', digits: 2 };
+      expect(convertToDecimal('1/3', format)).toBe('0.33');
+    });
+
+    it('returns null for results that are not fractions', () => {
+      expect(convertToDecimal('0.5')).toBeNull();
+    });
+  });
+});
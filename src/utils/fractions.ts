@@ -0,0 +1,130 @@
+import { fraction, type Fraction } from 'mathjs';
+import { formatNumber } from './format';
+import type { DisplayFormat } from '../types';
+
+/**
+ * Largest denominator used when approximating a value that is not a simple fraction
+ */
+export const MAX_DENOMINATOR = 10000;
+
+/**
+ * Relative difference below which a fraction is taken to equal a displayed
+ * decimal, which is rounded to 12 significant digits
+ */
+const EXACT_TOLERANCE = 5e-12;
+
+/**
+ * Results that are fractions: `7/2`, `-3 1/2` or a whole number
+ */
+const FRACTION_PATTERN = /^-?\d+(?: \d+\/\d+|\/\d+)?$/;
+
+/**
+ * Results that are plain decimals, including exponent notation
+ */
+const DECIMAL_PATTERN = /^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+
+/**
+ * Fraction found for a decimal, and whether it equals the decimal or only
+ * approximates it
+ */
+export interface FractionApproximation {
+  readonly value: Fraction;
+  readonly exact: boolean;
+}
+
+/**
+ * Format a fraction as `7/2`, or as a mixed number `3 1/2` when `mixed` is set
+ */
+export function formatFraction(value: Fraction, mixed = false): string {
+  return value.toFraction(mixed);
+}
+
+/**
+ * Read a fraction result such as `7/2`, `-3 1/2` or `5`, or null if the text is not one
+ */
+export function parseFraction(text: string): Fraction | null {
+  const trimmed = text.trim();
+  if (!FRACTION_PATTERN.test(trimmed)) return null;
+  try {
+    return fraction(trimmed);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the simplest fraction equal to a value to display precision, using
+ * the convergents of its continued fraction. When none has a denominator up
+ * to `maxDenominator` (as for π) the closest fraction within the limit is
+ * returned as an approximation. Returns null for infinite values and NaN.
+ */
+export function approximateFraction(
+  value: number,
+  maxDenominator = MAX_DENOMINATOR
+): FractionApproximation | null {
+  if (!Number.isFinite(value)) return null;
+
+  const target = Math.abs(value);
+  const tolerance = target * EXACT_TOLERANCE;
+  const toFraction = (p: number, q: number): Fraction => {
+    const result = fraction(BigInt(p), BigInt(q));
+    return value < 0 ? result.neg() : result;
+  };
+
+  // p1/q1 is the latest convergent and p0/q0 the one before it
+  let [p0, q0, p1, q1] = [0, 1, 1, 0];
+  let x = target;
+  for (;;) {
+    const a = Math.floor(x);
+    const q2 = q0 + a * q1;
+    if (q2 > maxDenominator) break;
+    [p0, q0, p1, q1] = [p1, q1, p0 + a * p1, q2];
+    if (x === a || Math.abs(p1 / q1 - target) <= tolerance) {
+      return { value: toFraction(p1, q1), exact: true };
+    }
+    x = 1 / (x - a);
+  }
+
+  // The best approximation is the last convergent or the largest
+  // semiconvergent that stays within the limit
+  const k = Math.floor((maxDenominator - q0) / q1);
+  const [p, q] =
+    Math.abs((p0 + k * p1) / (q0 + k * q1) - target) < Math.abs(p1 / q1 - target)
+      ? [p0 + k * p1, q0 + k * q1]
+      : [p1, q1];
+  return { value: toFraction(p, q), exact: Math.abs(p / q - target) <= tolerance };
+}
+
+/**
+ * Rewrite a displayed result as a fraction: fractions are reformatted (e.g.
+ * as mixed numbers) and decimals are approximated. Returns null for results
+ * that are not real numbers, such as units, matrices or complex numbers.
+ */
+export function convertToFraction(
+  result: string,
+  mixed = false,
+  maxDenominator = MAX_DENOMINATOR
+): { text: string; exact: boolean } | null {
+  const exact = parseFraction(result);
+  if (exact) {
+    return { text: formatFraction(exact, mixed), exact: true };
+  }
+
+  const trimmed = result.trim();
+  if (!DECIMAL_PATTERN.test(trimmed)) return null;
+
+  const approximation = approximateFraction(Number(trimmed), maxDenominator);
+  return approximation && {
+    text: formatFraction(approximation.value, mixed),
+    exact: approximation.exact,
+  };
+}
+
+/**
+ * Rewrite a displayed fraction result as a decimal in the display format,
+ * or return null if the result is not a fraction
+ */
+export function convertToDecimal(result: string, format?: DisplayFormat): string | null {
+  const value = parseFraction(result);
+  return value && formatNumber(value.valueOf(), format);
+}
@@ -1,5 +1,5 @@
-import { evaluate } from './math-engine';
-import type { GraphBounds } from '../types';
+import { compileFunction } from './math-engine';
+import type { AngleUnit, EvaluationContext, GraphBounds, GraphPoint } from '../types';
 
 /**
  * Default graph bounds
@@ -30,19 +30,45 @@ export const GRID_COLOR = {
 export const AXIS_COLOR = 'rgba(128, 128, 128, 0.8)';
 
 /**
- * Evaluate a function expression at a given x value
+ * Create an evaluator for a function expression in x. User variables and
+ * functions from the context resolve the same way as in the calculator.
+ * Points that fail to evaluate or are not finite numbers yield null.
  */
-export function evaluateFunction(expression: string, x: number): number | null {
-  // Replace 'x' with the actual value
-  const expr = expression.replace(/\bx\b/gi, `(${x})`);
-  const result = evaluate(expr, 'rad');
-
-  if (result.success && typeof result.value === 'number') {
-    if (Number.isFinite(result.value)) {
-      return result.value;
-    }
+export function createFunctionEvaluator(
+  expression: string,
+  context: EvaluationContext = {},
+  angleUnit: AngleUnit = 'rad'
+): (x: number) => number | null {
+  let compiled: (value: number) => unknown;
+  try {
+    compiled = compileFunction(expression, 'x', angleUnit, context);
+  } catch {
+    return () => null;
   }
-  return null;
+
+  return (x: number) => {
+    try {
+      const result = compiled(x);
+      if (typeof result === 'number' && Number.isFinite(result)) {
+        return result;
+      }
+    } catch {
+      // Treat evaluation errors as gaps in the curve
+    }
+    return null;
+  };
+}
+
+/**
+ * Evaluate a function expression at a given x value
+ */
+export function evaluateFunction(
+  expression: string,
+  x: number,
+  context: EvaluationContext = {},
+  angleUnit: AngleUnit = 'rad'
+): number | null {
+  return createFunctionEvaluator(expression, context, angleUnit)(x);
 }
 
 /**
@@ -224,10 +250,14 @@ export function drawFunction(
   color: string,
   bounds: GraphBounds,
   width: number,
-  height: number
+  height: number,
+  context: EvaluationContext = {},
+  angleUnit: AngleUnit = 'rad'
 ): void {
   if (!expression.trim()) return;
 
+  const evaluateAt = createFunctionEvaluator(expression, context, angleUnit);
+
   ctx.strokeStyle = color;
   ctx.lineWidth = 2;
   ctx.lineCap = 'round';
@@ -240,7 +270,7 @@ export function drawFunction(
   // Evaluate function at each point
   for (let i = 0; i <= numPoints; i++) {
     const graphX = bounds.xMin + i * xStep;
-    const graphY = evaluateFunction(expression, graphX);
+    const graphY = evaluateAt(graphX);
 
     if (graphY !== null && graphY >= bounds.yMin - 100 && graphY <= bounds.yMax + 100) {
       points.push(graphToCanvas(graphX, graphY, bounds, width, height));
@@ -315,6 +345,48 @@ export function drawTracePoint(
   ctx.stroke();
 }
 
+/**
+ * Draw marked points as hollow circles
+ */
+export function drawPoints(
+  ctx: CanvasRenderingContext2D,
+  points: readonly GraphPoint[],
+  color: string,
+  bounds: GraphBounds,
+  width: number,
+  height: number
+): void {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+
+  for (const point of points) {
+    const { x, y } = graphToCanvas(point.x, point.y, bounds, width, height);
+    ctx.beginPath();
+    ctx.arc(x, y, 5, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Bounds that show every finite point with a margin around them, keeping the
+ * origin in view so the axes are drawn
+ */
+export function fitBounds(points: readonly GraphPoint[]): GraphBounds {
+  const finite = points.filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y));
+  if (finite.length === 0) return DEFAULT_BOUNDS;
+
+  const range = (values: number[]): [number, number] => {
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    const margin = (max - min || 1) / 10;
+    return [min - margin, max + margin];
+  };
+
+  const [xMin, xMax] = range(finite.map((point) => point.x));
+  const [yMin, yMax] = range(finite.map((point) => point.y));
+  return { xMin, xMax, yMin, yMax };
+}
+
 /**
  * Generate a table of values for a function
  */
@@ -322,12 +394,15 @@ export function generateTable(
   expression: string,
   xStart: number,
   xEnd: number,
-  step: number
+  step: number,
+  context: EvaluationContext = {},
+  angleUnit: AngleUnit = 'rad'
 ): Array<{ x: number; y: number | null }> {
   const table: Array<{ x: number; y: number | null }> = [];
+  const evaluateAt = createFunctionEvaluator(expression, context, angleUnit);
 
   for (let x = xStart; x <= xEnd; x += step) {
-    const y = evaluateFunction(expression, x);
+    const y = evaluateAt(x);
     table.push({ x, y });
   }
 
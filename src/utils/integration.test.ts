@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { integrate } from './integration';
+
+describe('integration', () => {
+  describe('integrate', () => {
+    it('integrates polynomials exactly', () => {
+      expect(integrate((x) => x * x, 0, 3).value).toBeCloseTo(9, 12);
+      expect(integrate((x) => x ** 5 - 2 * x, -1, 2).value).toBeCloseTo(7.5, 12);
+    });
+
+    it('integrates smooth functions to high accuracy', () => {
+      expect(integrate(Math.sin, 0, Math.PI).value).toBeCloseTo(2, 10);
+      expect(integrate(Math.exp, 0, 1).value).toBeCloseTo(Math.E - 1, 10);
+    });
+
+    it('returns a small error estimate', () => {
+      const { value, error } = integrate(Math.cos, 0, 1);
+      expect(value).toBeCloseTo(Math.sin(1), 10);
+      expect(error).toBeGreaterThanOrEqual(0);
+      expect(error).toBeLessThan(1e-9);
+    });
+
+    it('handles integrable singularities at the endpoints', () => {
+      expect(integrate((x) => 1 / Math.sqrt(x), 0, 1).value).toBeCloseTo(2, 6);
+    });
+
+    it('handles infinite limits', () => {
+      expect(integrate((x) => Math.exp(-x), 0, Infinity).value).toBeCloseTo(1, 8);
+      expect(integrate((x) => Math.exp(x), -Infinity, 0).value).toBeCloseTo(1, 8);
+      expect(integrate((x) => Math.exp(-x * x), -Infinity, Infinity).value).toBeCloseTo(
+        Math.sqrt(Math.PI),
+        8
+      );
+    });
+
+    it('changes sign when the limits are reversed', () => {
+      expect(integrate((x) => x, 2, 0).value).toBeCloseTo(-2, 12);
+      expect(integrate((x) => x, 1, 1)).toEqual({ value: 0, error: 0 });
+    });
+
+    it('throws for integrals that do not converge', () => {
+      expect(() => integrate((x) => 1 / x, 0, 1)).toThrow('Integral did not converge');
+      expect(() => integrate(() => 1, 0, Infinity)).toThrow('Integral did not converge');
+    });
+
+    it('throws for integrands that are not real', () => {
+      expect(() => integrate((x) => Math.sqrt(x), -1, 1)).toThrow('Integrand is not real');
+      expect(() => integrate((x) => x, NaN, 1)).toThrow('Invalid integral');
+    });
+  });
+});
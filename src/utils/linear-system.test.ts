@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { reducedRowEchelon, solveLinearSystem } from './linear-system';
+
+describe('linear-system', () => {
+  describe('reducedRowEchelon', () => {
+    it('reduces a matrix with pivots in every row', () => {
+      expect(
+        reducedRowEchelon([
+          [2, 1, 5],
+          [1, -1, 1],
+        ])
+      ).toEqual([
+        [1, 0, 2],
+        [0, 1, 1],
+      ]);
+    });
+
+    it('skips columns without a pivot', () => {
+      expect(
+        reducedRowEchelon([
+          [1, 2, 3],
+          [2, 4, 7],
+        ])
+      ).toEqual([
+        [1, 2, 0],
+        [0, 0, 1],
+      ]);
+    });
+
+    it('clears entries that cancel to rounding error', () => {
+      const rref = reducedRowEchelon([
+        [0.1, 0.2, 0.3],
+        [0.3, 0.6, 0.9],
+      ]);
+      expect(rref[1]).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('solveLinearSystem', () => {
+    it('solves systems with a unique solution', () => {
+      const result = solveLinearSystem([
+        [2, 1, -1, 8],
+        [-3, -1, 2, -11],
+        [-2, 1, 2, -3],
+      ]);
+      expect(result.kind).toBe('unique');
+      if (result.kind !== 'unique') return;
+      [2, 3, -1].forEach((value, index) => expect(result.solution[index]).toBeCloseTo(value, 12));
+    });
+
+    it('solves a 6×6 system', () => {
+      const size = 6;
+      const expected = [1, -2, 3, -4, 5, -6];
+      // Diagonally dominant, so well conditioned
+      const matrix = Array.from({ length: size }, (_, i) =>
+        Array.from({ length: size }, (_, j) => (i === j ? 10 : 1 / (i + j + 1)))
+      );
+      const augmented = matrix.map((row) => [
+        ...row,
+        row.reduce((sum, value, j) => sum + value * expected[j], 0),
+      ]);
+
+      const result = solveLinearSystem(augmented);
+      expect(result.kind).toBe('unique');
+      if (result.kind !== 'unique') return;
+      expected.forEach((value, index) => expect(result.solution[index]).toBeCloseTo(value, 10));
+    });
+
+    it('pivots around zeros on the diagonal', () => {
+      expect(
+        solveLinearSystem([
+          [0, 1, 2],
+          [1, 0, 3],
+        ])
+      ).toEqual({ kind: 'unique', solution: [3, 2] });
+    });
+
+    it('solves equations of very different scales', () => {
+      expect(
+        solveLinearSystem([
+          [1e-13, 0, 1e-13],
+          [0, 1, 1],
+        ])
+      ).toEqual({ kind: 'unique', solution: [1, 1] });
+
+      const result = solveLinearSystem([
+        [1e-20, 2e-20, 3e-20],
+        [1e6, -1e6, 0],
+      ]);
+      expect(result.kind).toBe('unique');
+      if (result.kind === 'unique') {
+        expect(result.solution[0]).toBeCloseTo(1, 12);
+        expect(result.solution[1]).toBeCloseTo(1, 12);
+      }
+    });
+
+    it('reports singular systems with infinitely many solutions', () => {
+      expect(
+        solveLinearSystem([
+          [1, 1, 2],
+          [2, 2, 4],
+        ])
+      ).toEqual({
+        kind: 'infinite',
+        rref: [
+          [1, 1, 2],
+          [0, 0, 0],
+        ],
+      });
+    });
+
+    it('reports inconsistent systems', () => {
+      expect(
+        solveLinearSystem([
+          [1, 1, 2],
+          [1, 1, 3],
+        ])
+      ).toEqual({
+        kind: 'inconsistent',
+        rref: [
+          [1, 1, 0],
+          [0, 0, 1],
+        ],
+      });
+    });
+
+    it('solves a single equation', () => {
+      expect(solveLinearSystem([[4, 2]])).toEqual({ kind: 'unique', solution: [0.5] });
+      expect(solveLinearSystem([[0, 0]]).kind).toBe('infinite');
+      expect(solveLinearSystem([[0, 1]]).kind).toBe('inconsistent');
+    });
+
+    it('rejects malformed systems', () => {
+      expect(() => solveLinearSystem([])).toThrow('Invalid system');
+      expect(() => solveLinearSystem([[1, 2, 3]])).toThrow('Invalid system');
+      expect(() => solveLinearSystem([[NaN, 1]])).toThrow('Invalid system');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import type { LinearSystemResult } from '../types';
+
+/**
+ * Largest number of equations the solver accepts
+ */
+export const MAX_SYSTEM_SIZE = 8;
+
+/**
+ * Entries smaller than this, relative to the largest entry of their row,
+ * are treated as zero during elimination
+ */
+const PIVOT_TOLERANCE = 1e-12;
+
+/**
+ * Reduce a matrix to reduced row echelon form with Gauss–Jordan elimination
+ * and scaled partial pivoting. Entries that cancel to rounding error become 0.
+ * Each row is scaled by its largest entry in the first `scaleColumns`
+ * columns, so that an equation with small coefficients is not taken for zero
+ * next to one with large coefficients, or next to a large right-hand side.
+ */
+export function reducedRowEchelon(
+  matrix: readonly (readonly number[])[],
+  scaleColumns = matrix[0]?.length ?? 0
+): number[][] {
+  const rows = matrix.map((row) => [...row]);
+  const columns = rows[0]?.length ?? 0;
+  const limits = rows.map(
+    (row) =>
+      PIVOT_TOLERANCE *
+      row.slice(0, scaleColumns).reduce((max, value) => Math.max(max, Math.abs(value)), 0)
+  );
+
+  let pivotRow = 0;
+  for (let column = 0; column < columns && pivotRow < rows.length; column++) {
+    // Use the largest entry in the column relative to its row's limit as the pivot
+    const relative = (row: number) => {
+      const value = Math.abs(rows[row][column]);
+      return value === 0 ? 0 : value / limits[row];
+    };
+    let best = pivotRow;
+    for (let row = pivotRow + 1; row < rows.length; row++) {
+      if (relative(row) > relative(best)) best = row;
+    }
+    if (relative(best) <= 1) {
+      rows.forEach((row, index) => {
+        if (index >= pivotRow) row[column] = 0;
+      });
+      continue;
+    }
+    [rows[pivotRow], rows[best]] = [rows[best], rows[pivotRow]];
+    [limits[pivotRow], limits[best]] = [limits[best], limits[pivotRow]];
+
+    const pivot = rows[pivotRow][column];
+    // Keep zeros positive so they do not display as -0
+    rows[pivotRow] = rows[pivotRow].map((value) => (value === 0 ? 0 : value / pivot));
+    rows[pivotRow][column] = 1;
+    limits[pivotRow] /= Math.abs(pivot);
+
+    rows.forEach((row, index) => {
+      if (index === pivotRow) return;
+      const factor = row[column];
+      if (factor === 0) return;
+      for (let j = column; j < columns; j++) {
+        row[j] -= factor * rows[pivotRow][j];
+        if (Math.abs(row[j]) <= limits[index]) row[j] = 0;
+      }
+      row[column] = 0;
+    });
+    pivotRow++;
+  }
+
+  return rows;
+}
+
+/**
+ * Solve the n×n linear system given by its augmented matrix [A | b], with
+ * n rows of n + 1 entries. Singular systems are reported as having
+ * infinitely many solutions or none, along with the reduced matrix.
+ */
+export function solveLinearSystem(
+  augmented: readonly (readonly number[])[]
+): LinearSystemResult {
+  const size = augmented.length;
+  if (
+    size === 0 ||
+    size > MAX_SYSTEM_SIZE ||
+    augmented.some(
+      (row) => row.length !== size + 1 || row.some((value) => !Number.isFinite(value))
+    )
+  ) {
+    throw new Error('Invalid system');
+  }
+
+  // The right-hand side b does not count towards the scale of an equation
+  const rref = reducedRowEchelon(augmented, size);
+
+  // A row reading 0 = c with c ≠ 0 means there is no solution
+  if (rref.some((row) => row.slice(0, size).every((value) => value === 0) && row[size] !== 0)) {
+    return { kind: 'inconsistent', rref };
+  }
+  if (rref.some((row, index) => row[index] !== 1)) {
+    return { kind: 'infinite', rref };
+  }
+  return { kind: 'unique', solution: rref.map((row) => row[size]) };
+}
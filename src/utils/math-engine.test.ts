@@ -2,14 +2,28 @@ import { describe, it, expect } from 'vitest';
 import {
   evaluate,
   isValidExpression,
+  isValidVariableName,
+  isAssignmentTarget,
+  compileFunction,
+  solveEquation,
+  evaluateSequence,
+  findPolynomialRoots,
+  formatPolynomialRoot,
+  formatFunctionDefinition,
   hasBalancedParentheses,
   getUnclosedParentheses,
   degreesToRadians,
   radiansToDegrees,
+  angleToRadians,
+  radiansToAngle,
   factorial,
   permutations,
   combinations,
+  MAX_SERIES_TERMS,
+  MAX_BIGNUMBER_SERIES_TERMS,
 } from './math-engine';
+import { DEFAULT_DISPLAY_FORMAT } from './format';
+import type { AngleUnit, DisplayFormat } from '../types';
 
 describe('math-engine', () => {
   describe('evaluate', () => {
@@ -119,6 +133,26 @@ describe('math-engine', () => {
           expect(result.value).toBe(0.5);
         }
       });
+
+      it('takes percentages added or subtracted relative to the value before them', () => {
+        expect(evaluate('200 + 10%')).toMatchObject({ success: true, value: 220 });
+        expect(evaluate('200 - 10%')).toMatchObject({ success: true, value: 180 });
+        const context = { variables: [{ name: 'x', value: '50' }] };
+        expect(evaluate('x%', 'rad', context)).toMatchObject({ success: true, value: 0.5 });
+      });
+
+      it('handles unicode minus, powers and roots', () => {
+        expect(evaluate('5 − 3')).toMatchObject({ success: true, value: 2 });
+        expect(evaluate('3² + 4²')).toMatchObject({ success: true, value: 25 });
+        expect(evaluate('√16 + 2√9')).toMatchObject({ success: true, value: 10 });
+      });
+
+      it('multiplies adjacent operands', () => {
+        expect(evaluate('(1 + 2)(3 + 4)')).toMatchObject({ success: true, value: 21 });
+        expect(evaluate('sin(π/2)cos(0)')).toMatchObject({ success: true, value: 1 });
+        const result = evaluate('π2');
+        expect(result.success && result.value).toBeCloseTo(2 * Math.PI, 10);
+      });
     });
 
     describe('scientific functions', () => {
@@ -165,6 +199,30 @@ describe('math-engine', () => {
         }
       });
 
+      it('evaluates logb with the base second', () => {
+        const result = evaluate('logb(8, 2)');
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toBeCloseTo(3, 10);
+        }
+      });
+
+      it('evaluates nthRoot, including odd roots of negatives', () => {
+        const result = evaluate('nthRoot(-27, 3)');
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toBe(-3);
+        }
+      });
+
+      it('evaluates floor, ceil and round', () => {
+        const result = evaluate('floor(2.5) + 10ceil(2.5) + 100round(2.5)');
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toBe(332);
+        }
+      });
+
       it('evaluates abs', () => {
         const result = evaluate('abs(-5)');
         expect(result.success).toBe(true);
@@ -256,6 +314,101 @@ describe('math-engine', () => {
           expect(result.value).toBeCloseTo(90, 10);
         }
       });
+
+      it('evaluates sec, csc and cot in degrees', () => {
+        const expectValue = (expression: string, expected: number) => {
+          const result = evaluate(expression, 'deg');
+          expect(result.success).toBe(true);
+          if (result.success) {
+            expect(result.value).toBeCloseTo(expected, 10);
+          }
+        };
+        expectValue('sec(60)', 2);
+        expectValue('csc(30)', 2);
+        expectValue('cot(45)', 1);
+      });
+
+      it('returns inverse sec, csc, cot and atan2 in degrees', () => {
+        const expectValue = (expression: string, expected: number) => {
+          const result = evaluate(expression, 'deg');
+          expect(result.success).toBe(true);
+          if (result.success) {
+            expect(result.value).toBeCloseTo(expected, 10);
+          }
+        };
+        expectValue('asec(2)', 60);
+        expectValue('acsc(2)', 30);
+        expectValue('acot(1)', 45);
+        expectValue('atan2(1, -1)', 135);
+      });
+
+      it('leaves hyperbolic functions unaffected by the angle unit', () => {
+        const expectValue = (expression: string, expected: number) => {
+          const result = evaluate(expression, 'deg');
+          expect(result.success).toBe(true);
+          if (result.success) {
+            expect(result.value).toBeCloseTo(expected, 10);
+          }
+        };
+        expectValue('sinh(1)', Math.sinh(1));
+        expectValue('cosh(1)', Math.cosh(1));
+        expectValue('tanh(1)', Math.tanh(1));
+        expectValue('asinh(1)', Math.asinh(1));
+        expectValue('acosh(2)', Math.acosh(2));
+        expectValue('atanh(0.5)', Math.atanh(0.5));
+      });
+    });
+
+    describe('trigonometric functions in gradians', () => {
+      it('evaluates sin(100) in gradians', () => {
+        const result = evaluate('sin(100)', 'grad');
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toBeCloseTo(1, 10);
+        }
+      });
+
+      it('evaluates cos(200) and cot(50) in gradians', () => {
+        const cos = evaluate('cos(200)', 'grad');
+        expect(cos.success).toBe(true);
+        if (cos.success) {
+          expect(cos.value).toBeCloseTo(-1, 10);
+        }
+        const cot = evaluate('cot(50)', 'grad');
+        expect(cot.success).toBe(true);
+        if (cot.success) {
+          expect(cot.value).toBeCloseTo(1, 10);
+        }
+      });
+
+      it('returns inverse trig results in gradians', () => {
+        const result = evaluate('atan(1)', 'grad');
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toBeCloseTo(50, 10);
+        }
+      });
+
+      it('keeps precision in high-precision mode', () => {
+        const result = evaluate('acos(0)', 'grad', { numberMode: 'bignumber' });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.displayValue).toBe('100');
+        }
+      });
+
+      it('formats and parses polar angles in gradians', () => {
+        const polar = evaluate('1 + i', 'grad', { complexMode: 'polar' });
+        expect(polar.success).toBe(true);
+        if (polar.success) {
+          expect(polar.displayValue).toBe('1.41421356237∠50ᵍ');
+        }
+        const rectangular = evaluate('2∠100ᵍ', 'grad', { complexMode: 'rectangular' });
+        expect(rectangular.success).toBe(true);
+        if (rectangular.success) {
+          expect(rectangular.displayValue).toBe('2i');
+        }
+      });
     });
 
     describe('error handling', () => {
@@ -323,6 +476,1506 @@ describe('math-engine', () => {
     });
   });
 
+  describe('user variables', () => {
+    const variables = [
+      { name: 'r', value: '4.5' },
+      { name: 'rate2', value: '0.25' },
+    ];
+
+    it('reads stored variables', () => {
+      const result = evaluate('π r^2', 'rad', { variables });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBeCloseTo(Math.PI * 4.5 ** 2, 10);
+      }
+    });
+
+    it('handles implicit multiplication with variables', () => {
+      const result = evaluate('2r', 'rad', { variables });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(9);
+      }
+    });
+
+    it('does not split digits inside variable names', () => {
+      const result = evaluate('rate2 * 4', 'rad', { variables });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(1);
+      }
+    });
+
+    it('keeps exponent notation intact', () => {
+      const result = evaluate('1e3 + 2.5e-1');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(1000.25);
+      }
+    });
+
+    it('returns the assigned variable', () => {
+      const result = evaluate('r = 4.5');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(4.5);
+        expect(result.assignedVariable).toEqual({ name: 'r', value: '4.5' });
+      }
+    });
+
+    it('evaluates assignments that reference existing variables', () => {
+      const result = evaluate('d = 2r', 'rad', { variables });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.assignedVariable).toEqual({ name: 'd', value: '9' });
+      }
+    });
+
+    it('rejects assignment to reserved names', () => {
+      expect(evaluate('pi = 3').success).toBe(false);
+      expect(evaluate('sin = 1').success).toBe(false);
+      expect(evaluate('ln = 1').success).toBe(false);
+    });
+
+    it('reports undefined variables', () => {
+      const result = evaluate('q + 1');
+      expect(result.success).toBe(false);
+    });
+
+    it('validates variable names', () => {
+      expect(isValidVariableName('r')).toBe(true);
+      expect(isValidVariableName('my_var2')).toBe(true);
+      expect(isValidVariableName('2r')).toBe(false);
+      expect(isValidVariableName('e')).toBe(false);
+    });
+
+    it('detects assignment targets', () => {
+      expect(isAssignmentTarget('r')).toBe(true);
+      expect(isAssignmentTarget(' rate ')).toBe(true);
+      expect(isAssignmentTarget('2 + r')).toBe(false);
+      expect(isAssignmentTarget('[A]')).toBe(true);
+      expect(isAssignmentTarget('')).toBe(false);
+    });
+  });
+
+  describe('user functions', () => {
+    const functions = [
+      { name: 'f', params: ['x'], body: 'x^2 - 3x' },
+      { name: 'g', params: ['x'], body: 'ln(x) + f(x)' },
+      { name: 'area', params: ['w', 'h'], body: 'w h' },
+    ];
+
+    it('returns the defined function with the body as typed', () => {
+      const result = evaluate('f(x) = x^2 - 3x');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.assignedFunction).toEqual({
+          name: 'f',
+          params: ['x'],
+          body: 'x^2 - 3x',
+        });
+        expect(result.displayValue).toBe('f(x) = x^2 - 3x');
+      }
+    });
+
+    it('calls stored functions', () => {
+      const result = evaluate('f(2)', 'rad', { functions });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(-2);
+      }
+    });
+
+    it('applies calculator syntax inside function bodies', () => {
+      const result = evaluate('g(e)', 'rad', { functions });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBeCloseTo(1 + Math.E ** 2 - 3 * Math.E, 10);
+      }
+    });
+
+    it('supports multiple parameters', () => {
+      const result = evaluate('area(3, 4)', 'rad', { functions });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(12);
+      }
+    });
+
+    it('resolves user variables inside function bodies', () => {
+      const result = evaluate('h(2)', 'rad', {
+        variables: [{ name: 'k', value: '10' }],
+        functions: [{ name: 'h', params: ['x'], body: 'k x' }],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(20);
+      }
+    });
+
+    it('rejects reserved function names', () => {
+      expect(evaluate('sin(x) = x').success).toBe(false);
+    });
+
+    it('reports runaway recursion as an error', () => {
+      const result = evaluate('r(1)', 'rad', {
+        functions: [{ name: 'r', params: ['x'], body: 'r(x) + 1' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('formats function definitions', () => {
+      expect(formatFunctionDefinition(functions[2])).toBe('area(w, h) = w h');
+    });
+
+    it('detects function heads as assignment targets', () => {
+      expect(isAssignmentTarget('f(x)')).toBe(true);
+      expect(isAssignmentTarget('g(x, y)')).toBe(true);
+      expect(isAssignmentTarget('f(2)')).toBe(false);
+    });
+  });
+
+  describe('fraction mode', () => {
+    const fraction = { numberMode: 'fraction' as const };
+
+    it('adds fractions exactly', () => {
+      const result = evaluate('1/3 + 1/6', 'rad', fraction);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('1/2');
+        expect(result.value).toBe(0.5);
+        expect(result.alternateDisplayValue).toBe('0.5');
+      }
+    });
+
+    it('avoids binary floating point error', () => {
+      const result = evaluate('0.1 + 0.2', 'rad', fraction);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('3/10');
+      }
+    });
+
+    it('shows whole numbers without a denominator', () => {
+      const result = evaluate('1/3 * 3', 'rad', fraction);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('1');
+        expect(result.alternateDisplayValue).toBeUndefined();
+      }
+    });
+
+    it('keeps negative fractions', () => {
+      const result = evaluate('-3/4', 'rad', fraction);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('-3/4');
+      }
+    });
+
+    it('shows mixed numbers when asked', () => {
+      const displayFormat = { ...DEFAULT_DISPLAY_FORMAT, mixedFractions: true };
+      expect(evaluate('7/2', 'rad', { ...fraction, displayFormat })).toMatchObject({
+        displayValue: '3 1/2',
+      });
+      expect(evaluate('-7/2', 'rad', { ...fraction, displayFormat })).toMatchObject({
+        displayValue: '-3 1/2',
+      });
+      expect(evaluate('1/2', 'rad', { ...fraction, displayFormat })).toMatchObject({
+        displayValue: '1/2',
+      });
+    });
+
+    it('reads mixed numbers back in while results are shown as them', () => {
+      const displayFormat = { ...DEFAULT_DISPLAY_FORMAT, mixedFractions: true };
+      expect(evaluate('3 1/2 * 2', 'rad', { ...fraction, displayFormat })).toMatchObject({
+        displayValue: '7',
+      });
+      expect(evaluate('3 1/2', 'rad', { displayFormat })).toMatchObject({ value: 3.5 });
+    });
+
+    it('does not read mixed numbers otherwise', () => {
+      expect(evaluate('3 1/2 * 2', 'rad', fraction)).toMatchObject({ success: false });
+      expect(evaluate('3 1/2')).toMatchObject({ success: false });
+    });
+
+    it('falls back to decimals for irrational results', () => {
+      const result = evaluate('sqrt(2)', 'rad', fraction);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBeCloseTo(Math.SQRT2, 10);
+        expect(result.alternateDisplayValue).toBeUndefined();
+      }
+    });
+
+    it('keeps stored fraction variables exact', () => {
+      const result = evaluate('third * 3', 'rad', {
+        ...fraction,
+        variables: [{ name: 'third', value: '1/3' }],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('1');
+      }
+    });
+
+    it('still reports syntax errors', () => {
+      expect(evaluate('1/3 +', 'rad', fraction).success).toBe(false);
+    });
+
+    it('uses decimals outside fraction mode', () => {
+      const result = evaluate('1/4');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('0.25');
+        expect(result.alternateDisplayValue).toBeUndefined();
+      }
+    });
+  });
+
+  describe('high-precision mode', () => {
+    const bignumber = { numberMode: 'bignumber' as const };
+
+    it('shows every digit of large integers', () => {
+      const result = evaluate('2^100', 'rad', bignumber);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('1267650600228229401496703205376');
+        expect(result.value).toBe('1.267650600228229401496703205376e+30');
+      }
+    });
+
+    it('computes large factorials exactly with enough digits', () => {
+      const result = evaluate('factorial(50)', 'rad', {
+        ...bignumber,
+        bigNumberPrecision: 128,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe(
+          '30414093201713378043612608166064768844377641568960512000000000000'
+        );
+      }
+    });
+
+    it('adds decimals without binary rounding error', () => {
+      const result = evaluate('0.1 + 0.2', 'rad', bignumber);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('0.3');
+      }
+    });
+
+    it('uses the configured number of significant digits', () => {
+      const result32 = evaluate('1/3', 'rad', bignumber);
+      const result64 = evaluate('1/3', 'rad', { ...bignumber, bigNumberPrecision: 64 });
+      expect(result32.success && result64.success).toBe(true);
+      if (result32.success && result64.success) {
+        expect(result32.displayValue).toBe('0.' + '3'.repeat(32));
+        expect(result64.displayValue).toBe('0.' + '3'.repeat(64));
+      }
+    });
+
+    it('switches to exponential notation beyond the digit count', () => {
+      const result = evaluate('10^40 + 1', 'rad', bignumber);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('1e+40');
+      }
+    });
+
+    it('round-trips the displayed value as ANS', () => {
+      const first = evaluate('2^100', 'rad', bignumber);
+      expect(first.success).toBe(true);
+      if (first.success) {
+        const second = evaluate(`${first.displayValue} + 1`, 'rad', bignumber);
+        expect(second.success).toBe(true);
+        if (second.success) {
+          expect(second.displayValue).toBe('1267650600228229401496703205377');
+        }
+      }
+    });
+
+    it('applies degree mode to trig functions', () => {
+      const result = evaluate('sin(30)', 'deg', bignumber);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('0.5');
+      }
+    });
+
+    it('returns degrees from inverse trig functions', () => {
+      const result = evaluate('atan(1)', 'deg', bignumber);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('45');
+      }
+    });
+  });
+
+  describe('complex numbers', () => {
+    const rectangular = { complexMode: 'rectangular' as const };
+    const polar = { complexMode: 'polar' as const };
+
+    it('reports complex results in real mode', () => {
+      const result = evaluate('sqrt(-4)');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('Complex result');
+      }
+    });
+
+    it('still reports syntax errors in real mode', () => {
+      const result = evaluate('sqrt(-4');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).not.toBe('Complex result');
+      }
+    });
+
+    it('returns real results from complex arithmetic in real mode', () => {
+      const result = evaluate('(1+i)(1-i)');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(2);
+      }
+    });
+
+    it('evaluates square roots of negative numbers', () => {
+      const result = evaluate('sqrt(-4)', 'rad', rectangular);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('2i');
+      }
+    });
+
+    it('formats rectangular results', () => {
+      const result = evaluate('3 + 4i', 'rad', rectangular);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('3 + 4i');
+      }
+      const conjugate = evaluate('conj(3 + 4i)', 'rad', rectangular);
+      expect(conjugate.success).toBe(true);
+      if (conjugate.success) {
+        expect(conjugate.displayValue).toBe('3 - 4i');
+      }
+    });
+
+    it('drops rounding noise in complex parts', () => {
+      const result = evaluate('e^(i π)', 'rad', rectangular);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(-1);
+      }
+    });
+
+    it('evaluates re, im and abs', () => {
+      const expectValue = (expression: string, expected: number) => {
+        const result = evaluate(expression, 'rad', rectangular);
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toBe(expected);
+        }
+      };
+      expectValue('re(3 + 4i)', 3);
+      expectValue('im(3 + 4i)', 4);
+      expectValue('abs(3 + 4i)', 5);
+    });
+
+    it('returns arg in the current angle unit', () => {
+      const result = evaluate('arg(1 + i)', 'deg', rectangular);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBeCloseTo(45, 10);
+      }
+    });
+
+    it('formats polar results in degrees', () => {
+      const result = evaluate('1 + i', 'deg', polar);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('1.41421356237∠45°');
+        expect(result.value).toBe('1 + i');
+      }
+    });
+
+    it('formats polar results in radians', () => {
+      const result = evaluate('2i', 'rad', polar);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('2∠1.57079632679');
+      }
+    });
+
+    it('parses polar notation back into a complex number', () => {
+      const result = evaluate('2∠90°', 'deg', rectangular);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('2i');
+      }
+    });
+  });
+
+  describe('units', () => {
+    const expectDisplay = (expression: string, expected: string, context = {}) => {
+      const result = evaluate(expression, 'rad', context);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe(expected);
+      }
+    };
+
+    it('converts between units', () => {
+      expectDisplay('36 km/h to m/s', '10 m / s');
+      expectDisplay('3 ft + 20 cm in inches', '43.874015748 inches');
+    });
+
+    it('keeps units in the result value', () => {
+      const result = evaluate('5km + 300m');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe('5.3 km');
+      }
+    });
+
+    it('does not split numbers before conversion keywords', () => {
+      expectDisplay('10 m^2 to ft^2', '107.639104167 ft^2');
+      expectDisplay('5in to cm', '12.7 cm');
+      expectDisplay('2 in in cm', '5.08 cm');
+    });
+
+    it('keeps unit names that sound like constants', () => {
+      expectDisplay('5 coulomb to C', '5 C');
+    });
+
+    it('reads min as minutes unless called', () => {
+      expectDisplay('2 h to min', '120 minute');
+      expectDisplay('min(3, 4)', '3');
+    });
+
+    it('formats large unit values without exponent noise', () => {
+      expectDisplay('1 kWh to J', '3600000 J');
+    });
+
+    it('simplifies derived units', () => {
+      expectDisplay('2 kg * 9.81 m/s^2', '19.62 N');
+    });
+
+    it('shows decimals for units in fraction mode', () => {
+      expectDisplay('1 lb to kg', '0.45359237 kg', { numberMode: 'fraction' });
+    });
+
+    it('reports mismatched units', () => {
+      const result = evaluate('1 km to kg');
+      expect(result.success).toBe(false);
+    });
+
+    it('stores unit values in variables', () => {
+      const result = evaluate('d = 5 km');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.assignedVariable).toEqual({ name: 'd', value: '5 km' });
+      }
+    });
+  });
+
+  describe('display format', () => {
+    const fixed: DisplayFormat = { ...DEFAULT_DISPLAY_FORMAT, notation: 'fixed', digits: 3 };
+    const engineering: DisplayFormat = {
+      ...DEFAULT_DISPLAY_FORMAT,
+      notation: 'engineering',
+      digits: 4,
+    };
+
+    it('formats results with the display notation', () => {
+      const result = evaluate('1/3', 'rad', { displayFormat: fixed });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('0.333');
+      }
+    });
+
+    it('formats BigNumber and complex results with the display notation', () => {
+      const big = evaluate('2^100', 'rad', { numberMode: 'bignumber', displayFormat: engineering });
+      const complex = evaluate('sqrt(-2)', 'rad', {
+        complexMode: 'rectangular',
+        displayFormat: fixed,
+      });
+      expect(big.success && big.displayValue).toBe('1.268e+30');
+      expect(complex.success && complex.displayValue).toBe('1.414i');
+    });
+
+    it('keeps formatted results parseable', () => {
+      const result = evaluate('12345', 'rad', { displayFormat: engineering });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('12.35e+3');
+        const again = evaluate(result.displayValue);
+        expect(again.success && again.displayValue).toBe('12350');
+      }
+    });
+  });
+
+  describe('derivatives', () => {
+    const expectSymbolic = (
+      expression: string,
+      expected: string,
+      angleUnit: AngleUnit = 'rad',
+      context = {}
+    ) => {
+      const result = evaluate(expression, angleUnit, context);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe(expected);
+        expect(result.symbolic).toBe(true);
+      }
+    };
+
+    it('differentiates symbolically', () => {
+      expectSymbolic('derivative(x^3, x)', '3x^2');
+      expectSymbolic('d/dx(x^2 sin(x))', '2x * sin(x) + x^2 * cos(x)');
+      expectSymbolic('d/dt(t^2 + 3t)', '2t + 3');
+    });
+
+    it('accepts Leibniz notation typed with the divide key', () => {
+      expectSymbolic('d ÷ dx(x^2) + 1', '2x + 1');
+    });
+
+    it('evaluates the derivative at a point', () => {
+      const result = evaluate('d/dx(x^3, 2)');
+      expect(result.success && result.displayValue).toBe('12');
+      expect(result.success && result.symbolic).toBeFalsy();
+      expect(evaluate('derivative(x^3, x, 2) + 1').success).toBe(true);
+    });
+
+    it('returns a number when the derivative is constant', () => {
+      const result = evaluate('d/dx(3x)');
+      expect(result.success && result.displayValue).toBe('3');
+    });
+
+    it('takes higher derivatives', () => {
+      expectSymbolic('d/dx(d/dx(x^3))', '6x');
+    });
+
+    it('treats the variable as free even when a user variable has its name', () => {
+      expectSymbolic('d/dx(x^2)', '2x', 'rad', { variables: [{ name: 'x', value: '3' }] });
+    });
+
+    it('differentiates user functions', () => {
+      const functions = [{ name: 'f', params: ['x'], body: 'x^2 - 3x' }];
+      expectSymbolic('d/dx(f(x))', '2x - 3', 'rad', { functions });
+      const result = evaluate('d/dx(f(2x), 1)', 'rad', { functions });
+      expect(result.success && result.displayValue).toBe('2');
+    });
+
+    it('follows the angle unit for trig functions', () => {
+      expectSymbolic('d/dx(sin(x))', 'pi * cos(x) / 180', 'deg');
+      const result = evaluate('d/dx(sin(x), 60)', 'deg');
+      expect(result.success && Number(result.value)).toBeCloseTo((Math.PI / 180) * 0.5, 10);
+      const inverse = evaluate('d/dx(asin(x), 0)', 'grad');
+      expect(inverse.success && Number(inverse.value)).toBeCloseTo(200 / Math.PI, 10);
+    });
+
+    it('works in fraction and BigNumber modes', () => {
+      const fraction = evaluate('d/dx(x^3, 1/2)', 'rad', { numberMode: 'fraction' });
+      expect(fraction.success && fraction.displayValue).toBe('3/4');
+      const big = evaluate('d/dx(x^3, 2)', 'rad', { numberMode: 'bignumber' });
+      expect(big.success && big.displayValue).toBe('12');
+    });
+
+    it('reports expressions it cannot differentiate', () => {
+      expect(evaluate('derivative(x)')).toEqual({
+        success: false,
+        error: 'Invalid derivative',
+        kind: 'domain',
+      });
+      expect(evaluate('d/dx(atan2(x, 1))')).toEqual({
+        success: false,
+        error: 'Cannot differentiate',
+        kind: 'domain',
+      });
+    });
+
+    it('can be graphed', () => {
+      const fn = compileFunction('d/dx(x^3)', 'x');
+      expect(fn(2)).toBe(12);
+    });
+  });
+
+  describe('simplify, expand and factor', () => {
+    const expectSymbolic = (expression: string, expected: string, context = {}) => {
+      const result = evaluate(expression, 'rad', context);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe(expected);
+        expect(result.symbolic).toBe(true);
+      }
+    };
+
+    it('simplifies expressions', () => {
+      expectSymbolic('simplify(x + x + 2x*3)', '8x');
+    });
+
+    it('returns a number when nothing is left symbolic', () => {
+      const result = evaluate('simplify(2 + 3)');
+      expect(result.success && result.displayValue).toBe('5');
+    });
+
+    it('expands products and powers', () => {
+      expectSymbolic('expand((x+1)^3)', 'x^3 + 3x^2 + 3x + 1');
+      expectSymbolic('expand((2x - 1)(x + 3))', '2x^2 + 5x - 3');
+    });
+
+    it('collects like terms in several variables', () => {
+      expectSymbolic('expand((x + y)^2)', 'x^2 + 2x * y + y^2');
+    });
+
+    it('factors polynomials', () => {
+      expectSymbolic('factor(x^3 - x)', 'x * (x - 1) * (x + 1)');
+      expectSymbolic('factor(2x^2 + 4x + 2)', '2(x + 1)^2');
+      expectSymbolic('factor(x^2/2 - 1/2)', '(x - 1) * (x + 1) / 2');
+    });
+
+    it('keeps variables symbolic even when a user variable has the name', () => {
+      expectSymbolic('expand((x + 1)^2)', 'x^2 + 2x + 1', {
+        variables: [{ name: 'x', value: '3' }],
+      });
+    });
+
+    it('expands user functions', () => {
+      expectSymbolic('expand(f(x + 1))', 'x^2 + 2x + 1', {
+        functions: [{ name: 'f', params: ['x'], body: 'x^2' }],
+      });
+    });
+
+    it('writes fractions so the result can be reused', () => {
+      expectSymbolic('expand((x/2 + 1)^2)', '(1/4) * x^2 + x + 1', { numberMode: 'fraction' });
+      const result = evaluate('expand((x/2 + 1)^2)', 'rad', { numberMode: 'fraction' });
+      expect(result.success && evaluate(`d/dx(${result.value}, 2)`).success).toBe(true);
+    });
+
+    it('reports expressions it cannot rewrite', () => {
+      expect(evaluate('expand(sin(x)^2)')).toEqual({
+        success: false,
+        error: 'Cannot expand',
+        kind: 'domain',
+      });
+      expect(evaluate('factor(x y)')).toEqual({
+        success: false,
+        error: 'Cannot factor',
+        kind: 'domain',
+      });
+      expect(evaluate('factor(x, 2)')).toEqual({
+        success: false,
+        error: 'Invalid factor',
+        kind: 'domain',
+      });
+    });
+  });
+
+  describe('integration', () => {
+    const expectIntegral = (
+      expression: string,
+      expected: number,
+      angleUnit: AngleUnit = 'rad',
+      context = {}
+    ) => {
+      const result = evaluate(expression, angleUnit, context);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(Number(result.value)).toBeCloseTo(expected, 9);
+      }
+    };
+
+    it('integrates a function of the given variable', () => {
+      expectIntegral('integrate(x^2, x, 0, 3)', 9);
+      expectIntegral('integrate(t e^t, t, 0, 1)', 1);
+    });
+
+    it('accepts the integral sign and infinite limits', () => {
+      expectIntegral('∫(e^(-x), x, 0, ∞)', 1);
+      expectIntegral('∫(1/(1 + x^2), x, -Infinity, Infinity)', Math.PI);
+    });
+
+    it('applies the angle unit to the integrand', () => {
+      expectIntegral('∫(sin(x), x, 0, 180)', 360 / Math.PI, 'deg');
+    });
+
+    it('uses user variables and functions', () => {
+      expectIntegral('integrate(f(x), x, 0, a)', 4, 'rad', {
+        variables: [{ name: 'a', value: '2' }],
+        functions: [{ name: 'f', params: ['x'], body: 'x^3' }],
+      });
+    });
+
+    it('integrates derivatives', () => {
+      expectIntegral('integrate(d/dx(x^3), x, 0, 2)', 8);
+    });
+
+    it('reports an error estimate', () => {
+      const result = evaluate('integrate(cos(x), x, 0, 1) + integrate(x, x, 0, 1)');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.errorEstimate).toBeGreaterThanOrEqual(0);
+        expect(result.errorEstimate).toBeLessThan(1e-9);
+      }
+      const plain = evaluate('2 + 2');
+      expect(plain.success && plain.errorEstimate).toBeUndefined();
+    });
+
+    it('falls back to decimal in fraction mode', () => {
+      expectIntegral('integrate(x^2, x, 0, 1)', 1 / 3, 'rad', { numberMode: 'fraction' });
+    });
+
+    it('keeps high precision results as big numbers', () => {
+      expectIntegral('integrate(x^2, x, 0, 1)', 1 / 3, 'rad', { numberMode: 'bignumber' });
+    });
+
+    it('shows only the digits a double carries in high precision', () => {
+      const result = evaluate('integrate(x^2, x, 0, 1)', 'rad', { numberMode: 'bignumber' });
+      expect(result).toMatchObject({ displayValue: '0.333333333333333' });
+    });
+
+    it('reports integrals it cannot take', () => {
+      expect(evaluate('integrate(x^2, x, 0)')).toEqual({
+        success: false,
+        error: 'Invalid integral',
+        kind: 'domain',
+      });
+      expect(evaluate('integrate(x^2, 2, 0, 1)')).toEqual({
+        success: false,
+        error: 'Invalid integral',
+        kind: 'domain',
+      });
+      expect(evaluate('integrate(1/x, x, 0, 1)')).toEqual({
+        success: false,
+        error: 'Integral did not converge',
+        kind: 'domain',
+      });
+      expect(evaluate('integrate(sqrt(x), x, -1, 1)')).toEqual({
+        success: false,
+        error: 'Integrand is not real',
+        kind: 'domain',
+      });
+    });
+
+    it('can be graphed as a function of its upper limit', () => {
+      const fn = compileFunction('∫(2t, t, 0, x)', 'x');
+      expect(fn(3)).toBeCloseTo(9, 10);
+    });
+  });
+
+  describe('sums and products', () => {
+    it('adds and multiplies the terms of a range', () => {
+      expect(evaluate('Σ(k^2, k, 1, 10)')).toMatchObject({ success: true, displayValue: '385' });
+      expect(evaluate('Π(k, k, 1, 5)')).toMatchObject({ success: true, displayValue: '120' });
+      expect(evaluate('summation(2^n, n, 0, 9)')).toMatchObject({ displayValue: '1023' });
+      expect(evaluate('product(1 + 1/n, n, 1, 9)')).toMatchObject({ displayValue: '10' });
+    });
+
+    it('binds the index so it does not clash with stored variables', () => {
+      const result = evaluate('k + Σ(k, k, 1, 3)', 'rad', {
+        variables: [{ name: 'k', value: '100' }],
+      });
+      expect(result).toMatchObject({ success: true, displayValue: '106' });
+    });
+
+    it('nests and uses user functions', () => {
+      expect(evaluate('Σ(Σ(j k, j, 1, k), k, 1, 3)')).toMatchObject({ displayValue: '25' });
+      expect(
+        evaluate('2Σ(f(k), k, 1, 3)', 'rad', {
+          functions: [{ name: 'f', params: ['x'], body: 'x^2' }],
+        })
+      ).toMatchObject({ displayValue: '28' });
+    });
+
+    it('treats empty ranges as the identity', () => {
+      expect(evaluate('Σ(k, k, 5, 1)')).toMatchObject({ displayValue: '0' });
+      expect(evaluate('Π(k, k, 5, 1)')).toMatchObject({ displayValue: '1' });
+    });
+
+    it('keeps terms exact in fraction mode', () => {
+      const result = evaluate('Σ(1/k, k, 1, 10)', 'rad', { numberMode: 'fraction' });
+      expect(result).toMatchObject({ success: true, displayValue: '7381/2520' });
+    });
+
+    it('refuses ranges that are too long to evaluate', () => {
+      const tooMany = { success: false, error: 'Too many terms', kind: 'overflow' };
+      expect(evaluate(`Σ(k, k, 1, ${MAX_SERIES_TERMS + 1})`)).toEqual(tooMany);
+      expect(evaluate('Σ(k, k, 1, ∞)')).toEqual(tooMany);
+      expect(evaluate(`Σ(k, k, 1, ${MAX_SERIES_TERMS})`)).toMatchObject({ success: true });
+    });
+
+    it('counts the terms of nested sums against one budget', () => {
+      const tooMany = { success: false, error: 'Too many terms', kind: 'overflow' };
+      expect(evaluate('Σ(Σ(j, j, 1, 99999), k, 1, 99999)')).toEqual(tooMany);
+      expect(evaluate('Σ(k, k, 1, 60000) + Σ(k, k, 1, 60000)')).toEqual(tooMany);
+      expect(evaluate('Σ(Σ(j, j, 1, k), k, 1, 100)')).toMatchObject({ displayValue: '171700' });
+    });
+
+    it('allows fewer terms in high-precision mode', () => {
+      const bigNumber = { numberMode: 'bignumber' as const };
+      expect(evaluate(`Σ(k, k, 1, ${MAX_BIGNUMBER_SERIES_TERMS + 1})`, 'rad', bigNumber)).toEqual({
+        success: false,
+        error: 'Too many terms',
+        kind: 'overflow',
+      });
+      expect(evaluate(`Σ(k, k, 1, ${MAX_BIGNUMBER_SERIES_TERMS})`, 'rad', bigNumber)).toMatchObject({
+        success: true,
+      });
+    });
+
+    it('reports invalid bounds and arguments', () => {
+      expect(evaluate('Σ(k, k, 1.5, 3)')).toEqual({
+        success: false,
+        error: 'Bounds must be integers',
+        kind: 'domain',
+      });
+      expect(evaluate('Σ(k, 1, 3)')).toEqual({
+        success: false,
+        error: 'Invalid sum',
+        kind: 'domain',
+      });
+      expect(evaluate('Π(k, 2, 1, 3)')).toEqual({
+        success: false,
+        error: 'Invalid product',
+        kind: 'domain',
+      });
+    });
+  });
+
+  describe('solving equations', () => {
+    it('solves an equation inside an expression', () => {
+      const result = evaluate('solve(x^3 - 2x = 5, x, 2)');
+      expect(result.success && Number(result.value)).toBeCloseTo(2.0945514815423265, 12);
+      expect(evaluate('solve(x^2 = 4, x, -10, 10) + 1')).toMatchObject({ displayValue: '-1' });
+      expect(evaluate('solve(t^2 - 9, t, 1)')).toMatchObject({ displayValue: '3' });
+    });
+
+    it('can assign a root to a variable', () => {
+      const result = evaluate('r = solve(cos(x) = x, x, 1)');
+      expect(result.success && result.assignedVariable?.name).toBe('r');
+    });
+
+    it('applies the angle unit to the equation', () => {
+      expect(evaluate('solve(sin(x) = 0.5, x, 0, 90)', 'deg')).toMatchObject({
+        displayValue: '30',
+      });
+    });
+
+    it('falls back to decimal in fraction mode', () => {
+      expect(evaluate('solve(x^2 = 2, x, 1)', 'rad', { numberMode: 'fraction' })).toMatchObject({
+        displayValue: '1.41421356237',
+      });
+    });
+
+    it('shows only the digits a double carries in high precision', () => {
+      expect(evaluate('solve(x^2 = 2, x, 1)', 'rad', { numberMode: 'bignumber' })).toMatchObject({
+        displayValue: '1.41421356237309',
+      });
+    });
+
+    it('reports equations it cannot solve', () => {
+      expect(evaluate('solve(x^2 = -4, x, 1)')).toEqual({
+        success: false,
+        error: 'No root found',
+        kind: 'domain',
+      });
+      expect(evaluate('solve(x^2 = -4, x, 0, 5)')).toEqual({
+        success: false,
+        error: 'No root in interval',
+        kind: 'domain',
+      });
+      expect(evaluate('solve(x^2 = 4, x)')).toEqual({
+        success: false,
+        error: 'Invalid equation',
+        kind: 'domain',
+      });
+      expect(evaluate('solve(x > 2, x, 1)')).toEqual({
+        success: false,
+        error: 'Invalid equation',
+        kind: 'domain',
+      });
+    });
+
+    describe('solveEquation', () => {
+      it('lists every root in an interval', () => {
+        expect(solveEquation('x^2 = 4', 'x', { min: -10, max: 10 })).toEqual({
+          success: true,
+          roots: [-2, 2],
+        });
+        expect(solveEquation('sin(x) = 0.5', 'x', { min: 0, max: 360 }, 'deg')).toEqual({
+          success: true,
+          roots: [30, 150],
+        });
+      });
+
+      it('finds the root nearest a guess', () => {
+        const result = solveEquation('x^2 = 2', 'x', { guess: -1 });
+        expect(result.success && result.roots[0]).toBeCloseTo(-Math.SQRT2, 12);
+      });
+
+      it('treats an expression without = as equal to zero', () => {
+        const context = {
+          variables: [{ name: 'a', value: '9' }],
+          functions: [{ name: 'f', params: ['x'], body: 'x^2' }],
+        };
+        expect(solveEquation('f(x) - a', 'x', { min: 0, max: 5 }, 'rad', context)).toEqual({
+          success: true,
+          roots: [3],
+        });
+      });
+
+      it('reports when no root is found', () => {
+        expect(solveEquation('x^2 = -1', 'x', { min: -10, max: 10 })).toEqual({
+          success: false,
+          error: 'No root in interval',
+        });
+        expect(solveEquation('x^2 = -1', 'x', { guess: 0 })).toEqual({
+          success: false,
+          error: 'No root found',
+        });
+      });
+
+      it('accepts == as the equation sign', () => {
+        expect(solveEquation('x == 2', 'x', { guess: 1 })).toEqual({
+          success: true,
+          roots: [2],
+        });
+      });
+
+      it('rejects invalid equations', () => {
+        expect(solveEquation('x < 2', 'x', { guess: 1 })).toEqual({
+          success: false,
+          error: 'Invalid equation',
+        });
+        expect(solveEquation('x <= 2', 'x', { min: 0, max: 5 })).toEqual({
+          success: false,
+          error: 'Invalid equation',
+        });
+        expect(solveEquation('x = 1 = 2', 'x', { guess: 0 })).toEqual({
+          success: false,
+          error: 'Invalid equation',
+        });
+        expect(solveEquation('x^2 =', 'x', { guess: 0 })).toEqual({
+          success: false,
+          error: 'Empty expression',
+        });
+      });
+    });
+  });
+
+  describe('sequences', () => {
+    const values = (result: ReturnType<typeof evaluateSequence>) =>
+      result.success ? result.terms.map((term) => term.value) : result.error;
+
+    it('lists the terms of an explicit definition', () => {
+      const result = evaluateSequence('u(n) = 2^n', '', 0, 5);
+      expect(result).toMatchObject({ success: true, name: 'u', variable: 'n' });
+      expect(values(result)).toEqual([1, 2, 4, 8, 16]);
+    });
+
+    it('follows a recurrence from its initial terms', () => {
+      const result = evaluateSequence('u(n) = u(n-1) + u(n-2)', '1, 1', 1, 8);
+      expect(values(result)).toEqual([1, 1, 2, 3, 5, 8, 13, 21]);
+      expect(result.success && result.terms[7].partialSum).toBe(54);
+    });
+
+    it('accepts any name and index with expressions as initial terms', () => {
+      expect(values(evaluateSequence('a(k) = a(k-1) / 2', 'sqrt(4) - 1', 0, 3))).toEqual([
+        1, 0.5, 0.25,
+      ]);
+    });
+
+    it('uses variables, functions and the angle unit', () => {
+      const context = {
+        variables: [{ name: 'r', value: '3' }],
+        functions: [{ name: 'f', params: ['x'], body: 'x + 1' }],
+      };
+      expect(values(evaluateSequence('u(n) = f(u(n-1)) r', '0', 1, 3, 'rad', context))).toEqual([
+        0, 3, 12,
+      ]);
+      const sines = evaluateSequence('u(n) = sin(90n)', '', 1, 2, 'deg');
+      expect(sines.success && sines.terms[0].value).toBeCloseTo(1, 12);
+    });
+
+    it('reports terms the recurrence refers to before they exist', () => {
+      expect(values(evaluateSequence('u(n) = u(n-1) + u(n-2)', '1', 1, 3))).toBe(
+        'u(0) is not defined'
+      );
+      expect(values(evaluateSequence('u(n) = u(n)', '', 1, 3))).toBe('u(1) is not defined');
+    });
+
+    it('reports invalid definitions and ranges', () => {
+      const invalid = 'Define the sequence as u(n) = ...';
+      expect(values(evaluateSequence('2^n', '', 1, 3))).toBe(invalid);
+      expect(values(evaluateSequence('u(n) =', '', 1, 3))).toBe(invalid);
+      expect(values(evaluateSequence('sin(n) = n', '', 1, 3))).toBe(invalid);
+      expect(values(evaluateSequence('n(n) = n', '', 1, 3))).toBe(invalid);
+      expect(values(evaluateSequence('u(n) = n', 'foo', 1, 3))).toBe('Invalid initial term');
+      expect(values(evaluateSequence('u(n) = n', '', 1.5, 3))).toBe('Invalid range');
+      expect(values(evaluateSequence('u(n) = n', '', 1, 0))).toBe('Invalid range');
+      expect(values(evaluateSequence('u(n) = n', '', 1, 100000))).toBe('Too many terms');
+    });
+  });
+
+  describe('polynomial roots', () => {
+    it('finds the roots of a polynomial expression', () => {
+      expect(findPolynomialRoots('(x - 1)^2 (x + 2)')).toEqual({
+        success: true,
+        polynomial: 'x^3 - 3 x + 2',
+        roots: [
+          { re: -2, im: 0, multiplicity: 1 },
+          { re: 1, im: 0, multiplicity: 2 },
+        ],
+      });
+    });
+
+    it('accepts equations and other variable names', () => {
+      const result = findPolynomialRoots('t^2 = -4');
+      expect(result.success && result.polynomial).toBe('x^2 + 4');
+      expect(result.success && result.roots.map((root) => formatPolynomialRoot(root))).toEqual([
+        '2i',
+        '-2i',
+      ]);
+    });
+
+    it('accepts coefficients from the highest power down', () => {
+      const result = findPolynomialRoots('1, 0, -2, -5');
+      expect(result.success && result.roots.map((root) => formatPolynomialRoot(root))).toEqual([
+        '2.09455148154',
+        '-1.04727574077 + 1.13593988909i',
+        '-1.04727574077 - 1.13593988909i',
+      ]);
+    });
+
+    it('uses constants, user variables and user functions', () => {
+      const context = {
+        variables: [{ name: 'a', value: '4' }],
+        functions: [{ name: 'f', params: ['x'], body: 'x^2' }],
+      };
+      const result = findPolynomialRoots('f(x) - a', context);
+      expect(result.success && result.roots.map((root) => root.re)).toEqual([-2, 2]);
+      expect(findPolynomialRoots('pi x - pi')).toMatchObject({
+        roots: [{ re: 1, im: 0, multiplicity: 1 }],
+      });
+    });
+
+    it('formats roots in the display format', () => {
+      const root = { re: 1234.5, im: -2, multiplicity: 1 };
+      const format: DisplayFormat = { ...DEFAULT_DISPLAY_FORMAT, notation: 'fixed', digits: 1 };
+      expect(formatPolynomialRoot(root, format)).toBe('1234.5 - 2.0i');
+    });
+
+    it('reports input it cannot solve', () => {
+      expect(findPolynomialRoots('sin(x)')).toEqual({ success: false, error: 'Not a polynomial' });
+      expect(findPolynomialRoots('x y')).toEqual({ success: false, error: 'Not a polynomial' });
+      expect(findPolynomialRoots('1, i')).toEqual({ success: false, error: 'Invalid coefficient' });
+      expect(findPolynomialRoots('x^11 + 1')).toEqual({ success: false, error: 'Degree too high' });
+      expect(findPolynomialRoots('5')).toEqual({ success: false, error: 'No roots' });
+    });
+  });
+
+  describe('matrices', () => {
+    const matrices = [
+      { name: 'A', entries: [['1', '2'], ['3', '4']] },
+      { name: 'B', entries: [['0', '1'], ['1', '0']] },
+      { name: 'C', entries: [['1', '2', '3'], ['2', '4', '6']] },
+      { name: 'D', entries: [['0', '-1'], ['1', '0']] },
+    ];
+
+    it('evaluates named matrices and their products', () => {
+      expect(evaluate('[A]*[B]', 'rad', { matrices })).toEqual({
+        success: true,
+        value: '[[2, 1], [4, 3]]',
+        displayValue: '[[2, 1], [4, 3]]',
+        answer: '[[2, 1], [4, 3]]',
+        matrix: [
+          ['2', '1'],
+          ['4', '3'],
+        ],
+      });
+      const result = evaluate('2[A] + transpose([A])', 'rad', { matrices });
+      expect(result.success && result.matrix).toEqual([
+        ['3', '7'],
+        ['8', '12'],
+      ]);
+    });
+
+    it('computes determinants, inverses and ranks', () => {
+      const result = evaluate('det([A])', 'rad', { matrices });
+      expect(result.success && result.value).toBe(-2);
+      const inverse = evaluate('inv([A])', 'rad', { matrices });
+      expect(inverse.success && inverse.displayValue).toBe('[[-2, 1], [1.5, -0.5]]');
+      const power = evaluate('[A]^-1', 'rad', { matrices });
+      expect(power.success && power.displayValue).toBe('[[-2, 1], [1.5, -0.5]]');
+      const rank = evaluate('rank([C])', 'rad', { matrices });
+      expect(rank.success && rank.value).toBe(1);
+    });
+
+    it('reduces matrices to reduced row echelon form', () => {
+      const result = evaluate('rref([[2, 1, 5], [1, -1, 1]])', 'rad', { matrices });
+      expect(result.success && result.matrix).toEqual([
+        ['1', '0', '2'],
+        ['0', '1', '1'],
+      ]);
+    });
+
+    it('finds eigenvalues, including complex ones', () => {
+      const result = evaluate('eigenvalues([[2, 0], [0, 3]])');
+      expect(result.success && result.displayValue).toBe('[2, 3]');
+      const rotation = evaluate('eigenvalues([D])', 'rad', {
+        matrices,
+        complexMode: 'rectangular',
+      });
+      expect(rotation.success && rotation.displayValue).toBe('[i, -i]');
+    });
+
+    it('keeps entries exact in fraction mode', () => {
+      const result = evaluate('inv([A])', 'rad', { matrices, numberMode: 'fraction' });
+      expect(result.success && result.matrix).toEqual([
+        ['-2', '1'],
+        ['3/2', '-1/2'],
+      ]);
+    });
+
+    it('stores matrices by assignment', () => {
+      const result = evaluate('[E] = [[1, 1/2], [0, 1]]', 'rad', { matrices });
+      expect(result.success && result.assignedMatrix).toEqual({
+        name: 'E',
+        entries: [
+          ['1', '0.5'],
+          ['0', '1'],
+        ],
+      });
+      expect(evaluate('[E] = 5')).toEqual({
+        success: false,
+        error: 'Not a matrix',
+        kind: 'domain',
+      });
+    });
+
+    it('evaluates stored entries as expressions', () => {
+      const result = evaluate('[F]', 'rad', {
+        variables: [{ name: 'k', value: '3' }],
+        matrices: [{ name: 'F', entries: [['k', 'sqrt(4)']] }],
+      });
+      expect(result.success && result.displayValue).toBe('[[3, 2]]');
+    });
+
+    it('reports matrix errors', () => {
+      expect(evaluate('[G]', 'rad', { matrices })).toEqual({
+        success: false,
+        error: 'Undefined matrix [G]',
+        kind: 'undefined',
+        span: { start: 0, end: 3 },
+      });
+      expect(evaluate('det([C])', 'rad', { matrices })).toEqual({
+        success: false,
+        error: 'Matrix must be square',
+        kind: 'domain',
+      });
+      expect(evaluate('[C]*[A]', 'rad', { matrices })).toEqual({
+        success: false,
+        error: 'Dimension mismatch',
+        kind: 'domain',
+      });
+      expect(evaluate('inv([[1, 2], [2, 4]])')).toEqual({
+        success: false,
+        error: 'Singular matrix',
+        kind: 'domain',
+      });
+    });
+  });
+
+  describe('error diagnostics', () => {
+    it('classifies errors by kind', () => {
+      expect(evaluate('2 +')).toMatchObject({ kind: 'syntax' });
+      expect(evaluate('foo + 1')).toMatchObject({ kind: 'undefined' });
+      expect(evaluate('factorial(-1)')).toMatchObject({ kind: 'domain' });
+      expect(evaluate('sqrt(4, 2)')).toMatchObject({
+        error: 'Too many arguments',
+        kind: 'syntax',
+      });
+    });
+
+    it('gives long math.js messages readable text of their kind', () => {
+      expect(evaluate('5 m to s')).toMatchObject({ error: 'Units do not match', kind: 'domain' });
+      expect(evaluate('5 m > 2 s')).toMatchObject({ error: 'Units do not match', kind: 'domain' });
+      expect(evaluate('sin(5 m)')).toMatchObject({ error: 'Angle expected', kind: 'domain' });
+      expect(evaluate('combinations(2, 5)')).toMatchObject({
+        error: 'k must be less than or equal to n',
+        kind: 'domain',
+      });
+      expect(evaluate('concat(1, 2)')).toMatchObject({
+        error: 'Dimension must be specified as last argument',
+        kind: 'domain',
+      });
+    });
+
+    it('points syntax errors at the token the parser stopped at', () => {
+      expect(evaluate('2 + * 3')).toMatchObject({
+        error: 'Missing value',
+        span: { start: 4, end: 5 },
+      });
+      expect(evaluate('2 3')).toMatchObject({ span: { start: 2, end: 3 } });
+    });
+
+    it('marks the end of an incomplete expression', () => {
+      expect(evaluate('2 +')).toMatchObject({
+        error: 'Incomplete expression',
+        span: { start: 3, end: 3 },
+      });
+    });
+
+    it('maps spans back to the expression as typed', () => {
+      expect(evaluate('3×ab')).toMatchObject({ span: { start: 2, end: 4 } });
+      expect(evaluate('√(4, 2)')).toMatchObject({ span: { start: 0, end: 1 } });
+      expect(evaluate('[G] + 1')).toMatchObject({ span: { start: 0, end: 3 } });
+    });
+
+    it('suggests parentheses for a function applied without them', () => {
+      expect(evaluate('sin30')).toEqual({
+        success: false,
+        error: 'Undefined symbol sin30',
+        kind: 'undefined',
+        span: { start: 0, end: 5 },
+        suggestion: 'Did you mean sin(30)?',
+      });
+      expect(evaluate('2 + sinx')).toMatchObject({ suggestion: 'Did you mean sin(x)?' });
+    });
+
+    it('suggests the closest function, constant or variable', () => {
+      expect(evaluate('sqr(4)')).toEqual({
+        success: false,
+        error: 'Unknown function',
+        kind: 'undefined',
+        span: { start: 0, end: 3 },
+        suggestion: 'Did you mean sqrt?',
+      });
+      expect(evaluate('sni(3)')).toMatchObject({ suggestion: 'Did you mean sin?' });
+      expect(evaluate('2pii')).toMatchObject({ suggestion: 'Did you mean pi?' });
+      expect(
+        evaluate('rat + 1', 'rad', { variables: [{ name: 'rate', value: '2' }] })
+      ).toMatchObject({ suggestion: 'Did you mean rate?' });
+      expect(evaluate('foo + 1')).not.toHaveProperty('suggestion');
+    });
+
+    it('reports results too large for a float as overflow', () => {
+      expect(evaluate('10^400')).toEqual({
+        success: false,
+        error: 'Overflow',
+        kind: 'overflow',
+        suggestion: 'Switch to BIG mode for larger numbers',
+      });
+      expect(evaluate('1/0')).toMatchObject({ success: true, displayValue: 'Infinity' });
+    });
+  });
+
+  describe('vectors', () => {
+    it('shows components with magnitude and direction', () => {
+      expect(evaluate('[3, 4]', 'deg')).toEqual({
+        success: true,
+        value: '[3, 4]',
+        displayValue: '[3, 4]',
+        answer: '[3, 4]',
+        vector: { components: ['3', '4'], magnitude: '5', direction: '53.1301023542°' },
+      });
+      const space = evaluate('[1, 2, 2]');
+      expect(space.success && space.vector).toEqual({
+        components: ['1', '2', '2'],
+        magnitude: '3',
+        direction: undefined,
+      });
+    });
+
+    it('enters vectors by magnitude and angle in the angle unit', () => {
+      const plane = evaluate('vec(5, 30)', 'deg');
+      expect(plane.success && plane.vector?.components).toEqual(['4.33012701892', '2.5']);
+      expect(plane.success && plane.vector?.direction).toBe('30°');
+      const radians = evaluate('vec(1, pi/2)');
+      expect(radians.success && radians.displayValue).toBe('[0, 1]');
+      const space = evaluate('vec(2, 90, 90)', 'deg');
+      expect(space.success && space.displayValue).toBe('[0, 2, 0]');
+    });
+
+    it('computes dot and cross products and norms', () => {
+      const dot = evaluate('dot([1, 2, 3], [4, 5, 6])');
+      expect(dot.success && dot.value).toBe(32);
+      const cross = evaluate('cross([1, 0, 0], [0, 1, 0])');
+      expect(cross.success && cross.displayValue).toBe('[0, 0, 1]');
+      const norm = evaluate('norm([3, 4])');
+      expect(norm.success && norm.value).toBe(5);
+    });
+
+    it('computes unit vectors, angles and projections', () => {
+      const unit = evaluate('unitVector([3, 4])', 'rad', { numberMode: 'fraction' });
+      expect(unit.success && unit.displayValue).toBe('[3/5, 4/5]');
+      const angle = evaluate('angle([1, 0], [0, 1])', 'deg');
+      expect(angle.success && angle.value).toBe(90);
+      const projection = evaluate('proj([1, 2], [3, 4])', 'rad', { numberMode: 'fraction' });
+      expect(projection.success && projection.displayValue).toBe('[33/25, 44/25]');
+    });
+
+    it('adds vectors entered either way', () => {
+      const result = evaluate('[3, 4] + vec(5, 30)', 'deg');
+      expect(result.success && result.displayValue).toBe('[7.33012701892, 6.5]');
+    });
+
+    it('reports vector errors', () => {
+      expect(evaluate('proj([1, 2], [0, 0])')).toEqual({
+        success: false,
+        error: 'Zero vector',
+        kind: 'domain',
+      });
+      expect(evaluate('angle([1, 0], [1, 1, 1])')).toEqual({
+        success: false,
+        error: 'Dimension mismatch',
+        kind: 'domain',
+      });
+    });
+  });
+
+  describe('number theory', () => {
+    it('factors integers into prime powers', () => {
+      expect(evaluate('factor(360)')).toEqual({
+        success: true,
+        value: 360,
+        displayValue: '2^3·3^2·5',
+        answer: '360',
+        factorization: [
+          { prime: '2', exponent: 3 },
+          { prime: '3', exponent: 2 },
+          { prime: '5', exponent: 1 },
+        ],
+      });
+      expect(evaluate('factor(-12)')).toMatchObject({ value: -12, displayValue: '-2^2·3' });
+      expect(evaluate('factor(1)')).toMatchObject({ displayValue: '1', factorization: [] });
+      expect(evaluate('factor(gcd(360, 84))')).toMatchObject({ displayValue: '2^2·3' });
+    });
+
+    it('still factors polynomials', () => {
+      expect(evaluate('factor(x^2 - 1)')).toMatchObject({ symbolic: true });
+      expect(
+        evaluate('factor(n^2 - 1)', 'rad', { variables: [{ name: 'm', value: '12' }] })
+      ).toMatchObject({ symbolic: true });
+    });
+
+    it('factors the values of stored variables and constants into primes', () => {
+      const variables = [{ name: 'r', value: '360' }];
+      expect(evaluate('factor(r)', 'rad', { variables })).toMatchObject({
+        value: 360,
+        displayValue: '2^3·3^2·5',
+      });
+      expect(evaluate('factor(2r + 8)', 'rad', { variables })).toMatchObject({
+        displayValue: '2^3·7·13',
+      });
+    });
+
+    it('leaves matrices to the math.js functions of the same name', () => {
+      expect(evaluate('gcd([1, 2], [3, 4])')).toMatchObject({ displayValue: '[1, 2]' });
+      expect(evaluate('gcd([12, 18], 6)')).toMatchObject({ displayValue: '[6, 6]' });
+      expect(evaluate('lcm([4, 6], [6, 4])')).toMatchObject({ displayValue: '[12, 12]' });
+      expect(evaluate('isPrime([2, 4, 7])')).toMatchObject({
+        displayValue: '[true, false, true]',
+      });
+      expect(evaluate('gcd([12, 18], 6)', 'rad', { numberMode: 'bignumber' })).toMatchObject({
+        displayValue: '[6, 6]',
+      });
+    });
+
+    it('computes divisors, primality and modular arithmetic', () => {
+      expect(evaluate('gcd(12, 18)')).toMatchObject({ displayValue: '6' });
+      expect(evaluate('gcd(12, 18, 8)')).toMatchObject({ displayValue: '2' });
+      expect(evaluate('lcm(4, 6)')).toMatchObject({ displayValue: '12' });
+      expect(evaluate('isPrime(97)')).toMatchObject({ displayValue: 'true' });
+      expect(evaluate('isPrime(91)')).toMatchObject({ displayValue: 'false' });
+      expect(evaluate('powmod(4, 13, 497)')).toMatchObject({ displayValue: '445' });
+      expect(evaluate('invmod(3, 11)')).toMatchObject({ displayValue: '4' });
+      expect(evaluate('totient(36)')).toMatchObject({ displayValue: '12' });
+      expect(evaluate('φ(36)')).toMatchObject({ displayValue: '12' });
+    });
+
+    it('divides with remainder, keeping the quotient as the value', () => {
+      expect(evaluate('divmod(17, 5)')).toEqual({
+        success: true,
+        value: 3,
+        displayValue: '3 R 2',
+        answer: '3',
+        remainder: '2',
+      });
+      expect(evaluate('divmod(-17, 5)')).toMatchObject({ displayValue: '-4 R 3' });
+    });
+
+    it('stays exact beyond 2^53', () => {
+      expect(evaluate('isPrime(2^61 - 1)')).toMatchObject({ displayValue: 'true' });
+      expect(evaluate('isPrime(2^61 + 1)')).toMatchObject({ displayValue: 'false' });
+      expect(evaluate('factor(2^67 - 1)')).toMatchObject({
+        value: '147573952589676412927',
+        displayValue: '193707721·761838257287',
+      });
+      expect(evaluate('lcm(2^40, 3^30)')).toMatchObject({
+        displayValue: '226379693794030958489370624',
+      });
+      expect(evaluate('powmod(2, 10^18, 10^9 + 7)')).toMatchObject({
+        displayValue: '719476260',
+      });
+    });
+
+    it('works in fraction and high-precision modes', () => {
+      expect(evaluate('gcd(12, 18)', 'rad', { numberMode: 'fraction' })).toMatchObject({
+        displayValue: '6',
+      });
+      expect(evaluate('totient(2^80)', 'rad', { numberMode: 'bignumber' })).toMatchObject({
+        displayValue: '604462909807314587353088',
+      });
+    });
+
+    it('reports invalid arguments', () => {
+      expect(evaluate('gcd(1.5, 3)')).toEqual({
+        success: false,
+        error: 'Arguments must be integers',
+        kind: 'domain',
+      });
+      expect(evaluate('factor(0)')).toMatchObject({ error: 'Cannot factor 0' });
+      expect(evaluate('invmod(6, 9)')).toMatchObject({ error: 'No inverse' });
+      expect(evaluate('divmod(17, 0)')).toMatchObject({ error: 'Divide by zero' });
+      expect(evaluate('gcd(12)')).toMatchObject({ error: 'Too few arguments', kind: 'syntax' });
+      expect(evaluate('powmod(2, 3)')).toMatchObject({ error: 'Too few arguments' });
+    });
+  });
+
+  describe('compileFunction', () => {
+    it('evaluates an expression for each value of the variable', () => {
+      const fn = compileFunction('x^2', 'x');
+      expect(fn(3)).toBe(9);
+      expect(fn(-2)).toBe(4);
+    });
+
+    it('resolves user functions with shifted arguments', () => {
+      const fn = compileFunction('f(x-1)', 'x', 'rad', {
+        functions: [{ name: 'f', params: ['x'], body: 'x^2 - 3x' }],
+      });
+      expect(fn(3)).toBe(-2);
+    });
+
+    it('handles implicit multiplication with the variable', () => {
+      const fn = compileFunction('2x + x sin(x)', 'x');
+      expect(fn(0)).toBe(0);
+      expect(fn(Math.PI / 2)).toBeCloseTo(Math.PI + Math.PI / 2, 10);
+    });
+
+    it('throws for expressions that cannot be parsed', () => {
+      expect(() => compileFunction('2 +', 'x')).toThrow();
+    });
+
+    it('uses the given angle unit', () => {
+      expect(compileFunction('sin(x)', 'x', 'deg')(90)).toBeCloseTo(1, 10);
+      expect(compileFunction('sin(x)', 'x', 'grad')(100)).toBeCloseTo(1, 10);
+    });
+  });
+
   describe('isValidExpression', () => {
     it('returns true for valid expressions', () => {
       expect(isValidExpression('2 + 3')).toBe(true);
@@ -380,6 +2033,14 @@ describe('math-engine', () => {
       expect(radiansToDegrees(Math.PI)).toBeCloseTo(180, 10);
       expect(radiansToDegrees(2 * Math.PI)).toBeCloseTo(360, 10);
     });
+
+    it('converts angles in any unit to and from radians', () => {
+      expect(angleToRadians(100, 'grad')).toBeCloseTo(Math.PI / 2, 10);
+      expect(angleToRadians(90, 'deg')).toBeCloseTo(Math.PI / 2, 10);
+      expect(angleToRadians(1, 'rad')).toBe(1);
+      expect(radiansToAngle(Math.PI, 'grad')).toBeCloseTo(200, 10);
+      expect(radiansToAngle(Math.PI, 'deg')).toBeCloseTo(180, 10);
+    });
   });
 
   describe('combinatorics', () => {
@@ -1,5 +1,54 @@
-import { create, all, type MathJsInstance } from 'mathjs';
-import type { AngleUnit, CalculationResult } from '../types';
+import {
+  create,
+  all,
+  type Complex,
+  type MathCollection,
+  type MathJsInstance,
+  type MathNode,
+  type MathNumericType,
+  type MathType,
+  type Unit,
+} from 'mathjs';
+import { PHYSICAL_CONSTANTS, constantQuantity } from './constants';
+import { alignPositions, closestName, mapSpan } from './diagnostics';
+import { DISPLAY_PRECISION, formatBigNumber, formatNumber } from './format';
+import { formatFraction } from './fractions';
+import {
+  divMod,
+  formatFactorization,
+  gcd,
+  isPrime,
+  lcm,
+  modInverse,
+  modPow,
+  primeFactors,
+  totient,
+  type PrimePower,
+} from './number-theory';
+import { integrate, type Integral } from './integration';
+import { reducedRowEchelon } from './linear-system';
+import { factorPolynomial, polynomialRoots } from './polynomial';
+import { MAX_SEQUENCE_TERMS, generateSequence } from './sequences';
+import { findRootNear, findRoots } from './solver';
+import { rewriteExpression } from './tokenizer';
+import type {
+  AngleUnit,
+  BigNumberPrecision,
+  CalculationResult,
+  ComplexMode,
+  DisplayFormat,
+  ErrorKind,
+  ErrorSpan,
+  EvaluationContext,
+  PolynomialRoot,
+  PolynomialRootsResult,
+  SequenceResult,
+  SolveRange,
+  SolveResult,
+  UserFunction,
+  UserMatrix,
+  UserVariable,
+} from '../types';
 
 /**
  * Configure math.js instance with custom settings
@@ -10,149 +59,2067 @@ const math: MathJsInstance = create(all, {
 });
 
 /**
- * Maximum display precision for results
+ * math.js instance for exact fraction arithmetic
  */
-const DISPLAY_PRECISION = 12;
+const fractionMath: MathJsInstance = create(all, {
+  number: 'Fraction',
+});
+
+/**
+ * math.js instances for high-precision arithmetic, created on first use
+ * for each supported digit count
+ */
+const bigNumberInstances = new Map<BigNumberPrecision, MathJsInstance>();
+
+/**
+ * Default significant digits for high-precision mode
+ */
+export const DEFAULT_BIGNUMBER_PRECISION: BigNumberPrecision = 32;
+
+/**
+ * Extra digits carried in high-precision mode so rounding in the last
+ * computed digits does not show up in the displayed result
+ */
+const BIGNUMBER_GUARD_DIGITS = 4;
+
+/**
+ * Significant digits a double carries reliably, to which numeric results are
+ * rounded as big numbers rather than showing the noise beyond them
+ */
+const DOUBLE_DIGITS = 15;
+
+/**
+ * Complex parts smaller than this fraction of the magnitude are rounding
+ * noise (e.g. the imaginary part of e^(iπ)) and are shown as zero
+ */
+const COMPLEX_ZERO_TOLERANCE = 1e-14;
+
+/**
+ * Components smaller than this fraction of a vector's magnitude are rounding
+ * noise (e.g. the x component of vec(1, 90) in degrees) and become zero
+ */
+const VECTOR_ZERO_TOLERANCE = 1e-14;
+
+/**
+ * Error messages for common calculation errors
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  'Undefined function': 'Unknown function',
+  'Unexpected end of expression': 'Incomplete expression',
+  'Value expected': 'Missing value',
+  'Parenthesis ) expected': 'Missing )',
+  'Cannot divide by zero': 'Divide by zero',
+  'Maximum call stack size exceeded': 'Recursion too deep',
+  'in derivative': 'Cannot differentiate',
+  'Unexpected type of argument in function integrate': 'Invalid integral',
+  'must be square': 'Matrix must be square',
+  'determinant is zero': 'Singular matrix',
+  'Dimension mismatch': 'Dimension mismatch',
+  'shape mismatch': 'Dimension mismatch',
+  'Too many arguments': 'Too many arguments',
+  'Too few arguments': 'Too few arguments',
+  'Unexpected type of argument': 'Invalid argument',
+  'Units do not match': 'Units do not match',
+  'Cannot compare units': 'Units do not match',
+  'is no angle': 'Angle expected',
+  'No ordering relation is defined for complex numbers': 'Cannot compare complex numbers',
+  'Cannot convert': 'Not a number',
+};
+
+/**
+ * Detail math.js appends to a message: a parenthesized argument list or size,
+ * e.g. `Units do not match ('s' != '5 m')`, or a second sentence
+ */
+const ERROR_DETAIL_PATTERN = / \(.*\)$|\. .*$/;
+
+/**
+ * Position suffix math.js adds to syntax errors, e.g. ` (char 4)`
+ */
+const ERROR_POSITION_PATTERN = / \(char \d+\)$/;
+
+/**
+ * Errors from running out of room rather than from the expression itself
+ */
+const OVERFLOW_PATTERN = /Maximum call stack size exceeded|Too many terms/;
+
+/**
+ * Failed evaluation
+ */
+type CalculationError = Extract<CalculationResult, { success: false }>;
+
+/**
+ * Names provided by the calculator rather than math.js itself
+ */
+const RESERVED_NAMES = [
+  'ln',
+  'logb',
+  'polar',
+  'integrate',
+  'summation',
+  'product',
+  'powmod',
+  'totient',
+  'divmod',
+  'solve',
+  'rref',
+  'rank',
+  'eigenvalues',
+  'vec',
+  'unitVector',
+  'angle',
+  'proj',
+];
+
+/**
+ * Letters of the named matrices [A] to [J]
+ */
+export const MATRIX_NAMES = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+
+/**
+ * Reference to a named matrix, e.g. [A]
+ */
+const MATRIX_REFERENCE_PATTERN = /\[([A-J])\]/g;
+
+/**
+ * Scope name prefix for named matrices: [A] is evaluated as __matrixA
+ */
+const MATRIX_PREFIX = '__matrix';
+
+/**
+ * Trigonometric functions that take an angle
+ */
+const TRIG_FUNCTIONS = ['sin', 'cos', 'tan', 'sec', 'csc', 'cot'];
+
+/**
+ * Functions that return an angle: inverse trig and the complex argument
+ */
+const ANGLE_RESULT_FUNCTIONS = ['asin', 'acos', 'atan', 'asec', 'acsc', 'acot', 'arg'];
+
+/**
+ * Size of a half turn in each angle unit
+ */
+const HALF_TURN: Record<AngleUnit, number> = {
+  rad: Math.PI,
+  deg: 180,
+  grad: 200,
+};
+
+/**
+ * Symbol written after angles in polar notation for each angle unit
+ */
+const ANGLE_SUFFIX: Record<AngleUnit, string> = {
+  rad: '',
+  deg: '°',
+  grad: 'ᵍ',
+};
+
+/**
+ * Polar notation as displayed for complex results, e.g. `5∠53.13°`
+ */
+const POLAR_NOTATION_PATTERN =
+  /(\d+(?:\.\d*)?(?:e[+-]?\d+)?)∠(-?\d+(?:\.\d*)?(?:e[+-]?\d+)?)[°ᵍ]?/g;
+
+/**
+ * Leibniz notation for a derivative, e.g. `d/dx(` or `d ÷ dt(` as typed
+ * from the keyboard
+ */
+const LEIBNIZ_PATTERN = /\bd\s*\/\s*d([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/;
+
+/**
+ * Calculator commands that work on expressions rather than values
+ */
+const SYMBOLIC_COMMANDS = ['derivative', 'simplify', 'expand', 'factor'];
+
+/**
+ * Name given to the integrand when `integrate(f, x, a, b)` passes it on as a function
+ */
+const INTEGRAND = '__integrand';
+
+/**
+ * Name given to the terms when `summation(f, k, a, b)` or `product(f, k, a, b)`
+ * passes them on as a function
+ */
+const SERIES_TERM = '__term';
+
+/**
+ * Error for a malformed call to each series command
+ */
+const SERIES_ERRORS: Record<string, string> = {
+  summation: 'Invalid sum',
+  product: 'Invalid product',
+};
+
+/**
+ * Most terms the sums and products in one evaluation may add up together,
+ * so that `Σ(k, k, 1, 10^9)` or nested sums report an error instead of
+ * freezing the page
+ */
+export const MAX_SERIES_TERMS = 100000;
+
+/**
+ * Most terms in high-precision mode, where each term is far slower
+ */
+export const MAX_BIGNUMBER_SERIES_TERMS = 10000;
+
+/**
+ * Terms left to the sums and products of one evaluation, shared by nested calls
+ */
+interface SeriesBudget {
+  readonly limit: number;
+  used: number;
+}
+
+/**
+ * Name `factor(n)` is passed on as when n is a number rather than a polynomial
+ */
+const PRIME_FACTORS = '__primeFactors';
+
+/**
+ * Error for an integer argument beyond 2^53, where doubles are inexact; the
+ * calculation is then redone with big numbers
+ */
+const INEXACT_INTEGER = 'Inexact integer';
+
+/**
+ * Significant digits of the big numbers such calculations are redone with
+ */
+const INTEGER_PRECISION: BigNumberPrecision = 128;
+
+/**
+ * Prime factorization returned by `factor(n)`, shown as `2^3·3^2·5`
+ */
+interface Factorization {
+  readonly kind: 'factorization';
+  readonly value: bigint;
+  readonly factors: readonly PrimePower[];
+}
+
+/**
+ * Quotient and remainder returned by `divmod(a, b)`, shown as `3 R 2`
+ */
+interface Division {
+  readonly kind: 'division';
+  readonly quotient: MathNumericType;
+  readonly remainder: MathNumericType;
+}
+
+/**
+ * Name given to `lhs - rhs` when `solve(lhs = rhs, x, ...)` passes it on as a function
+ */
+const EQUATION = '__equation';
+
+/**
+ * Start of a solve call, whose equation may use `=` for equality
+ */
+const SOLVE_PATTERN = /\bsolve\s*\(/;
+
+/**
+ * `=` on its own, not part of `==`, `<=`, `>=` or `!=`
+ */
+const EQUALS_PATTERN = /(?<![<>!=])=(?!=)/g;
+
+/**
+ * Equation sign of the solver, `=` or `==`, not part of `<=`, `>=` or `!=`
+ */
+const EQUATION_SIGN_PATTERN = /(?<![<>!=])==?(?!=)/g;
+
+/**
+ * Placeholder for the radians in one degree or gradian while
+ * differentiating, so trig functions can be differentiated in radians
+ */
+const RADIANS_PER_UNIT = '__radiansPerUnit';
+
+/**
+ * Valid identifier for a user-defined variable
+ */
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Left-hand side of a sequence definition, capturing the name and index, e.g. `u(n)`
+ */
+const SEQUENCE_HEAD_PATTERN = /^\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\(\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\)\s*$/;
+
+/**
+ * Left-hand side of a function definition, e.g. `f(x)` or `g(x, y)`
+ */
+const FUNCTION_HEAD_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*\(\s*[a-zA-Z_][a-zA-Z0-9_]*(\s*,\s*[a-zA-Z_][a-zA-Z0-9_]*)*\s*\)$/;
+
+/**
+ * Convert degrees to radians
+ */
+export function degreesToRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Convert radians to degrees
+ */
+export function radiansToDegrees(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
+/**
+ * Convert an angle in the given unit to radians
+ */
+export function angleToRadians(angle: number, angleUnit: AngleUnit): number {
+  return angle * (Math.PI / HALF_TURN[angleUnit]);
+}
+
+/**
+ * Convert radians to an angle in the given unit
+ */
+export function radiansToAngle(radians: number, angleUnit: AngleUnit): number {
+  return radians * (HALF_TURN[angleUnit] / Math.PI);
+}
+
+/**
+ * Zero out complex parts that are only rounding noise
+ */
+function cleanComplex(value: Complex): Complex {
+  const tolerance = (math.abs(value) as number) * COMPLEX_ZERO_TOLERANCE;
+  const re = Math.abs(value.re) <= tolerance ? 0 : value.re;
+  const im = Math.abs(value.im) <= tolerance ? 0 : value.im;
+  return math.complex(re, im);
+}
+
+/**
+ * Format the imaginary part of a complex number, e.g. `2i`, `i`, `-i`
+ */
+function formatImaginary(im: number, format?: DisplayFormat): string {
+  if (im === 1) return 'i';
+  if (im === -1) return '-i';
+  return `${formatNumber(im, format)}i`;
+}
+
+/**
+ * Format a complex number in rectangular (`3 + 4i`) or polar (`5∠53.13°`)
+ * form. Polar angles use the current angle unit.
+ */
+function formatComplex(
+  value: Complex,
+  complexMode: ComplexMode,
+  angleUnit: AngleUnit,
+  format?: DisplayFormat
+): string {
+  if (complexMode === 'polar') {
+    const angle = radiansToAngle(math.arg(value), angleUnit);
+    const magnitude = formatNumber(math.abs(value) as number, format);
+    return `${magnitude}∠${formatNumber(angle, format)}${ANGLE_SUFFIX[angleUnit]}`;
+  }
+
+  if (value.im === 0) return formatNumber(value.re, format);
+  if (value.re === 0) return formatImaginary(value.im, format);
+
+  const sign = value.im < 0 ? '-' : '+';
+  return `${formatNumber(value.re, format)} ${sign} ${formatImaginary(Math.abs(value.im), format)}`;
+}
+
+/**
+ * Format a unit result, e.g. `1.38888888889 m / s`. math.js chooses the unit
+ * prefix and simplifies derived units; the number is formatted like a plain
+ * result.
+ */
+function formatUnit(value: Unit, context: EvaluationContext): string {
+  return math.format(value, (x: unknown) =>
+    math.isBigNumber(x)
+      ? formatBigNumber(
+          x,
+          context.bigNumberPrecision ?? DEFAULT_BIGNUMBER_PRECISION,
+          context.displayFormat
+        )
+      : formatNumber(x as number, context.displayFormat)
+  );
+}
+
+/**
+ * Find the parenthesis that closes the one at `open`, or the end of the
+ * expression if it is never closed
+ */
+function findClosingParenthesis(expression: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < expression.length; i++) {
+    if (expression[i] === '(') depth++;
+    if (expression[i] === ')') depth--;
+    if (depth === 0) return i;
+  }
+  return expression.length;
+}
+
+/**
+ * Find the first comma outside any parentheses, or -1
+ */
+function findTopLevelComma(expression: string): number {
+  let depth = 0;
+  for (let i = 0; i < expression.length; i++) {
+    if (expression[i] === '(') depth++;
+    if (expression[i] === ')') depth--;
+    if (expression[i] === ',' && depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Rewrite Leibniz notation as derivative calls:
+ * `d/dx(x^2)` -> `derivative(x^2, x)`, `d/dx(x^2, 3)` -> `derivative(x^2, x, 3)`
+ */
+function rewriteLeibnizNotation(expression: string): string {
+  const match = LEIBNIZ_PATTERN.exec(expression);
+  if (!match) {
+    return expression;
+  }
+
+  const open = match.index + match[0].length - 1;
+  const close = findClosingParenthesis(expression, open);
+  const inner = rewriteLeibnizNotation(expression.slice(open + 1, close));
+  const comma = findTopLevelComma(inner);
+  const body = comma === -1 ? inner : inner.slice(0, comma);
+  const point = comma === -1 ? '' : inner.slice(comma);
+
+  return (
+    expression.slice(0, match.index) +
+    `derivative(${body}, ${match[1]}${point})` +
+    rewriteLeibnizNotation(expression.slice(close + 1))
+  );
+}
+
+/**
+ * Let equations in solve calls use `=`, which math.js reads as assignment:
+ * `solve(x^2 = 2, x, 1)` -> `solve(x^2 == 2, x, 1)`
+ */
+function rewriteSolveEquations(expression: string): string {
+  const match = SOLVE_PATTERN.exec(expression);
+  if (!match) {
+    return expression;
+  }
+
+  const open = match.index + match[0].length - 1;
+  const close = findClosingParenthesis(expression, open);
+  const inner = rewriteSolveEquations(expression.slice(open + 1, close));
+  const comma = findTopLevelComma(inner);
+  const equation = comma === -1 ? inner : inner.slice(0, comma);
+  const rest = comma === -1 ? '' : inner.slice(comma);
+
+  return (
+    expression.slice(0, open + 1) +
+    equation.replace(EQUALS_PATTERN, '==') +
+    rest +
+    expression.slice(close, close + 1) +
+    rewriteSolveEquations(expression.slice(close + 1))
+  );
+}
+
+/**
+ * Transform expression to handle angle units for trig functions
+ * Note: The actual angle conversion is handled via scope overrides in evaluate()
+ * This function is kept for any future expression preprocessing needs
+ */
+function transformForAngleUnit(expression: string, angleUnit: AngleUnit): string {
+  if (angleUnit === 'rad') {
+    return expression;
+  }
+  // In degree mode, the trig function overrides in evaluate() handle conversion
+  return expression;
+}
+
+/**
+ * Parse user-friendly syntax to math.js compatible expression, reading
+ * `3 1/2` as a mixed number if `mixedNumbers` is set
+ */
+function preprocessExpression(expression: string, mixedNumbers = false): string {
+  // Named matrices: [A] -> __matrixA, spaced so [A][B] stays two operands
+  let processed = expression.replace(MATRIX_REFERENCE_PATTERN, `${MATRIX_PREFIX}$1 `);
+
+  // Polar notation from complex results: 5∠53.13° -> polar(5, 53.13)
+  processed = processed.replace(POLAR_NOTATION_PATTERN, 'polar($1, $2)');
+
+  // Operators, function names, implicit multiplication and percentages
+  processed = rewriteExpression(processed, mixedNumbers);
+
+  // Derivatives in Leibniz notation: d/dx(x^2) -> derivative(x^2, x)
+  processed = rewriteLeibnizNotation(processed);
+
+  // Equations in solve calls: solve(x^2 = 2, x, 1) -> solve(x^2 == 2, x, 1)
+  processed = rewriteSolveEquations(processed);
+
+  return processed;
+}
+
+/**
+ * Get a user-friendly error message
+ */
+function getUserFriendlyError(error: Error): string {
+  const message = error.message.replace(ERROR_POSITION_PATTERN, '');
+
+  const matrix = new RegExp(`Undefined symbol ${MATRIX_PREFIX}([A-J])`).exec(message);
+  if (matrix) {
+    return `Undefined matrix [${matrix[1]}]`;
+  }
+
+  for (const [pattern, friendly] of Object.entries(ERROR_MESSAGES)) {
+    if (message.includes(pattern)) {
+      return friendly;
+    }
+  }
+
+  return message.replace(ERROR_DETAIL_PATTERN, '');
+}
+
+/**
+ * Classify an error by its message
+ */
+function getErrorKind(error: Error): ErrorKind {
+  const message = error.message;
+  if (/^Undefined (symbol|function) /.test(message)) {
+    return 'undefined';
+  }
+  if (OVERFLOW_PATTERN.test(message)) {
+    return 'overflow';
+  }
+  if (error instanceof SyntaxError || /^Too (many|few) arguments/.test(message)) {
+    return 'syntax';
+  }
+  return 'domain';
+}
+
+/**
+ * Names of math.js functions, for suggesting a misspelled function
+ */
+const FUNCTION_NAMES = Object.entries(math)
+  .filter(([name, value]) => /^[a-z]\w*$/.test(name) && typeof value === 'function')
+  .map(([name]) => name);
+
+/**
+ * Names of math.js numeric constants, for suggesting a misspelled constant
+ */
+const CONSTANT_NAMES = Object.entries(math)
+  .filter(([, value]) => typeof value === 'number')
+  .map(([name]) => name);
+
+/**
+ * Span in the expression as typed of the first whole-word occurrence of a
+ * name in the preprocessed expression, or of a call to it
+ */
+function findNameSpan(
+  name: string,
+  processed: string,
+  positions: readonly number[],
+  call = false
+): ErrorSpan | undefined {
+  const escaped = name.replace(/[$]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\w.$])${escaped}${call ? '(?=\\s*\\()' : '(?![\\w$])'}`);
+  const match = pattern.exec(processed);
+  return match ? mapSpan(positions, match.index, match.index + name.length) : undefined;
+}
+
+/**
+ * Suggest a fix for an undefined symbol: a function written without its
+ * parentheses (`sin30`), or a misspelled constant or variable
+ */
+function suggestSymbol(name: string, context: EvaluationContext): string | undefined {
+  const functionNames = [
+    ...FUNCTION_NAMES,
+    ...RESERVED_NAMES,
+    ...(context.functions ?? []).map((fn) => fn.name),
+  ];
+  const prefix = functionNames
+    .filter((fn) => fn.length > 1 && fn.length < name.length && name.startsWith(fn))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) {
+    return `Did you mean ${prefix}(${name.slice(prefix.length)})?`;
+  }
+
+  const closest = closestName(name, [
+    ...CONSTANT_NAMES,
+    ...(context.variables ?? []).map((variable) => variable.name),
+  ]);
+  return closest ? `Did you mean ${closest}?` : undefined;
+}
+
+/**
+ * Suggest the function closest to a misspelled one
+ */
+function suggestFunction(name: string, context: EvaluationContext): string | undefined {
+  const closest = closestName(name, [
+    ...FUNCTION_NAMES,
+    ...RESERVED_NAMES,
+    ...(context.functions ?? []).map((fn) => fn.name),
+  ]);
+  return closest ? `Did you mean ${closest}?` : undefined;
+}
+
+/**
+ * Describe why an expression failed: a user-friendly message, the kind of
+ * error, the part of the expression as typed it points at, and a likely fix
+ */
+function diagnoseError(
+  error: Error,
+  expression: string,
+  processed: string,
+  context: EvaluationContext
+): CalculationError {
+  const failure: CalculationError = {
+    success: false,
+    error: getUserFriendlyError(error),
+    kind: getErrorKind(error),
+  };
+  const message = error.message;
+  const positions = alignPositions(expression, processed);
+
+  // The parser reports the 1-based position of the token it stopped at
+  const char = (error as Error & { char?: unknown }).char;
+  if (error instanceof SyntaxError && typeof char === 'number') {
+    const start = Math.min(Math.max(char - 1, 0), processed.length);
+    const token = /^(?:[\w.]+|\S)?/.exec(processed.slice(start))?.[0] ?? '';
+    return { ...failure, span: mapSpan(positions, start, start + token.length) };
+  }
+
+  const matrix = new RegExp(`^Undefined symbol ${MATRIX_PREFIX}([A-J])`).exec(message);
+  if (matrix) {
+    const start = expression.indexOf(`[${matrix[1]}]`);
+    return start === -1 ? failure : { ...failure, span: { start, end: start + 3 } };
+  }
+
+  const symbol = /^Undefined symbol (\S+)/.exec(message);
+  if (symbol) {
+    const span = findNameSpan(symbol[1], processed, positions);
+    const suggestion = suggestSymbol(symbol[1], context);
+    return { ...failure, ...(span && { span }), ...(suggestion && { suggestion }) };
+  }
+
+  const fn = /^Undefined function (\S+)/.exec(message);
+  if (fn) {
+    const span = findNameSpan(fn[1], processed, positions, true);
+    const suggestion = suggestFunction(fn[1], context);
+    return { ...failure, ...(span && { span }), ...(suggestion && { suggestion }) };
+  }
+
+  // Argument errors point at the function they were passed to
+  const argument = /arguments? in function (\w+)/.exec(message);
+  if (argument) {
+    const span = findNameSpan(argument[1], processed, positions, true);
+    return span ? { ...failure, span } : failure;
+  }
+
+  return failure;
+}
+
+/**
+ * Check whether an infinite decimal result is only too large for a float,
+ * by evaluating it again with arbitrary precision
+ */
+function isOverflow(processed: string, angleUnit: AngleUnit, context: EvaluationContext): boolean {
+  try {
+    const instance = getBigNumberMath(DEFAULT_BIGNUMBER_PRECISION);
+    const value = instance.evaluate(processed, createScope(instance, angleUnit, context));
+    return instance.isBigNumber(value) && value.isFinite();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a name can be used for a user-defined variable
+ */
+export function isValidVariableName(name: string): boolean {
+  return (
+    VARIABLE_NAME_PATTERN.test(name) &&
+    !(name in math) &&
+    !RESERVED_NAMES.includes(name)
+  );
+}
+
+/**
+ * Check if an expression consists of only an assignment target (e.g. `r` or
+ * `f(x)`), so that a following "=" starts an assignment rather than evaluating
+ */
+export function isAssignmentTarget(expression: string): boolean {
+  const trimmed = expression.trim();
+  return (
+    VARIABLE_NAME_PATTERN.test(trimmed) ||
+    FUNCTION_HEAD_PATTERN.test(trimmed) ||
+    /^\[[A-J]\]$/.test(trimmed)
+  );
+}
+
+/**
+ * Format a user function as its definition, e.g. `f(x) = x^2`
+ */
+export function formatFunctionDefinition(fn: UserFunction): string {
+  return `${fn.name}(${fn.params.join(', ')}) = ${fn.body}`;
+}
+
+/**
+ * Get the math.js instance for high-precision arithmetic with the given digits
+ */
+function getBigNumberMath(digits: BigNumberPrecision): MathJsInstance {
+  let instance = bigNumberInstances.get(digits);
+  if (!instance) {
+    instance = create(all, { number: 'BigNumber', precision: digits + BIGNUMBER_GUARD_DIGITS });
+    bigNumberInstances.set(digits, instance);
+  }
+  return instance;
+}
+
+/**
+ * Create trig function overrides that work in the given angle unit. The
+ * overrides use the instance's own functions so BigNumber inputs keep their
+ * precision.
+ */
+function createAngleOverrides(
+  instance: MathJsInstance,
+  angleUnit: AngleUnit
+): Record<string, (...args: MathNumericType[]) => MathNumericType> {
+  if (angleUnit === 'rad') {
+    return {};
+  }
+
+  const radiansPerUnit = instance.divide(instance.pi, HALF_TURN[angleUnit]);
+  const toRadians = (x: MathNumericType) => instance.multiply(x, radiansPerUnit);
+  const fromRadians = (x: MathNumericType) =>
+    instance.divide(x, radiansPerUnit) as MathNumericType;
+
+  // math.js types its trig functions per argument type; the overrides accept
+  // whatever numeric type the active instance produces
+  const functions = instance as unknown as Record<string, (...args: unknown[]) => MathNumericType>;
+  const overrides: Record<string, (...args: MathNumericType[]) => MathNumericType> = {};
+
+  for (const name of TRIG_FUNCTIONS) {
+    overrides[name] = (x) => functions[name](toRadians(x));
+  }
+  for (const name of ANGLE_RESULT_FUNCTIONS) {
+    overrides[name] = (x) => fromRadians(functions[name](x));
+  }
+  overrides['atan2'] = (y, x) => fromRadians(functions['atan2'](y, x));
+
+  return overrides;
+}
+
+/**
+ * Replace a symbol throughout an expression tree
+ */
+function substituteSymbol(node: MathNode, name: string, replacement: MathNode): MathNode {
+  return node.transform((child) =>
+    math.isSymbolNode(child) && child.name === name
+      ? new math.ParenthesisNode(replacement)
+      : child
+  );
+}
+
+/**
+ * Replace calls to user functions with their bodies so they can be
+ * differentiated, e.g. `f(2x)` with `f(x) = x^2` becomes `(2x)^2`
+ */
+function inlineUserFunctions(
+  instance: MathJsInstance,
+  node: MathNode,
+  functions: readonly UserFunction[]
+): MathNode {
+  return node.transform((child) => {
+    if (!math.isFunctionNode(child)) {
+      return child;
+    }
+
+    const fn = functions.find(
+      (candidate) =>
+        candidate.name === child.fn.name && candidate.params.length === child.args.length
+    );
+    if (!fn) {
+      return child;
+    }
+
+    let body = instance.parse(preprocessExpression(fn.body));
+    fn.params.forEach((param, index) => {
+      body = substituteSymbol(body, param, child.args[index]);
+    });
+    return new math.ParenthesisNode(inlineUserFunctions(instance, body, functions));
+  });
+}
+
+/**
+ * Rewrite trig functions in degrees or gradians as functions in radians,
+ * with the unit size as a placeholder constant: `sin(u)` -> `sin(u * k)`
+ * and `asin(u)` -> `asin(u) / k`
+ */
+function toRadianTrig(node: MathNode): MathNode {
+  const unitSize = new math.SymbolNode(RADIANS_PER_UNIT);
+
+  return node.transform((child) => {
+    if (!math.isFunctionNode(child)) {
+      return child;
+    }
+
+    const args = child.args.map(toRadianTrig);
+    if (TRIG_FUNCTIONS.includes(child.fn.name) && args.length === 1) {
+      const angle = new math.OperatorNode('*', 'multiply', [
+        new math.ParenthesisNode(args[0]),
+        unitSize,
+      ]);
+      return new math.FunctionNode(child.fn, [angle]);
+    }
+    if (ANGLE_RESULT_FUNCTIONS.includes(child.fn.name)) {
+      return new math.OperatorNode('/', 'divide', [
+        new math.FunctionNode(child.fn, args),
+        unitSize,
+      ]);
+    }
+    return child;
+  });
+}
+
+/**
+ * Undo toRadianTrig on a derivative, turning the remaining placeholders
+ * into the size of the angle unit in radians (`pi / 180` for degrees)
+ */
+function fromRadianTrig(node: MathNode, angleUnit: AngleUnit): MathNode {
+  const isUnitSize = (child: MathNode) =>
+    math.isSymbolNode(child) && child.name === RADIANS_PER_UNIT;
+
+  return node.transform((child) => {
+    // sin(u * k) -> sin(u)
+    if (
+      math.isFunctionNode(child) &&
+      TRIG_FUNCTIONS.includes(child.fn.name) &&
+      child.args.length === 1 &&
+      math.isOperatorNode(child.args[0]) &&
+      child.args[0].op === '*' &&
+      isUnitSize(child.args[0].args[1])
+    ) {
+      const angle = child.args[0].args[0];
+      const content = math.isParenthesisNode(angle) ? angle.content : angle;
+      return new math.FunctionNode(child.fn, [fromRadianTrig(content, angleUnit)]);
+    }
+
+    // asin(u) / k -> asin(u)
+    if (
+      math.isOperatorNode(child) &&
+      child.op === '/' &&
+      isUnitSize(child.args[1]) &&
+      math.isFunctionNode(child.args[0]) &&
+      ANGLE_RESULT_FUNCTIONS.includes(child.args[0].fn.name)
+    ) {
+      return fromRadianTrig(child.args[0], angleUnit);
+    }
+
+    if (isUnitSize(child)) {
+      return math.parse(`(pi / ${HALF_TURN[angleUnit]})`);
+    }
+    return child;
+  });
+}
+
+/**
+ * Differentiate an expression symbolically and simplify the result.
+ * Trig functions follow the angle unit, so in degrees `sin(x)` has the
+ * derivative `pi / 180 * cos(x)`.
+ */
+function differentiate(
+  instance: MathJsInstance,
+  node: MathNode,
+  variable: string,
+  angleUnit: AngleUnit,
+  context: EvaluationContext
+): MathNode {
+  let body = inlineUserFunctions(instance, node, context.functions ?? []);
+  if (angleUnit !== 'rad') {
+    body = toRadianTrig(body);
+  }
+
+  let derived = instance.derivative(body, variable, { simplify: false });
+  if (angleUnit !== 'rad') {
+    derived = fromRadianTrig(derived, angleUnit);
+  }
+  return instance.simplify(derived);
+}
+
+/**
+ * Term of an expanded polynomial: a coefficient and the power of each variable
+ */
+interface Monomial {
+  coefficient: number;
+  powers: Map<string, number>;
+}
+
+/**
+ * Read a sum of monomials into a list of terms, or null if it is not one
+ */
+function readMonomials(node: MathNode, sign: number, terms: Monomial[]): boolean {
+  if (math.isParenthesisNode(node)) {
+    return readMonomials(node.content, sign, terms);
+  }
+  if (math.isOperatorNode(node) && node.fn === 'add') {
+    return node.args.every((arg) => readMonomials(arg, sign, terms));
+  }
+  if (math.isOperatorNode(node) && node.fn === 'subtract') {
+    return readMonomials(node.args[0], sign, terms) && readMonomials(node.args[1], -sign, terms);
+  }
+  if (math.isOperatorNode(node) && node.fn === 'unaryMinus') {
+    return readMonomials(node.args[0], -sign, terms);
+  }
+
+  const term: Monomial = { coefficient: sign, powers: new Map() };
+  const readFactor = (factor: MathNode): boolean => {
+    if (math.isParenthesisNode(factor)) return readFactor(factor.content);
+    if (math.isConstantNode(factor)) {
+      term.coefficient *= Number(factor.value);
+      return true;
+    }
+    if (math.isSymbolNode(factor)) {
+      term.powers.set(factor.name, (term.powers.get(factor.name) ?? 0) + 1);
+      return true;
+    }
+    if (math.isOperatorNode(factor) && factor.fn === 'multiply') {
+      return factor.args.every(readFactor);
+    }
+    if (
+      math.isOperatorNode(factor) &&
+      factor.fn === 'divide' &&
+      math.isConstantNode(factor.args[1])
+    ) {
+      term.coefficient /= Number(factor.args[1].value);
+      return readFactor(factor.args[0]);
+    }
+    if (
+      math.isOperatorNode(factor) &&
+      factor.fn === 'pow' &&
+      math.isSymbolNode(factor.args[0]) &&
+      math.isConstantNode(factor.args[1])
+    ) {
+      const name = factor.args[0].name;
+      term.powers.set(name, (term.powers.get(name) ?? 0) + Number(factor.args[1].value));
+      return true;
+    }
+    return false;
+  };
+
+  terms.push(term);
+  return readFactor(node);
+}
+
+/**
+ * Combine like terms of an expanded polynomial, highest degree first:
+ * `x * y + y * x + x^2` -> `x^2 + 2 * x * y`. Returns null if the expression
+ * is not a sum of monomials.
+ */
+function collectLikeTerms(node: MathNode): string | null {
+  const terms: Monomial[] = [];
+  if (!readMonomials(node, 1, terms)) {
+    return null;
+  }
+
+  const combined = new Map<string, Monomial>();
+  for (const term of terms) {
+    const variables = [...term.powers.keys()].sort();
+    const key = variables.map((name) => `${name}^${term.powers.get(name)}`).join(' * ');
+    const existing = combined.get(key);
+    if (existing) {
+      existing.coefficient += term.coefficient;
+    } else {
+      combined.set(key, { coefficient: term.coefficient, powers: term.powers });
+    }
+  }
+
+  // Highest total degree first, then highest powers of the earliest variables
+  const names = [...new Set(terms.flatMap((term) => [...term.powers.keys()]))].sort();
+  const degree = (term: Monomial) => [...term.powers.values()].reduce((a, b) => a + b, 0);
+  const byPowers = (a: Monomial, b: Monomial) => {
+    for (const name of names) {
+      const difference = (b.powers.get(name) ?? 0) - (a.powers.get(name) ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  };
+  const sorted = [...combined.values()]
+    .filter((term) => term.coefficient !== 0)
+    .sort((a, b) => degree(b) - degree(a) || byPowers(a, b));
+
+  let text = '';
+  for (const term of sorted) {
+    const variables = [...term.powers.keys()]
+      .sort()
+      .map((name) => formatPower(name, term.powers.get(name) ?? 1));
+    const magnitude = Math.abs(term.coefficient);
+    const factors = magnitude === 1 && variables.length > 0 ? variables : [magnitude, ...variables];
+    const product = factors.join(' * ');
+
+    if (!text) {
+      text = term.coefficient < 0 ? `-${product}` : product;
+    } else {
+      text += term.coefficient < 0 ? ` - ${product}` : ` + ${product}`;
+    }
+  }
+  return text || '0';
+}
+
+/**
+ * Write `x` or `x^n`
+ */
+function formatPower(name: string, power: number): string {
+  return power === 1 ? name : `${name}^${power}`;
+}
+
+/**
+ * Expand products and powers, e.g. `(x + 1)^2` -> `x^2 + 2x + 1`
+ */
+function expandExpression(instance: MathJsInstance, node: MathNode): MathNode {
+  let expanded: MathNode;
+  try {
+    expanded = instance.rationalize(node);
+  } catch {
+    throw new Error('Cannot expand');
+  }
+
+  // rationalize leaves like terms of several variables apart (x * y + y * x)
+  const collected = collectLikeTerms(expanded);
+  return collected === null ? expanded : instance.parse(collected);
+}
+
+/**
+ * Detailed result of math.js `rationalize`
+ */
+interface RationalizeDetails {
+  expression: MathNode;
+  variables: string[];
+  /** Numerator coefficients from the constant term up, for one variable */
+  coefficients: MathNumericType[];
+  denominator: MathNode | null;
+}
+
+/**
+ * Factor a polynomial in one variable, e.g. `x^2 - 1` -> `(x - 1) * (x + 1)`
+ */
+function factorExpression(instance: MathJsInstance, node: MathNode): MathNode {
+  let details: RationalizeDetails;
+  try {
+    details = instance.rationalize(node, {}, true) as unknown as RationalizeDetails;
+  } catch {
+    throw new Error('Cannot factor');
+  }
+
+  if (details.denominator || details.variables.length > 1) {
+    throw new Error('Cannot factor');
+  }
+  if (details.variables.length === 0) {
+    return details.expression;
+  }
+
+  const coefficients = details.coefficients.map((c) => Number(c));
+  return instance.parse(factorPolynomial(coefficients, details.variables[0]));
+}
+
+/**
+ * Replace calls to the symbolic commands with their results:
+ * - `derivative(f, x)` with the derivative of `f`, and `derivative(f, x, a)`
+ *   with the derivative evaluated at `x = a`
+ * - `simplify(f)`, `expand(f)` and `factor(f)` with the rewritten expression
+ *
+ * Returns the variables the results are expressed in, which stay free even
+ * if a user variable or unit has the same name.
+ */
+function expandSymbolicCommands(
+  instance: MathJsInstance,
+  node: MathNode,
+  angleUnit: AngleUnit,
+  context: EvaluationContext
+): { node: MathNode; variables: string[] } {
+  const variables: string[] = [];
+
+  // Names the evaluation scope gives a value: math.js, catalog constants and user variables
+  const scopeNames = new Set([
+    ...Object.keys(getConstantValues(instance)),
+    ...(context.variables ?? []).map((variable) => variable.name),
+  ]);
+  const hasValue = (name: string) => name in instance || scopeNames.has(name);
+
+  // Symbols that are not constants or functions, e.g. x in expand((x + 1)^2)
+  const addFreeSymbols = (result: MathNode) => {
+    for (const child of result.filter((candidate) => math.isSymbolNode(candidate))) {
+      if (math.isSymbolNode(child) && !(child.name in instance)) {
+        variables.push(child.name);
+      }
+    }
+  };
+
+  const expand = (root: MathNode): MathNode =>
+    root.transform((child) => {
+      if (!math.isFunctionNode(child)) {
+        return child;
+      }
+
+      // integrate(f, x, a, b) passes f on as a function of x: integrate(__integrand(x) = f, a, b)
+      if (child.fn.name === 'integrate') {
+        const [body, variable, from, to] = child.args.map(expand);
+        if (child.args.length !== 4 || !math.isSymbolNode(variable)) {
+          throw new Error('Invalid integral');
+        }
+        const integrand = new math.FunctionAssignmentNode(INTEGRAND, [variable.name], body);
+        return new math.FunctionNode(child.fn, [integrand, from, to]);
+      }
+
+      // summation(f, k, a, b) and product(f, k, a, b) pass f on as a function
+      // of k, so k is bound to each term rather than looked up as a variable
+      if (child.fn.name in SERIES_ERRORS) {
+        const [body, variable, from, to] = child.args.map(expand);
+        if (child.args.length !== 4 || !math.isSymbolNode(variable)) {
+          throw new Error(SERIES_ERRORS[child.fn.name]);
+        }
+        const term = new math.FunctionAssignmentNode(SERIES_TERM, [variable.name], body);
+        return new math.FunctionNode(child.fn, [term, from, to]);
+      }
+
+      // solve(lhs = rhs, x, ...) passes lhs - rhs on as a function of x
+      if (child.fn.name === 'solve') {
+        const [equation, variable, ...range] = child.args.map(expand);
+        if (!equation || !math.isSymbolNode(variable) || range.length < 1 || range.length > 2) {
+          throw new Error('Invalid equation');
+        }
+        const difference =
+          math.isOperatorNode(equation) && equation.fn === 'equal'
+            ? new math.OperatorNode('-', 'subtract', [
+                equation.args[0],
+                new math.ParenthesisNode(equation.args[1]),
+              ])
+            : equation;
+        const fn = new math.FunctionAssignmentNode(EQUATION, [variable.name], difference);
+        return new math.FunctionNode(child.fn, [fn, ...range]);
+      }
+
+      if (!SYMBOLIC_COMMANDS.includes(child.fn.name)) {
+        return child;
+      }
+
+      const args = child.args.map(expand);
+
+      if (child.fn.name === 'derivative') {
+        const [body, variable, point] = args;
+        if (!body || !math.isSymbolNode(variable) || args.length > 3) {
+          throw new Error('Invalid derivative');
+        }
+
+        const derived = differentiate(instance, body, variable.name, angleUnit, context);
+        if (point) {
+          return substituteSymbol(derived, variable.name, point);
+        }
+        variables.push(variable.name);
+        return derived;
+      }
+
+      if (args.length !== 1) {
+        throw new Error(`Invalid ${child.fn.name}`);
+      }
+
+      // factor(360) of a number rather than a polynomial is its prime
+      // factorization, as is factor(r) of a stored variable or a constant
+      const hasVariable = args[0]
+        .filter((candidate, path) => math.isSymbolNode(candidate) && path !== 'fn')
+        .some((symbol) => math.isSymbolNode(symbol) && !hasValue(symbol.name));
+      if (child.fn.name === 'factor' && !hasVariable) {
+        return new math.FunctionNode(new math.SymbolNode(PRIME_FACTORS), args);
+      }
+
+      const body = inlineUserFunctions(instance, args[0], context.functions ?? []);
+      let result: MathNode;
+      if (child.fn.name === 'expand') {
+        result = expandExpression(instance, body);
+      } else if (child.fn.name === 'factor') {
+        result = factorExpression(instance, body);
+      } else {
+        result = instance.simplify(body);
+      }
+      addFreeSymbols(result);
+      return result;
+    });
+
+  return { node: expand(node), variables };
+}
+
+/**
+ * Whether any of the named variables appears free in an expression, i.e.
+ * not as the parameter of a function such as an integrand
+ */
+function hasFreeVariable(
+  node: MathNode,
+  names: readonly string[],
+  bound: readonly string[] = []
+): boolean {
+  if (math.isSymbolNode(node)) {
+    return names.includes(node.name) && !bound.includes(node.name);
+  }
+
+  const inner = math.isFunctionAssignmentNode(node) ? [...bound, ...node.params] : bound;
+  let found = false;
+  node.forEach((child) => {
+    found = found || hasFreeVariable(child, names, inner);
+  });
+  return found;
+}
+
+/**
+ * Write a number in a symbolic result. Fractions are written as `3` or
+ * `(1/4)` so they keep their precedence in products and quotients.
+ */
+function formatConstant(value: unknown): string {
+  if (math.isFraction(value)) {
+    return value.d === 1n ? value.toFraction() : `(${value.toFraction()})`;
+  }
+  return math.format(value, { precision: DISPLAY_PRECISION });
+}
+
+/**
+ * Mark products with a leading number as implicit, so `3 * x` prints as `3 x`
+ */
+function markImplicitProducts(node: MathNode): MathNode {
+  return node.transform((child) => {
+    if (
+      math.isOperatorNode(child) &&
+      child.op === '*' &&
+      math.isConstantNode(child.args[0]) &&
+      /^\d+(\.\d+)?$/.test(formatConstant(child.args[0].value)) &&
+      !math.isConstantNode(child.args[1])
+    ) {
+      return new math.OperatorNode(
+        '*',
+        'multiply',
+        [child.args[0], markImplicitProducts(child.args[1])],
+        true
+      );
+    }
+    return child;
+  });
+}
+
+/**
+ * Write a symbolic result compactly in calculator syntax, e.g. `3x^2 + 1`
+ */
+function formatSymbolic(node: MathNode): string {
+  return markImplicitProducts(node)
+    .toString({
+      implicit: 'hide',
+      handler: (child: MathNode) =>
+        math.isConstantNode(child) ? formatConstant(child.value) : undefined,
+    })
+    .replace(/ \^ /g, '^')
+    .replace(/(\d) (?=[a-zA-Z_(])/g, '$1');
+}
+
+/**
+ * Read a function value as a real number, NaN if it is not one
+ */
+function toRealNumber(value: unknown): number {
+  if (math.isComplex(value)) {
+    return value.im === 0 ? value.re : NaN;
+  }
+  return typeof value === 'number' ? value : Number(value);
+}
+
+/**
+ * Value of an equation's left side minus its right, rejecting comparisons
+ * such as `x < 2`, whose false would otherwise be taken for a root
+ */
+function toEquationValue(value: unknown): unknown {
+  if (typeof value === 'boolean') {
+    throw new Error('Invalid equation');
+  }
+  return value;
+}
+
+/**
+ * Wrap a function defined in an expression as a real function for numeric
+ * methods, passing it numbers of the instance's type. Numeric methods are
+ * inexact, so fraction mode throws to fall back to decimal.
+ */
+function toRealFunction(
+  instance: MathJsInstance,
+  f: (x: MathNumericType) => unknown
+): (x: number) => number {
+  const numberType = instance.config({}).number;
+  if (numberType === 'Fraction') {
+    throw new Error('Inexact result');
+  }
+  return (x) => toRealNumber(f(numberType === 'BigNumber' ? instance.bignumber(x) : x));
+}
+
+/**
+ * Convert the result of a numeric method to the instance's number type. Big
+ * numbers get only the digits the double carries: 1/3 -> 0.333333333333333
+ * rather than 0.33333333333333337.
+ */
+function fromRealNumber(instance: MathJsInstance, value: number): MathNumericType {
+  return instance.config({}).number === 'BigNumber'
+    ? instance.bignumber(value.toPrecision(DOUBLE_DIGITS))
+    : value;
+}
+
+/**
+ * Read an integer argument exactly as a big integer. Doubles beyond 2^53 are
+ * not exact, so they throw for the calculation to be redone with big numbers.
+ */
+function toInteger(value: unknown): bigint {
+  if (math.isBigNumber(value) && value.isInteger()) {
+    return BigInt(value.toFixed());
+  }
+  if (math.isFraction(value) && value.d === 1n) {
+    return value.s * value.n;
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(INEXACT_INTEGER);
+    }
+    return BigInt(value);
+  }
+  throw new Error('Arguments must be integers');
+}
+
+/**
+ * Convert an integer result to the instance's number type, throwing like
+ * `toInteger` when a double cannot hold it exactly
+ */
+function fromInteger(instance: MathJsInstance, value: bigint): MathNumericType {
+  const numberType = instance.config({}).number;
+  if (numberType === 'Fraction') return instance.fraction(value);
+  if (numberType === 'BigNumber') return instance.bignumber(value.toString());
+
+  const number = Number(value);
+  if (!Number.isSafeInteger(number)) {
+    throw new Error(INEXACT_INTEGER);
+  }
+  return number;
+}
+
+/**
+ * Whether a value is a single real number, as a number, BigNumber or fraction
+ */
+function isRealScalar(value: unknown): boolean {
+  return typeof value === 'number' || math.isBigNumber(value) || math.isFraction(value);
+}
+
+/**
+ * Exactly `count` integer arguments of a number theory function
+ */
+function integerArguments(args: readonly unknown[], count: number): bigint[] {
+  if (args.length !== count) {
+    throw new Error(args.length < count ? 'Too few arguments' : 'Too many arguments');
+  }
+  return args.map(toInteger);
+}
+
+/**
+ * Whether a result is a prime factorization or a division with remainder
+ * rather than a number
+ */
+function isIntegerForm(value: unknown): value is Factorization | Division {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'kind' in value &&
+    (value.kind === 'factorization' || value.kind === 'division')
+  );
+}
+
+/**
+ * Fresh term budget for the sums and products of one evaluation
+ */
+function createSeriesBudget(instance: MathJsInstance): SeriesBudget {
+  const bigNumber = instance.config({}).number === 'BigNumber';
+  return { limit: bigNumber ? MAX_BIGNUMBER_SERIES_TERMS : MAX_SERIES_TERMS, used: 0 };
+}
+
+/**
+ * Sum or product of the terms `f(k)` for the integers `k` from `from` to
+ * `to`, as passed on by `summation(f, k, from, to)` or `product(...)`, in
+ * the instance's number type. An empty range gives 0 or 1. The terms are
+ * taken from the budget before any is evaluated, so a sum nested in another
+ * fails as soon as the two together would go over.
+ */
+function evaluateSeries(
+  instance: MathJsInstance,
+  budget: SeriesBudget,
+  command: 'summation' | 'product',
+  f: (k: MathNumericType) => unknown,
+  from: MathNumericType,
+  to: MathNumericType
+): unknown {
+  if (typeof f !== 'function') {
+    throw new Error(SERIES_ERRORS[command]);
+  }
+
+  const start = Number(from);
+  const end = Number(to);
+  const isBound = (bound: number) =>
+    Number.isInteger(bound) || bound === Infinity || bound === -Infinity;
+  if (!isBound(start) || !isBound(end)) {
+    throw new Error('Bounds must be integers');
+  }
+  // Also catches infinite bounds, whose difference may be NaN
+  const count = Math.max(end - start + 1, 0);
+  if (!(count <= budget.limit - budget.used)) {
+    throw new Error('Too many terms');
+  }
+  budget.used += count;
+
+  const numberType = instance.config({}).number;
+  const index = (k: number): MathNumericType => {
+    if (numberType === 'Fraction') return instance.fraction(k);
+    if (numberType === 'BigNumber') return instance.bignumber(k);
+    return k;
+  };
+
+  let total: MathType = command === 'summation' ? index(0) : index(1);
+  for (let k = start; k <= end; k++) {
+    const term = f(index(k)) as MathType;
+    total = command === 'summation' ? instance.add(total, term) : instance.multiply(total, term);
+  }
+  return total;
+}
+
+/**
+ * Rows of a two-dimensional matrix or nested array, null for anything else
+ */
+function matrixRows(value: unknown): unknown[][] | null {
+  const array: unknown = math.isMatrix(value) ? value.toArray() : value;
+  if (!Array.isArray(array) || !Array.isArray(array[0]) || array[0].length === 0) {
+    return null;
+  }
+
+  const columns = array[0].length;
+  const isGrid = array.every(
+    (row) =>
+      Array.isArray(row) &&
+      row.length === columns &&
+      row.every((entry) => !Array.isArray(entry) && !math.isMatrix(entry))
+  );
+  return isGrid ? array : null;
+}
+
+/**
+ * Components of a one-dimensional vector or array, null for anything else
+ */
+function vectorComponents(value: unknown): unknown[] | null {
+  const array: unknown = math.isMatrix(value) ? value.toArray() : value;
+  if (!Array.isArray(array) || array.length === 0) {
+    return null;
+  }
+  return array.every((entry) => !Array.isArray(entry) && !math.isMatrix(entry)) ? array : null;
+}
+
+/**
+ * Read a vector argument as real components for numeric methods
+ */
+function toRealVector(value: unknown): number[] {
+  const components = vectorComponents(value)?.map(toRealNumber);
+  if (!components || components.some((component) => !Number.isFinite(component))) {
+    throw new Error('Invalid vector');
+  }
+  return components;
+}
 
 /**
- * Error messages for common calculation errors
+ * Read a matrix argument as rows of real numbers for numeric methods.
+ * Numeric methods are inexact, so fraction mode throws to fall back to decimal.
  */
-const ERROR_MESSAGES: Record<string, string> = {
-  'Undefined function': 'Unknown function',
-  'Unexpected end of expression': 'Incomplete expression',
-  'Value expected': 'Missing value',
-  'Parenthesis ) expected': 'Missing )',
-  'Cannot divide by zero': 'Divide by zero',
-};
+function toRealRows(instance: MathJsInstance, value: unknown): number[][] {
+  if (instance.config({}).number === 'Fraction') {
+    throw new Error('Inexact result');
+  }
+
+  const rows = matrixRows(value)?.map((row) => row.map(toRealNumber));
+  if (!rows || rows.some((row) => row.some((entry) => !Number.isFinite(entry)))) {
+    throw new Error('Invalid matrix');
+  }
+  return rows;
+}
 
 /**
- * Convert degrees to radians
+ * Catalog constants as evaluated by each math.js instance, so their values
+ * are parsed once rather than on every evaluation
  */
-export function degreesToRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
+const constantValues = new WeakMap<MathJsInstance, Record<string, unknown>>();
 
 /**
- * Convert radians to degrees
+ * Physical constants at their catalog (CODATA) values with units, in the
+ * number type of the instance, and units math.js would otherwise read as
+ * constants. Measured values are not exact ratios, so fraction mode uses the
+ * decimal ones.
  */
-export function radiansToDegrees(radians: number): number {
-  return radians * (180 / Math.PI);
+function getConstantValues(instance: MathJsInstance): Record<string, unknown> {
+  let values = constantValues.get(instance);
+  if (!values) {
+    const source = instance === fractionMath ? math : instance;
+    values = {};
+    for (const constant of PHYSICAL_CONSTANTS) {
+      const value = source.evaluate(constantQuantity(constant));
+      // Keep the SI unit as written rather than 160.2 zC for the elementary charge
+      if (instance.isUnit(value)) {
+        value.fixPrefix = true;
+      }
+      values[constant.name] = value;
+    }
+    // math.js names some constants after units, e.g. `coulomb`; the unit wins
+    for (const [name, value] of Object.entries(source)) {
+      if (typeof value !== 'function' && source.Unit.isValuelessUnit(name)) {
+        values[name] = source.unit(name);
+      }
+    }
+    constantValues.set(instance, values);
+  }
+  return values;
 }
 
 /**
- * Format a number for display, handling special cases
+ * Build the evaluation scope from physical constants, user variables, user
+ * functions and angle unit overrides. `onIntegral` is told about each numeric integral taken.
+ * Sums and products draw on `budget`, which a scope reused for many evaluations resets.
  */
-function formatNumber(value: number): string {
-  if (!Number.isFinite(value)) {
-    if (Number.isNaN(value)) return 'Error';
-    return value > 0 ? 'Infinity' : '-Infinity';
+function createScope(
+  instance: MathJsInstance,
+  angleUnit: AngleUnit,
+  context: EvaluationContext,
+  onIntegral?: (integral: Integral) => void,
+  budget: SeriesBudget = createSeriesBudget(instance)
+): Record<string, unknown> {
+  const scope: Record<string, unknown> = { ...getConstantValues(instance) };
+
+  for (const variable of context.variables ?? []) {
+    try {
+      scope[variable.name] = instance.evaluate(variable.value);
+    } catch {
+      // Skip stored values that no longer parse
+    }
+  }
+
+  // Function definitions write themselves into the scope; bodies resolve
+  // names when called, so functions may reference each other in any order
+  for (const fn of context.functions ?? []) {
+    try {
+      const definition = instance.parse(
+        `${fn.name}(${fn.params.join(', ')}) = ${preprocessExpression(fn.body)}`
+      );
+      expandSymbolicCommands(instance, definition, angleUnit, context).node.evaluate(scope);
+    } catch {
+      // Skip stored definitions that no longer parse
+    }
+  }
+
+  // Override trig functions to work in the selected angle unit
+  Object.assign(scope, createAngleOverrides(instance, angleUnit));
+
+  // Complex number from magnitude and angle, used to re-enter polar results
+  scope['polar'] = (magnitude: MathNumericType, angle: MathNumericType) => {
+    return math.complex({
+      r: Number(magnitude),
+      phi: angleToRadians(Number(angle), angleUnit),
+    });
+  };
+
+  // Definite integral of a function of one variable, as passed on by
+  // integrate(f, x, a, b). The integrand sees the angle unit overrides above.
+  scope['integrate'] = (
+    f: (x: MathNumericType) => unknown,
+    a: MathNumericType,
+    b: MathNumericType
+  ) => {
+    if (typeof f !== 'function') {
+      throw new Error('Invalid integral');
+    }
+
+    const integral = integrate(toRealFunction(instance, f), Number(a), Number(b));
+    onIntegral?.(integral);
+    return fromRealNumber(instance, integral.value);
+  };
+
+  // Sums and products of terms as passed on by summation(f, k, a, b) and
+  // product(f, k, a, b)
+  for (const command of ['summation', 'product'] as const) {
+    scope[command] = (
+      f: (k: MathNumericType) => unknown,
+      a: MathNumericType,
+      b: MathNumericType
+    ) => evaluateSeries(instance, budget, command, f, a, b);
   }
 
-  // Use exponential notation for very large or very small numbers
-  if (Math.abs(value) > 1e12 || (Math.abs(value) < 1e-10 && value !== 0)) {
-    return value.toExponential(DISPLAY_PRECISION - 4);
+  // Number theory on exact integers, as big integers so that values beyond
+  // 2^53 stay exact. gcd and lcm take two or more arguments. Anything other
+  // than numbers, such as matrices, goes to math.js's own gcd, lcm, isPrime
+  // and invmod, which work element-wise.
+  const builtIn = instance as unknown as Record<string, (...args: unknown[]) => unknown>;
+  const onIntegers =
+    (name: string, exact: (...args: unknown[]) => unknown) =>
+    (...args: unknown[]) =>
+      args.every(isRealScalar) ? exact(...args) : builtIn[name](...args);
+
+  for (const [name, combine] of [['gcd', gcd], ['lcm', lcm]] as const) {
+    scope[name] = onIntegers(name, (...args) => {
+      const [first, ...rest] = integerArguments(args, Math.max(args.length, 2));
+      return fromInteger(instance, rest.reduce(combine, first));
+    });
   }
+  scope['isPrime'] = onIntegers('isPrime', (...args) => isPrime(integerArguments(args, 1)[0]));
+  scope['totient'] = (...args: unknown[]) =>
+    fromInteger(instance, totient(integerArguments(args, 1)[0]));
+  scope['invmod'] = onIntegers('invmod', (...args) => {
+    const [a, m] = integerArguments(args, 2);
+    return fromInteger(instance, modInverse(a, m));
+  });
+  scope['powmod'] = (...args: unknown[]) => {
+    const [base, exponent, m] = integerArguments(args, 3);
+    return fromInteger(instance, modPow(base, exponent, m));
+  };
+  scope['divmod'] = (...args: unknown[]): Division => {
+    const [a, b] = integerArguments(args, 2);
+    const { quotient, remainder } = divMod(a, b);
+    return {
+      kind: 'division',
+      quotient: fromInteger(instance, quotient),
+      remainder: fromInteger(instance, remainder),
+    };
+  };
+  scope[PRIME_FACTORS] = (n: unknown): Factorization => {
+    const value = toInteger(n);
+    return { kind: 'factorization', value, factors: primeFactors(value) };
+  };
+
+  // Root of an equation as passed on by solve(lhs = rhs, x, guess) or
+  // solve(lhs = rhs, x, min, max): the root nearest the guess, or the
+  // smallest root in the interval
+  scope['solve'] = (
+    f: (x: MathNumericType) => unknown,
+    a: MathNumericType,
+    b?: MathNumericType
+  ) => {
+    if (typeof f !== 'function') {
+      throw new Error('Invalid equation');
+    }
+
+    const equation = toRealFunction(instance, (x) => toEquationValue(f(x)));
+    const root =
+      b === undefined
+        ? findRootNear(equation, Number(a))
+        : findRoots(equation, Number(a), Number(b))[0];
+    if (root === null || root === undefined) {
+      throw new Error(b === undefined ? 'No root found' : 'No root in interval');
+    }
+    return fromRealNumber(instance, root);
+  };
+
+  // Reduced row echelon form and rank, by the elimination the linear system
+  // solver uses
+  scope['rref'] = (m: unknown) =>
+    instance.matrix(
+      reducedRowEchelon(toRealRows(instance, m)).map((row) =>
+        row.map((entry) => fromRealNumber(instance, entry))
+      )
+    );
+  scope['rank'] = (m: unknown) => {
+    const rref = reducedRowEchelon(toRealRows(instance, m));
+    return fromRealNumber(instance, rref.filter((row) => row.some((entry) => entry !== 0)).length);
+  };
+
+  // Eigenvalues of a square matrix, which may be complex for real matrices
+  scope['eigenvalues'] = (m: unknown) => {
+    const { values } = math.eigs(toRealRows(instance, m));
+    return instance.matrix(
+      (values as unknown[]).map((value) => {
+        const cleaned = math.isComplex(value) ? cleanComplex(value) : value;
+        if (math.isComplex(cleaned) && cleaned.im !== 0) return cleaned;
+        return fromRealNumber(instance, toRealNumber(cleaned));
+      }) as MathNumericType[]
+    );
+  };
+
+  // Vector from its magnitude and direction: vec(r, θ) in the plane, or
+  // vec(r, θ, φ) in space with azimuth θ and inclination φ from the z axis
+  scope['vec'] = (r: MathNumericType, theta: MathNumericType, phi?: MathNumericType) => {
+    const magnitude = Number(r);
+    const azimuth = angleToRadians(Number(theta), angleUnit);
+    const inclination = phi === undefined ? Math.PI / 2 : angleToRadians(Number(phi), angleUnit);
+    const components = [
+      magnitude * Math.sin(inclination) * Math.cos(azimuth),
+      magnitude * Math.sin(inclination) * Math.sin(azimuth),
+      ...(phi === undefined ? [] : [magnitude * Math.cos(inclination)]),
+    ].map((component) =>
+      Math.abs(component) <= Math.abs(magnitude) * VECTOR_ZERO_TOLERANCE ? 0 : component
+    );
+    return instance.matrix(components.map((component) => fromRealNumber(instance, component)));
+  };
+
+  // Vector of length 1 in the direction of v
+  scope['unitVector'] = (v: MathCollection) => {
+    if (Math.hypot(...toRealVector(v)) === 0) {
+      throw new Error('Zero vector');
+    }
+    return instance.divide(v, instance.norm(v));
+  };
 
-  // Round to avoid floating point display issues
-  const rounded = Number(value.toPrecision(DISPLAY_PRECISION));
+  // Angle between two vectors, in the angle unit
+  scope['angle'] = (u: unknown, v: unknown) => {
+    const a = toRealVector(u);
+    const b = toRealVector(v);
+    if (a.length !== b.length) {
+      throw new Error('Dimension mismatch');
+    }
+    const lengths = Math.hypot(...a) * Math.hypot(...b);
+    if (lengths === 0) {
+      throw new Error('Zero vector');
+    }
+    const cosine = a.reduce((sum, component, index) => sum + component * b[index], 0) / lengths;
+    const radians = Math.acos(Math.min(1, Math.max(-1, cosine)));
+    return fromRealNumber(instance, radiansToAngle(radians, angleUnit));
+  };
 
-  // Format with appropriate decimal places
-  const str = rounded.toString();
+  // Projection of u onto v, (u·v / v·v) v, exact in fraction mode
+  scope['proj'] = (u: MathCollection, v: MathCollection) => {
+    if (Math.hypot(...toRealVector(v)) === 0) {
+      throw new Error('Zero vector');
+    }
+    return instance.multiply(
+      instance.divide(instance.dot(u, v), instance.dot(v, v)) as MathNumericType,
+      v
+    );
+  };
 
-  // Limit length for display
-  if (str.length > DISPLAY_PRECISION + 2) {
-    return value.toExponential(DISPLAY_PRECISION - 4);
+  // Named matrices come last so their entries may use anything above
+  for (const matrix of context.matrices ?? []) {
+    try {
+      scope[`${MATRIX_PREFIX}${matrix.name}`] = instance.matrix(
+        matrix.entries.map((row) =>
+          row.map((entry) => instance.evaluate(preprocessExpression(entry), scope))
+        )
+      );
+    } catch {
+      // Skip stored matrices whose entries no longer evaluate
+    }
   }
 
-  return str;
+  return scope;
 }
 
 /**
- * Transform expression to handle angle units for trig functions
- * Note: The actual angle conversion is handled via scope overrides in evaluate()
- * This function is kept for any future expression preprocessing needs
+ * A raw math.js result as calculator input at full precision, in the notation
+ * variables are stored in, for ANS and history to reuse whatever the display
+ * format. Factorizations give the number factored, divisions their quotient.
  */
-function transformForAngleUnit(expression: string, angleUnit: AngleUnit): string {
-  if (angleUnit === 'rad') {
-    return expression;
+function formatAnswer(result: unknown): string {
+  if (isIntegerForm(result)) {
+    return result.kind === 'factorization'
+      ? result.value.toString()
+      : formatAnswer(result.quotient);
   }
-  // In degree mode, the trig function overrides in evaluate() handle conversion
-  return expression;
+  return math.format(math.isComplex(result) ? cleanComplex(result) : result);
 }
 
 /**
- * Parse user-friendly syntax to math.js compatible expression
+ * Convert a raw math.js result into a calculation result
  */
-function preprocessExpression(expression: string): string {
-  let processed = expression;
+function toCalculationResult(
+  result: unknown,
+  angleUnit: AngleUnit,
+  context: EvaluationContext
+): CalculationResult {
+  // Factorizations keep the number factored as their value, and divisions
+  // with remainder the quotient
+  if (isIntegerForm(result)) {
+    if (result.kind === 'factorization') {
+      const number = Number(result.value);
+      return {
+        success: true,
+        value: Number.isSafeInteger(number) ? number : result.value.toString(),
+        displayValue: formatFactorization(result.factors, result.value < 0n),
+        factorization: result.factors.map(({ prime, exponent }) => ({
+          prime: prime.toString(),
+          exponent,
+        })),
+      };
+    }
 
-  // Replace × with *
-  processed = processed.replace(/×/g, '*');
+    const quotient = toCalculationResult(result.quotient, angleUnit, context);
+    const remainder = toCalculationResult(result.remainder, angleUnit, context);
+    if (!quotient.success || !remainder.success) {
+      throw new Error('Invalid argument');
+    }
+    return {
+      success: true,
+      value: quotient.value,
+      displayValue: `${quotient.displayValue} R ${remainder.displayValue}`,
+      remainder: remainder.displayValue,
+    };
+  }
 
-  // Replace ÷ with /
-  processed = processed.replace(/÷/g, '/');
+  if (math.isComplex(result)) {
+    const value = cleanComplex(result);
+    if (value.im === 0) {
+      return toCalculationResult(value.re, angleUnit, context);
+    }
 
-  // Replace π with pi
-  processed = processed.replace(/π/g, 'pi');
+    const complexMode = context.complexMode ?? 'real';
+    if (complexMode === 'real') {
+      return {
+        success: false,
+        error: 'Complex result',
+        kind: 'domain',
+      };
+    }
 
-  // Replace common function names
-  processed = processed.replace(/√\(/g, 'sqrt(');
+    return {
+      success: true,
+      value: formatComplex(value, 'rectangular', angleUnit),
+      displayValue: formatComplex(value, complexMode, angleUnit, context.displayFormat),
+    };
+  }
 
-  // Handle logarithm functions:
-  // - ln -> natural log (math.js's log function)
-  // - log -> base 10 (math.js's log10 function)
-  // - log10, log2 -> math.js already supports these natively
+  if (math.isUnit(result)) {
+    // Conversion factors are not exact, so fraction mode shows units as
+    // decimals by falling back to decimal arithmetic
+    if (math.isFraction(result.toNumeric())) {
+      throw new Error('Inexact unit conversion');
+    }
 
-  // Step 1: Protect ln, log10, and log2 from replacement
-  processed = processed.replace(/\bln\(/g, '__NATLOG__(');
-  processed = processed.replace(/\blog10\(/g, '__LOG10__(');
-  processed = processed.replace(/\blog2\(/g, '__LOG2__(');
+    // Keep the units in the value so history and ANS reproduce the quantity
+    const displayValue = formatUnit(result, context);
+    return {
+      success: true,
+      value: displayValue,
+      displayValue,
+    };
+  }
 
-  // Step 2: Replace remaining log( with log10(
-  processed = processed.replace(/\blog\(/g, 'log10(');
+  if (math.isBigNumber(result)) {
+    const displayValue = formatBigNumber(
+      result,
+      context.bigNumberPrecision ?? DEFAULT_BIGNUMBER_PRECISION,
+      context.displayFormat
+    );
+    return {
+      success: true,
+      value: result.toString(),
+      displayValue,
+    };
+  }
 
-  // Step 3: Restore protected functions
-  processed = processed.replace(/__NATLOG__\(/g, 'log(');
-  processed = processed.replace(/__LOG10__\(/g, 'log10(');
-  processed = processed.replace(/__LOG2__\(/g, 'log2(');
+  if (math.isFraction(result)) {
+    const decimal = result.valueOf();
+    const displayValue = formatFraction(result, context.displayFormat?.mixedFractions);
+    return {
+      success: true,
+      value: decimal,
+      displayValue,
+      alternateDisplayValue:
+        result.d === 1n ? undefined : formatNumber(decimal, context.displayFormat),
+    };
+  }
 
-  // Handle implicit multiplication: 2π, 3sin, 5(, etc.
-  // Important: digit followed by letter that starts a function/variable name
-  // Exclude digits that are part of function names like log10, log2
-  // Match: digit followed by letter (except when letter is part of log10/log2 suffix)
-  processed = processed.replace(/(\d)(?=\s*[a-zA-Z(])(?![0-9])/g, (match, digit, offset) => {
-    // Check if this digit is part of log10 or log2
-    const before = processed.substring(Math.max(0, offset - 4), offset);
-    if (/log1?$/.test(before) || /log$/.test(before)) {
-      return match;
-    }
-    return digit + '*';
-  });
+  if (typeof result === 'number') {
+    const displayValue = formatNumber(result, context.displayFormat);
+    return {
+      success: true,
+      value: result,
+      displayValue,
+    };
+  }
 
-  // Handle percentage
-  processed = processed.replace(/(\d+\.?\d*)%/g, '($1/100)');
+  // Matrices are shown as a grid and written back in calculator syntax
+  const rows = matrixRows(result);
+  if (rows) {
+    const entries = rows.map((row) =>
+      row.map((entry) => {
+        const entryResult = toCalculationResult(entry, angleUnit, context);
+        if (!entryResult.success) {
+          throw new Error(entryResult.error);
+        }
+        return entryResult.displayValue;
+      })
+    );
+    const displayValue = `[${entries.map((row) => `[${row.join(', ')}]`).join(', ')}]`;
+    return {
+      success: true,
+      value: displayValue,
+      displayValue,
+      matrix: entries,
+    };
+  }
 
-  return processed;
+  // Vectors show their components, with the magnitude and direction of real
+  // plane and space vectors
+  const components = vectorComponents(result);
+  if (components) {
+    const formatted = components.map((component) => {
+      const componentResult = toCalculationResult(component, angleUnit, context);
+      if (!componentResult.success) {
+        throw new Error(componentResult.error);
+      }
+      return componentResult.displayValue;
+    });
+    const displayValue = `[${formatted.join(', ')}]`;
+
+    const real = components.map(toRealNumber);
+    const isGeometric =
+      (real.length === 2 || real.length === 3) && real.every((x) => Number.isFinite(x));
+    const direction = radiansToAngle(Math.atan2(real[1], real[0]), angleUnit);
+    return {
+      success: true,
+      value: displayValue,
+      displayValue,
+      vector: {
+        components: formatted,
+        magnitude: isGeometric
+          ? formatNumber(Math.hypot(...real), context.displayFormat)
+          : undefined,
+        direction:
+          isGeometric && real.length === 2
+            ? `${formatNumber(direction, context.displayFormat)}${ANGLE_SUFFIX[angleUnit]}`
+            : undefined,
+      },
+    };
+  }
+
+  if (typeof result === 'boolean') {
+    return {
+      success: true,
+      value: result ? 'true' : 'false',
+      displayValue: result ? 'true' : 'false',
+    };
+  }
+
+  // Handle arrays, matrices, etc.
+  if (result !== null && result !== undefined) {
+    const str = math.format(result, { precision: DISPLAY_PRECISION });
+    return {
+      success: true,
+      value: str,
+      displayValue: str,
+    };
+  }
+
+  return {
+    success: false,
+    error: 'No result',
+    kind: 'domain',
+  };
 }
 
 /**
- * Get a user-friendly error message
+ * Evaluate a preprocessed expression with a specific math.js instance.
+ * Throws on any math.js error so callers can fall back or report it.
  */
-function getUserFriendlyError(error: Error): string {
-  const message = error.message;
+function evaluateWith(
+  instance: MathJsInstance,
+  expression: string,
+  processed: string,
+  angleUnit: AngleUnit,
+  context: EvaluationContext
+): CalculationResult {
+  const errorEstimates: number[] = [];
+  const scope = createScope(instance, angleUnit, context, (integral) =>
+    errorEstimates.push(integral.error)
+  );
+  const { node, variables: freeVariables } = expandSymbolicCommands(
+    instance,
+    instance.parse(processed),
+    angleUnit,
+    context
+  );
 
-  for (const [pattern, friendly] of Object.entries(ERROR_MESSAGES)) {
-    if (message.includes(pattern)) {
-      return friendly;
+  // Function definition: f(x) = x^2 - 3x
+  if (math.isFunctionAssignmentNode(node)) {
+    if (!isValidVariableName(node.name)) {
+      return {
+        success: false,
+        error: 'Invalid function name',
+        kind: 'syntax',
+      };
+    }
+
+    // Keep the body as typed so it reads the same when listed or edited
+    const assignedFunction: UserFunction = {
+      name: node.name,
+      params: [...node.params],
+      body: expression.slice(expression.indexOf('=') + 1).trim(),
+    };
+    const definition = formatFunctionDefinition(assignedFunction);
+    return {
+      success: true,
+      value: definition,
+      displayValue: definition,
+      assignedFunction,
+    };
+  }
+
+  // Stored matrix: [A] = [[1, 2], [3, 4]]
+  if (
+    math.isAssignmentNode(node) &&
+    math.isSymbolNode(node.object) &&
+    node.object.name.startsWith(MATRIX_PREFIX)
+  ) {
+    const value = node.value.evaluate(scope);
+    const rows = matrixRows(value);
+    if (!rows) {
+      return {
+        success: false,
+        error: 'Not a matrix',
+        kind: 'domain',
+      };
     }
+
+    const calcResult = toCalculationResult(value, angleUnit, context);
+    if (!calcResult.success) {
+      return calcResult;
+    }
+
+    const assignedMatrix: UserMatrix = {
+      name: node.object.name.slice(MATRIX_PREFIX.length),
+      entries: rows.map((row) => row.map((entry) => math.format(entry))),
+    };
+    return { ...calcResult, answer: formatAnswer(value), assignedMatrix };
+  }
+
+  // Variable assignment: r = 4.5
+  if (math.isAssignmentNode(node)) {
+    if (!math.isSymbolNode(node.object) || !isValidVariableName(node.object.name)) {
+      return {
+        success: false,
+        error: 'Invalid variable name',
+        kind: 'syntax',
+      };
+    }
+
+    const value = node.value.evaluate(scope);
+    const calcResult = toCalculationResult(value, angleUnit, context);
+    if (!calcResult.success) {
+      return calcResult;
+    }
+
+    const assignedVariable: UserVariable = {
+      name: node.object.name,
+      value: math.format(value),
+    };
+    return { ...calcResult, answer: formatAnswer(value), assignedVariable };
   }
 
-  // Truncate long error messages
-  if (message.length > 30) {
-    return 'Syntax Error';
+  // Symbolic commands leave their variables free, even if a user variable
+  // or unit has the same name: d/dx(x^3) -> 3x^2
+  if (!hasFreeVariable(node, freeVariables)) {
+    const value = node.evaluate(scope);
+    const result = toCalculationResult(value, angleUnit, context);
+    if (!result.success) {
+      return result;
+    }
+    const answer = formatAnswer(value);
+    // Numeric integrals carry the sum of their error estimates
+    if (errorEstimates.length > 0) {
+      return {
+        ...result,
+        answer,
+        errorEstimate: errorEstimates.reduce((sum, error) => sum + error, 0),
+      };
+    }
+    return { ...result, answer };
   }
 
-  return message;
+  const symbolic = formatSymbolic(math.isParenthesisNode(node) ? node.content : node);
+  return {
+    success: true,
+    value: symbolic,
+    displayValue: symbolic,
+    symbolic: true,
+  };
 }
 
 /**
@@ -160,68 +2127,341 @@ function getUserFriendlyError(error: Error): string {
  */
 export function evaluate(
   expression: string,
-  angleUnit: AngleUnit = 'rad'
+  angleUnit: AngleUnit = 'rad',
+  context: EvaluationContext = {}
 ): CalculationResult {
   if (!expression.trim()) {
     return {
       success: false,
       error: 'Empty expression',
+      kind: 'syntax',
     };
   }
 
+  let processed = expression;
   try {
-    // Preprocess the expression
-    let processed = preprocessExpression(expression);
+    // Preprocess the expression; mixed numbers are read back in while results are shown as them
+    processed = preprocessExpression(expression, context.displayFormat?.mixedFractions);
 
     // Transform for angle unit
     processed = transformForAngleUnit(processed, angleUnit);
 
-    // Create a scope with degree-aware trig functions if needed
-    const scope: Record<string, unknown> = {};
-
-    if (angleUnit === 'deg') {
-      // Override trig functions to work in degrees
-      scope['sin'] = (x: number) => Math.sin(degreesToRadians(x));
-      scope['cos'] = (x: number) => Math.cos(degreesToRadians(x));
-      scope['tan'] = (x: number) => Math.tan(degreesToRadians(x));
-      scope['asin'] = (x: number) => radiansToDegrees(Math.asin(x));
-      scope['acos'] = (x: number) => radiansToDegrees(Math.acos(x));
-      scope['atan'] = (x: number) => radiansToDegrees(Math.atan(x));
+    if (context.numberMode === 'fraction') {
+      try {
+        return evaluateWith(fractionMath, expression, processed, angleUnit, context);
+      } catch {
+        // Irrational or otherwise inexact results fall back to decimal arithmetic
+      }
     }
 
-    const result = math.evaluate(processed, scope);
+    if (context.numberMode === 'bignumber') {
+      const instance = getBigNumberMath(context.bigNumberPrecision ?? DEFAULT_BIGNUMBER_PRECISION);
+      return evaluateWith(instance, expression, processed, angleUnit, context);
+    }
 
-    // Handle different result types
-    if (typeof result === 'number') {
-      const displayValue = formatNumber(result);
+    let result: CalculationResult;
+    try {
+      result = evaluateWith(math, expression, processed, angleUnit, context);
+    } catch (error) {
+      // Integers beyond 2^53 are redone with big numbers so they stay exact
+      if ((error as Error).message !== INEXACT_INTEGER) {
+        throw error;
+      }
+      const instance = getBigNumberMath(INTEGER_PRECISION);
+      return evaluateWith(instance, expression, processed, angleUnit, context);
+    }
+    if (
+      result.success &&
+      (result.value === Infinity || result.value === -Infinity) &&
+      isOverflow(processed, angleUnit, context)
+    ) {
       return {
-        success: true,
-        value: result,
-        displayValue,
+        success: false,
+        error: 'Overflow',
+        kind: 'overflow',
+        suggestion: 'Switch to BIG mode for larger numbers',
       };
     }
+    return result;
+  } catch (error) {
+    return diagnoseError(error as Error, expression, processed, context);
+  }
+}
 
-    if (typeof result === 'boolean') {
-      return {
-        success: true,
-        value: result ? 'true' : 'false',
-        displayValue: result ? 'true' : 'false',
-      };
+/**
+ * Compile an expression in one free variable for repeated evaluation, as used
+ * by the graph and its table. Throws if the expression cannot be parsed.
+ */
+export function compileFunction(
+  expression: string,
+  variable: string,
+  angleUnit: AngleUnit = 'rad',
+  context: EvaluationContext = {}
+): (value: number) => unknown {
+  const node = math.parse(preprocessExpression(expression));
+  const compiled = expandSymbolicCommands(math, node, angleUnit, context).node.compile();
+  const budget = createSeriesBudget(math);
+  const scope = createScope(math, angleUnit, context, undefined, budget);
+
+  return (value: number) => {
+    budget.used = 0;
+    scope[variable] = value;
+    return compiled.evaluate(scope);
+  };
+}
+
+/**
+ * Solve an equation in one variable such as `x^3 - 2x = 5`, or `f = 0` when
+ * there is no `=`. Returns every real root in an interval, or the root
+ * nearest a guess.
+ */
+export function solveEquation(
+  equation: string,
+  variable: string,
+  range: SolveRange,
+  angleUnit: AngleUnit = 'rad',
+  context: EvaluationContext = {}
+): SolveResult {
+  const sides = equation.split(EQUATION_SIGN_PATTERN);
+  if (sides.length > 2) {
+    return {
+      success: false,
+      error: 'Invalid equation',
+    };
+  }
+  if (sides.some((side) => !side.trim())) {
+    return {
+      success: false,
+      error: 'Empty expression',
+    };
+  }
+
+  try {
+    const difference = sides.length === 2 ? `(${sides[0]}) - (${sides[1]})` : sides[0];
+    const compiled = compileFunction(difference, variable, angleUnit, context);
+    const f = (x: number) => toRealNumber(toEquationValue(compiled(x)));
+
+    if ('guess' in range) {
+      const root = findRootNear(f, range.guess);
+      return root === null
+        ? { success: false, error: 'No root found' }
+        : { success: true, roots: [root] };
     }
 
-    // Handle arrays, matrices, etc.
-    if (result !== null && result !== undefined) {
-      const str = math.format(result, { precision: DISPLAY_PRECISION });
-      return {
-        success: true,
-        value: str,
-        displayValue: str,
+    const roots = findRoots(f, range.min, range.max);
+    return roots.length === 0
+      ? { success: false, error: 'No root in interval' }
+      : { success: true, roots };
+  } catch (error) {
+    return {
+      success: false,
+      error: getUserFriendlyError(error as Error),
+    };
+  }
+}
+
+/**
+ * Terms of a sequence defined explicitly, `u(n) = 2^n`, or by a recurrence,
+ * `u(n) = u(n-1) + u(n-2)`, for `count` values of n from `start`. The
+ * initial terms are a list of expressions such as `1, 1` giving the first
+ * terms, which a recurrence needs before it can refer back to them.
+ */
+export function evaluateSequence(
+  definition: string,
+  initialTerms: string,
+  start: number,
+  count: number,
+  angleUnit: AngleUnit = 'rad',
+  context: EvaluationContext = {}
+): SequenceResult {
+  const sides = definition.split(EQUALS_PATTERN);
+  const head =
+    sides.length === 2 && sides[1].trim() ? SEQUENCE_HEAD_PATTERN.exec(sides[0]) : null;
+  if (!head || head[1] === head[2] || !head.slice(1).every(isValidVariableName)) {
+    return {
+      success: false,
+      error: 'Define the sequence as u(n) = ...',
+    };
+  }
+  if (!Number.isInteger(start) || !Number.isInteger(count) || count < 1) {
+    return {
+      success: false,
+      error: 'Invalid range',
+    };
+  }
+  if (count > MAX_SEQUENCE_TERMS) {
+    return {
+      success: false,
+      error: 'Too many terms',
+    };
+  }
+
+  const [, name, variable] = head;
+  try {
+    const initial = initialTerms.trim()
+      ? splitTopLevel(initialTerms).map((term) => {
+          const result = evaluate(term, angleUnit, context);
+          const value = result.success ? toRealNumber(result.value) : NaN;
+          if (Number.isNaN(value)) throw new Error('Invalid initial term');
+          return value;
+        })
+      : [];
+
+    const node = math.parse(preprocessExpression(sides[1]));
+    const compiled = expandSymbolicCommands(math, node, angleUnit, context).node.compile();
+    const budget = createSeriesBudget(math);
+    const scope = createScope(math, angleUnit, context, undefined, budget);
+
+    // The sequence's own name looks up earlier terms while the rule is evaluated
+    const rule = (n: number, term: (k: number) => number | undefined) => {
+      budget.used = 0;
+      scope[variable] = n;
+      scope[name] = (k: unknown) => {
+        const index = toRealNumber(k);
+        const value = term(index);
+        if (value === undefined) {
+          throw new Error(`${name}(${formatNumber(index)}) is not defined`);
+        }
+        return value;
       };
+      return toRealNumber(compiled.evaluate(scope));
+    };
+
+    return {
+      success: true,
+      name,
+      variable,
+      terms: generateSequence(rule, initial, start, count),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: getUserFriendlyError(error as Error),
+    };
+  }
+}
+
+/**
+ * Split a list at commas outside parentheses: `1, max(2, 3)` -> `1`, `max(2, 3)`
+ */
+function splitTopLevel(list: string): string[] {
+  const items: string[] = [];
+  let rest = list;
+  for (let comma = findTopLevelComma(rest); comma !== -1; comma = findTopLevelComma(rest)) {
+    items.push(rest.slice(0, comma));
+    rest = rest.slice(comma + 1);
+  }
+  return [...items, rest];
+}
+
+/**
+ * Coefficients, from the constant term up, of a polynomial given as an
+ * expression in one variable such as `x^3 - 2x = 5`. User variables and
+ * constants such as pi are replaced by their values.
+ */
+function polynomialCoefficients(expression: string, context: EvaluationContext): number[] {
+  const sides = expression.split(EQUALS_PATTERN);
+  if (sides.length > 2 || sides.some((side) => !side.trim())) {
+    throw new Error('Invalid equation');
+  }
+  const difference = sides.length === 2 ? `(${sides[0]}) - (${sides[1]})` : sides[0];
+
+  let node = inlineUserFunctions(
+    math,
+    math.parse(preprocessExpression(difference)),
+    context.functions ?? []
+  );
+  for (const variable of context.variables ?? []) {
+    node = substituteSymbol(node, variable.name, math.parse(variable.value));
+  }
+  node = node.transform((child) =>
+    math.isSymbolNode(child) && typeof math[child.name as keyof MathJsInstance] === 'number'
+      ? new math.ConstantNode(math[child.name as keyof MathJsInstance] as number)
+      : child
+  );
+
+  let details: RationalizeDetails;
+  try {
+    details = math.rationalize(node, {}, true) as unknown as RationalizeDetails;
+  } catch {
+    throw new Error('Not a polynomial');
+  }
+  if (details.denominator || details.variables.length > 1) {
+    throw new Error('Not a polynomial');
+  }
+  if (details.variables.length === 0) {
+    return [Number(details.expression.evaluate())];
+  }
+  return details.coefficients.map((c) => Number(c));
+}
+
+/**
+ * Write a polynomial in x, e.g. `x^3 - 2x - 5`, for graphing
+ */
+function formatPolynomialInX(coefficients: readonly number[]): string {
+  let text = '';
+  for (let power = coefficients.length - 1; power >= 0; power--) {
+    const coefficient = coefficients[power];
+    if (coefficient === 0) continue;
+
+    const size = Math.abs(coefficient);
+    const variable = power === 0 ? '' : power === 1 ? 'x' : `x^${power}`;
+    const number = size === 1 && variable ? '' : math.format(size, { precision: 15 });
+    const term = number && variable ? `${number} ${variable}` : number || variable;
+
+    if (!text) {
+      text = coefficient < 0 ? `-${term}` : term;
+    } else {
+      text += coefficient < 0 ? ` - ${term}` : ` + ${term}`;
     }
+  }
+  return text || '0';
+}
 
+/**
+ * Find every root of a polynomial of degree up to 10, real and complex,
+ * with multiplicities. The polynomial is an expression in one variable such
+ * as `x^3 - 2x - 5` (or an equation), or a comma-separated list of
+ * coefficients from the highest power down such as `1, 0, -2, -5`.
+ */
+export function findPolynomialRoots(
+  input: string,
+  context: EvaluationContext = {}
+): PolynomialRootsResult {
+  if (!input.trim()) {
     return {
       success: false,
-      error: 'No result',
+      error: 'Empty expression',
+    };
+  }
+
+  try {
+    const items = splitTopLevel(input);
+    const coefficients =
+      items.length > 1
+        ? items
+            .map((item) => {
+              const result = evaluate(item, 'rad', context);
+              const value = result.success ? Number(result.value) : NaN;
+              if (!Number.isFinite(value)) {
+                throw new Error('Invalid coefficient');
+              }
+              return value;
+            })
+            .reverse()
+        : polynomialCoefficients(input, context);
+
+    const roots = polynomialRoots(coefficients);
+    if (roots.length === 0) {
+      return {
+        success: false,
+        error: 'No roots',
+      };
+    }
+    return {
+      success: true,
+      polynomial: formatPolynomialInX(coefficients),
+      roots,
     };
   } catch (error) {
     return {
@@ -231,6 +2471,13 @@ export function evaluate(
   }
 }
 
+/**
+ * Write a polynomial root in calculator syntax, e.g. `-1.04727574077 + 1.13593988909i`
+ */
+export function formatPolynomialRoot(root: PolynomialRoot, format?: DisplayFormat): string {
+  return formatComplex(math.complex(root.re, root.im), 'rectangular', 'rad', format);
+}
+
 /**
  * Validate if an expression is syntactically valid (for real-time feedback)
  */
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  gcd,
+  lcm,
+  divMod,
+  modInverse,
+  modPow,
+  isPrime,
+  primeFactors,
+  totient,
+  formatFactorization,
+} from './number-theory';
+
+describe('number-theory', () => {
+  describe('gcd and lcm', () => {
+    it('finds common divisors and multiples', () => {
+      expect(gcd(12n, 18n)).toBe(6n);
+      expect(gcd(-12n, 18n)).toBe(6n);
+      expect(gcd(0n, 5n)).toBe(5n);
+      expect(lcm(4n, 6n)).toBe(12n);
+      expect(lcm(-4n, 6n)).toBe(12n);
+      expect(lcm(0n, 6n)).toBe(0n);
+    });
+
+    it('works beyond 2^53', () => {
+      const big = 2n ** 80n;
+      expect(gcd(big * 3n, big * 5n)).toBe(big);
+      expect(lcm(big * 3n, big * 5n)).toBe(big * 15n);
+    });
+  });
+
+  describe('divMod', () => {
+    it('rounds the quotient down with the remainder taking the divisor sign', () => {
+      expect(divMod(17n, 5n)).toEqual({ quotient: 3n, remainder: 2n });
+      expect(divMod(-17n, 5n)).toEqual({ quotient: -4n, remainder: 3n });
+      expect(divMod(17n, -5n)).toEqual({ quotient: -4n, remainder: -3n });
+      expect(divMod(15n, 5n)).toEqual({ quotient: 3n, remainder: 0n });
+    });
+
+    it('refuses division by zero', () => {
+      expect(() => divMod(1n, 0n)).toThrow('Cannot divide by zero');
+    });
+  });
+
+  describe('modular arithmetic', () => {
+    it('raises to powers modulo m', () => {
+      expect(modPow(4n, 13n, 497n)).toBe(445n);
+      expect(modPow(2n, 0n, 7n)).toBe(1n);
+      expect(modPow(5n, 3n, 1n)).toBe(0n);
+      expect(modPow(-2n, 3n, 7n)).toBe(6n);
+      expect(modPow(2n, 10n ** 18n, 10n ** 9n + 7n)).toBe(
+        2n ** ((10n ** 18n) % (10n ** 9n + 6n)) % (10n ** 9n + 7n)
+      );
+    });
+
+    it('finds inverses', () => {
+      expect(modInverse(3n, 11n)).toBe(4n);
+      expect(modInverse(-3n, 11n)).toBe(7n);
+      expect(modPow(3n, -2n, 11n)).toBe(5n);
+      expect(() => modInverse(6n, 9n)).toThrow('No inverse');
+    });
+
+    it('needs a positive modulus', () => {
+      expect(() => modPow(2n, 3n, 0n)).toThrow('Modulus must be positive');
+      expect(() => modInverse(2n, -5n)).toThrow('Modulus must be positive');
+    });
+  });
+
+  describe('isPrime', () => {
+    it('tests small numbers', () => {
+      const primes = Array.from({ length: 50 }, (_, n) => BigInt(n)).filter(isPrime);
+      expect(primes).toEqual([
+        2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n, 43n, 47n,
+      ]);
+    });
+
+    it('tests large numbers and strong pseudoprimes', () => {
+      expect(isPrime(2n ** 61n - 1n)).toBe(true);
+      expect(isPrime(2n ** 127n - 1n)).toBe(true);
+      expect(isPrime(2n ** 67n - 1n)).toBe(false);
+      expect(isPrime(3215031751n)).toBe(false);
+      expect(isPrime(3825123056546413051n)).toBe(false);
+      expect(isPrime(-7n)).toBe(false);
+    });
+  });
+
+  describe('primeFactors', () => {
+    it('lists prime powers in increasing order', () => {
+      expect(primeFactors(360n)).toEqual([
+        { prime: 2n, exponent: 3 },
+        { prime: 3n, exponent: 2 },
+        { prime: 5n, exponent: 1 },
+      ]);
+      expect(primeFactors(-12n)).toEqual([
+        { prime: 2n, exponent: 2 },
+        { prime: 3n, exponent: 1 },
+      ]);
+      expect(primeFactors(1n)).toEqual([]);
+      expect(primeFactors(97n)).toEqual([{ prime: 97n, exponent: 1 }]);
+    });
+
+    it('splits large numbers with large prime factors', () => {
+      expect(primeFactors(2n ** 67n - 1n)).toEqual([
+        { prime: 193707721n, exponent: 1 },
+        { prime: 761838257287n, exponent: 1 },
+      ]);
+      expect(primeFactors(1000003n * 1000003n * 999983n)).toEqual([
+        { prime: 999983n, exponent: 1 },
+        { prime: 1000003n, exponent: 2 },
+      ]);
+    });
+
+    it('refuses to factor zero', () => {
+      expect(() => primeFactors(0n)).toThrow('Cannot factor 0');
+    });
+  });
+
+  describe('totient', () => {
+    it('counts the integers coprime to n', () => {
+      expect([1n, 2n, 9n, 10n, 36n, 97n].map(totient)).toEqual([1n, 1n, 6n, 4n, 12n, 96n]);
+      expect(totient(2n ** 61n)).toBe(2n ** 60n);
+      expect(() => totient(0n)).toThrow('Argument must be positive');
+    });
+  });
+
+  describe('formatFactorization', () => {
+    it('writes prime powers joined by dots', () => {
+      expect(formatFactorization(primeFactors(360n))).toBe('2^3·3^2·5');
+      expect(formatFactorization(primeFactors(-7n), true)).toBe('-7');
+      expect(formatFactorization([])).toBe('1');
+      expect(formatFactorization([], true)).toBe('-1');
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Prime raised to a power in a factorization, e.g. 2^3 in 360 = 2^3·3^2·5
+ */
+export interface PrimePower {
+  readonly prime: bigint;
+  readonly exponent: number;
+}
+
+/**
+ * Quotient and remainder of an integer division
+ */
+export interface IntegerDivision {
+  readonly quotient: bigint;
+  readonly remainder: bigint;
+}
+
+/**
+ * Primes used as witnesses in the Miller–Rabin test. Together they give the
+ * right answer for every n below 3.3 × 10^24; above that a composite could
+ * pass, but none is known to.
+ */
+const WITNESSES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n];
+
+/**
+ * Factors are removed by trial division up to this bound before Pollard's rho
+ */
+const TRIAL_DIVISION_LIMIT = 1000n;
+
+/**
+ * Steps of Pollard's rho between gcd checks; the differences are multiplied
+ * together so one gcd covers the whole batch
+ */
+const RHO_BATCH = 64;
+
+/**
+ * Most steps of Pollard's rho for one starting constant before trying the next
+ */
+const MAX_RHO_STEPS = 200000;
+
+/**
+ * Most starting constants tried for Pollard's rho before giving up
+ */
+const MAX_RHO_ATTEMPTS = 5;
+
+/**
+ * Absolute value of a big integer
+ */
+function abs(n: bigint): bigint {
+  return n < 0n ? -n : n;
+}
+
+/**
+ * Greatest common divisor, never negative
+ */
+export function gcd(a: bigint, b: bigint): bigint {
+  let [x, y] = [abs(a), abs(b)];
+  while (y !== 0n) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+/**
+ * Least common multiple, never negative; 0 if either argument is 0
+ */
+export function lcm(a: bigint, b: bigint): bigint {
+  if (a === 0n || b === 0n) return 0n;
+  return abs(a / gcd(a, b) * b);
+}
+
+/**
+ * Quotient rounded down and the remainder, which has the sign of the
+ * divisor as with `mod`: 17 = 5·3 + 2 and -17 = 5·(-4) + 3
+ */
+export function divMod(a: bigint, b: bigint): IntegerDivision {
+  if (b === 0n) {
+    throw new Error('Cannot divide by zero');
+  }
+  let remainder = a % b;
+  if (remainder !== 0n && remainder < 0n !== b < 0n) {
+    remainder += b;
+  }
+  return { quotient: (a - remainder) / b, remainder };
+}
+
+/**
+ * Modular inverse: the x in [0, m) with a·x ≡ 1 (mod m)
+ */
+export function modInverse(a: bigint, m: bigint): bigint {
+  if (m < 1n) {
+    throw new Error('Modulus must be positive');
+  }
+
+  // Extended Euclid, tracking the coefficient of a
+  let [r0, r1] = [divMod(a, m).remainder, m];
+  let [x0, x1] = [1n, 0n];
+  while (r1 !== 0n) {
+    const q = r0 / r1;
+    [r0, r1] = [r1, r0 - q * r1];
+    [x0, x1] = [x1, x0 - q * x1];
+  }
+  if (r0 !== 1n && m !== 1n) {
+    throw new Error('No inverse');
+  }
+  return divMod(x0, m).remainder;
+}
+
+/**
+ * Modular exponentiation base^exponent mod m by repeated squaring, in [0, m).
+ * A negative exponent raises the inverse of the base.
+ */
+export function modPow(base: bigint, exponent: bigint, m: bigint): bigint {
+  if (m < 1n) {
+    throw new Error('Modulus must be positive');
+  }
+
+  let b = exponent < 0n ? modInverse(base, m) : divMod(base, m).remainder;
+  let e = abs(exponent);
+  let result = 1n % m;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Whether n is prime, by the Miller–Rabin test
+ */
+export function isPrime(n: bigint): boolean {
+  if (n < 2n) return false;
+  for (const p of WITNESSES) {
+    if (n % p === 0n) return n === p;
+  }
+
+  // n - 1 = d·2^s with d odd
+  let d = n - 1n;
+  let s = 0;
+  while (d % 2n === 0n) {
+    d /= 2n;
+    s++;
+  }
+
+  return WITNESSES.every((witness) => {
+    let x = modPow(witness, d, n);
+    if (x === 1n || x === n - 1n) return true;
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * A nontrivial factor of an odd composite n, by Pollard's rho
+ */
+function findFactor(n: bigint): bigint {
+  for (let c = 1n; c <= MAX_RHO_ATTEMPTS; c++) {
+    const step = (v: bigint) => (v * v + c) % n;
+    let x = 2n;
+    let y = 2n;
+    let product = 1n;
+
+    for (let i = 1; i <= MAX_RHO_STEPS; i++) {
+      x = step(x);
+      y = step(step(y));
+      product = (product * abs(x - y)) % n;
+
+      if (i % RHO_BATCH === 0 || product === 0n) {
+        const factor = gcd(product, n);
+        // A factor of n itself means the batch overshot; try another constant
+        if (factor === n) break;
+        if (factor > 1n) return factor;
+      }
+    }
+  }
+
+  throw new Error('Too large to factor');
+}
+
+/**
+ * Prime factors of |n| with their exponents, in increasing order; none for ±1
+ */
+export function primeFactors(n: bigint): PrimePower[] {
+  if (n === 0n) {
+    throw new Error('Cannot factor 0');
+  }
+
+  const exponents = new Map<bigint, number>();
+  const add = (prime: bigint) => exponents.set(prime, (exponents.get(prime) ?? 0) + 1);
+
+  let rest = abs(n);
+  for (let p = 2n; p < TRIAL_DIVISION_LIMIT && p * p <= rest; p += p === 2n ? 1n : 2n) {
+    while (rest % p === 0n) {
+      add(p);
+      rest /= p;
+    }
+  }
+
+  // What is left has no small factors; split it until every part is prime
+  const pending = rest > 1n ? [rest] : [];
+  while (pending.length > 0) {
+    const m = pending.pop() as bigint;
+    if (isPrime(m)) {
+      add(m);
+    } else {
+      const factor = findFactor(m);
+      pending.push(factor, m / factor);
+    }
+  }
+
+  return [...exponents]
+    .map(([prime, exponent]) => ({ prime, exponent }))
+    .sort((a, b) => (a.prime < b.prime ? -1 : 1));
+}
+
+/**
+ * Euler's totient: how many integers from 1 to n are coprime to n
+ */
+export function totient(n: bigint): bigint {
+  if (n < 1n) {
+    throw new Error('Argument must be positive');
+  }
+  return primeFactors(n).reduce(
+    (result, { prime }) => (result / prime) * (prime - 1n),
+    n
+  );
+}
+
+/**
+ * Write a factorization as `2^3·3^2·5`, with a leading minus sign for a
+ * negative number and `1` when there are no factors
+ */
+export function formatFactorization(factors: readonly PrimePower[], negative = false): string {
+  const product = factors
+    .map(({ prime, exponent }) => (exponent === 1 ? `${prime}` : `${prime}^${exponent}`))
+    .join('·');
+  return `${negative ? '-' : ''}${product || '1'}`;
+}
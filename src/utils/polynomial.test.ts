@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { factorPolynomial, polynomialRoots } from './polynomial';
+
+describe('polynomial', () => {
+  describe('factorPolynomial', () => {
+    it('factors out rational roots', () => {
+      // x^2 - 1
+      expect(factorPolynomial([-1, 0, 1], 'x')).toBe('(x - 1) * (x + 1)');
+      // 6x^2 - x - 2
+      expect(factorPolynomial([-2, -1, 6], 'x')).toBe('(3x - 2) * (2x + 1)');
+    });
+
+    it('groups repeated roots', () => {
+      // x^3 - 3x^2 + 3x - 1
+      expect(factorPolynomial([-1, 3, -3, 1], 'x')).toBe('(x - 1)^3');
+    });
+
+    it('factors out powers of the variable', () => {
+      // x^4 - x^2
+      expect(factorPolynomial([0, 0, -1, 0, 1], 't')).toBe('t^2 * (t - 1) * (t + 1)');
+      expect(factorPolynomial([0, 0, 1], 'x')).toBe('x^2');
+    });
+
+    it('keeps factors without rational roots', () => {
+      expect(factorPolynomial([1, 0, 1], 'x')).toBe('x^2 + 1');
+      // x^4 - 1
+      expect(factorPolynomial([-1, 0, 0, 0, 1], 'x')).toBe('(x - 1) * (x + 1) * (x^2 + 1)');
+    });
+
+    it('pulls out the constant factor', () => {
+      // 2x^2 + 4x + 2
+      expect(factorPolynomial([2, 4, 2], 'x')).toBe('2 * (x + 1)^2');
+      // -x^2 + 1
+      expect(factorPolynomial([1, 0, -1], 'x')).toBe('-(x - 1) * (x + 1)');
+      // x^2 / 4 - 1 / 16
+      expect(factorPolynomial([-0.0625, 0, 0.25], 'x')).toBe('(2x - 1) * (2x + 1) / 16');
+    });
+
+    it('returns constants unchanged', () => {
+      expect(factorPolynomial([0.5], 'x')).toBe('1/2');
+      expect(factorPolynomial([3, 0, 0], 'x')).toBe('3');
+    });
+  });
+
+  describe('polynomialRoots', () => {
+    const real = (re: number, multiplicity = 1) => ({ re, im: 0, multiplicity });
+
+    it('finds rational roots exactly', () => {
+      // x^2 - 1
+      expect(polynomialRoots([-1, 0, 1])).toEqual([real(-1), real(1)]);
+      // 2x^2 + 3x + 1
+      expect(polynomialRoots([1, 3, 2])).toEqual([real(-1), real(-0.5)]);
+    });
+
+    it('finds complex roots as conjugate pairs', () => {
+      expect(polynomialRoots([1, 0, 1])).toEqual([
+        { re: 0, im: 1, multiplicity: 1 },
+        { re: 0, im: -1, multiplicity: 1 },
+      ]);
+
+      // x^3 - 2x - 5
+      const [root, upper, lower] = polynomialRoots([-5, -2, 0, 1]);
+      expect(root.re).toBeCloseTo(2.0945514815423265, 14);
+      expect(upper.re).toBeCloseTo(-1.0472757407711633, 14);
+      expect(upper.im).toBeCloseTo(1.135939889088928, 14);
+      expect(lower).toEqual({ ...upper, im: -upper.im });
+    });
+
+    it('reports multiplicities', () => {
+      // (x - 1)^2 (x + 2)
+      expect(polynomialRoots([2, -3, 0, 1])).toEqual([real(-2), real(1, 2)]);
+      // x^3
+      expect(polynomialRoots([0, 0, 0, 1])).toEqual([real(0, 3)]);
+      // (x^2 + 1)^2
+      expect(polynomialRoots([1, 0, 2, 0, 1])).toEqual([
+        { re: 0, im: 1, multiplicity: 2 },
+        { re: 0, im: -1, multiplicity: 2 },
+      ]);
+    });
+
+    it('finds repeated roots of degree 10 accurately', () => {
+      // (x - 1)^10
+      expect(polynomialRoots([1, -10, 45, -120, 210, -252, 210, -120, 45, -10, 1])).toEqual([
+        real(1, 10),
+      ]);
+    });
+
+    it('finds all ten roots of unity', () => {
+      const roots = polynomialRoots([-1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+      expect(roots).toHaveLength(10);
+      expect(roots.slice(0, 2)).toEqual([real(-1), real(1)]);
+      roots.forEach((root) => expect(Math.hypot(root.re, root.im)).toBeCloseTo(1, 14));
+    });
+
+    it('handles coefficients that are not rational', () => {
+      const [root] = polynomialRoots([Math.PI, 1]);
+      expect(root.re).toBeCloseTo(-Math.PI, 14);
+    });
+
+    it('returns no roots for a constant', () => {
+      expect(polynomialRoots([3])).toEqual([]);
+    });
+
+    it('rejects the zero polynomial and high degrees', () => {
+      expect(() => polynomialRoots([0, 0])).toThrow('Invalid polynomial');
+      expect(() => polynomialRoots([...new Array(11).fill(0), 1])).toThrow('Degree too high');
+    });
+  });
+});
@@ -0,0 +1,522 @@
+import { fraction, type Fraction } from 'mathjs';
+import type { PolynomialRoot } from '../types';
+
+/**
+ * Largest divisor tried when looking for rational roots; polynomials whose
+ * leading or constant coefficient exceeds its square are left unfactored
+ */
+const MAX_DIVISOR_SEARCH = 1e4;
+
+/**
+ * Highest degree accepted by the root finder
+ */
+export const MAX_ROOT_DEGREE = 10;
+
+/**
+ * Most iterations of the Aberth–Ehrlich method
+ */
+const MAX_ROOT_ITERATIONS = 500;
+
+/**
+ * Size of a correction, relative to the root, at which a root has converged
+ */
+const ROOT_TOLERANCE = 1e-15;
+
+/**
+ * Imaginary parts smaller than this, relative to the root, are rounding noise
+ */
+const REAL_ROOT_TOLERANCE = 1e-10;
+
+/**
+ * Most Newton steps taken to refine each root
+ */
+const MAX_POLISH_ITERATIONS = 10;
+
+/**
+ * Positive divisors of an integer, or null if it is too large to search
+ */
+function divisors(value: bigint): bigint[] | null {
+  const n = value < 0n ? -value : value;
+  if (n > BigInt(MAX_DIVISOR_SEARCH) ** 2n) {
+    return null;
+  }
+
+  const small: bigint[] = [];
+  const large: bigint[] = [];
+  for (let d = 1n; d * d <= n; d++) {
+    if (n % d === 0n) {
+      small.push(d);
+      if (d * d !== n) large.unshift(n / d);
+    }
+  }
+  return [...small, ...large];
+}
+
+/**
+ * Greatest common divisor of two integers, always non-negative
+ */
+function gcdInteger(a: bigint, b: bigint): bigint {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+/**
+ * Scale a polynomial with coefficients from the constant term up to integer
+ * coefficients from the highest power down, without leading zeros. Returns
+ * the integers with the common denominator they were multiplied by.
+ */
+function toIntegerPolynomial(coefficients: readonly number[]): {
+  integers: bigint[];
+  denominator: bigint;
+} {
+  const fractions: Fraction[] = coefficients.map((c) => fraction(c));
+  const denominator = fractions.reduce((acc, c) => (acc * c.d) / gcdInteger(acc, c.d), 1n);
+  const integers = fractions.map((c) => (c.s * c.n * denominator) / c.d).reverse();
+  return { integers: trimPolynomial(integers), denominator };
+}
+
+/**
+ * Drop leading zero coefficients; the zero polynomial becomes empty
+ */
+function trimPolynomial(coefficients: readonly bigint[]): bigint[] {
+  const first = coefficients.findIndex((c) => c !== 0n);
+  return first === -1 ? [] : coefficients.slice(first);
+}
+
+/**
+ * Divide an integer polynomial by the gcd of its coefficients, making the
+ * leading coefficient positive
+ */
+function primitivePart(coefficients: readonly bigint[]): bigint[] {
+  if (coefficients.length === 0) return [];
+  let content = coefficients.reduce((acc, c) => gcdInteger(acc, c), 0n);
+  if (coefficients[0] < 0n) content = -content;
+  return coefficients.map((c) => c / content);
+}
+
+/**
+ * Derivative of a polynomial (coefficients from the highest power down)
+ */
+function differentiatePolynomial(coefficients: readonly bigint[]): bigint[] {
+  const degree = coefficients.length - 1;
+  return coefficients.slice(0, -1).map((c, index) => c * BigInt(degree - index));
+}
+
+/**
+ * Pseudo-remainder of `a` divided by `b`, which stays in integers by
+ * scaling `a` by the leading coefficient of `b` at each step
+ */
+function pseudoRemainder(a: readonly bigint[], b: readonly bigint[]): bigint[] {
+  let remainder = trimPolynomial(a);
+  while (remainder.length >= b.length) {
+    const lead = remainder[0];
+    remainder = trimPolynomial(
+      remainder.map((c, index) => c * b[0] - (index < b.length ? lead * b[index] : 0n)).slice(1)
+    );
+  }
+  return remainder;
+}
+
+/**
+ * Greatest common divisor of two integer polynomials, primitive
+ */
+function gcdPolynomial(a: readonly bigint[], b: readonly bigint[]): bigint[] {
+  let x = primitivePart(trimPolynomial(a));
+  let y = primitivePart(trimPolynomial(b));
+  while (y.length > 0) {
+    [x, y] = [y, primitivePart(pseudoRemainder(x, y))];
+  }
+  return x;
+}
+
+/**
+ * Quotient of integer polynomials when `b` divides `a` exactly
+ */
+function dividePolynomial(a: readonly bigint[], b: readonly bigint[]): bigint[] {
+  const remainder = [...a];
+  const quotient: bigint[] = [];
+  for (let i = 0; i <= a.length - b.length; i++) {
+    const q = remainder[i] / b[0];
+    quotient.push(q);
+    b.forEach((c, j) => {
+      remainder[i + j] -= q * c;
+    });
+  }
+  return quotient;
+}
+
+/**
+ * Subtract integer polynomials
+ */
+function subtractPolynomial(a: readonly bigint[], b: readonly bigint[]): bigint[] {
+  const length = Math.max(a.length, b.length);
+  const pad = (p: readonly bigint[]) => [...new Array<bigint>(length - p.length).fill(0n), ...p];
+  const [x, y] = [pad(a), pad(b)];
+  return trimPolynomial(x.map((c, index) => c - y[index]));
+}
+
+/**
+ * Factor whose roots all have the same multiplicity
+ */
+interface SquareFreeFactor {
+  readonly factor: bigint[];
+  readonly multiplicity: number;
+}
+
+/**
+ * Split a primitive polynomial into square-free factors, each with the
+ * multiplicity of its roots (Yun's algorithm)
+ */
+function squareFreeFactors(coefficients: readonly bigint[]): SquareFreeFactor[] {
+  const factors: SquareFreeFactor[] = [];
+  const derivative = differentiatePolynomial(coefficients);
+  const common = gcdPolynomial(coefficients, derivative);
+
+  let w = dividePolynomial(coefficients, common);
+  let z = subtractPolynomial(dividePolynomial(derivative, common), differentiatePolynomial(w));
+  for (let multiplicity = 1; w.length > 1; multiplicity++) {
+    const factor = gcdPolynomial(w, z);
+    if (factor.length > 1) {
+      factors.push({ factor, multiplicity });
+    }
+    w = dividePolynomial(w, factor);
+    z = subtractPolynomial(dividePolynomial(z, factor), differentiatePolynomial(w));
+  }
+  return factors;
+}
+
+/**
+ * Complex number as a pair of parts, for the root finder
+ */
+interface Point {
+  re: number;
+  im: number;
+}
+
+/**
+ * Sum of two complex numbers
+ */
+function add(a: Point, b: Point): Point {
+  return { re: a.re + b.re, im: a.im + b.im };
+}
+
+/**
+ * Difference of two complex numbers
+ */
+function subtract(a: Point, b: Point): Point {
+  return { re: a.re - b.re, im: a.im - b.im };
+}
+
+/**
+ * Product of two complex numbers
+ */
+function multiply(a: Point, b: Point): Point {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+/**
+ * Quotient of two complex numbers
+ */
+function divide(a: Point, b: Point): Point {
+  const size = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / size, im: (a.im * b.re - a.re * b.im) / size };
+}
+
+/**
+ * Absolute value of a complex number
+ */
+function magnitude(a: Point): number {
+  return Math.hypot(a.re, a.im);
+}
+
+/**
+ * Value and derivative of a polynomial (coefficients from the highest
+ * power down) at a point, by Horner's method
+ */
+function evaluatePolynomial(coefficients: readonly number[], z: Point): [Point, Point] {
+  let value: Point = { re: 0, im: 0 };
+  let derivative: Point = { re: 0, im: 0 };
+  for (const c of coefficients) {
+    derivative = add(multiply(derivative, z), value);
+    value = add(multiply(value, z), { re: c, im: 0 });
+  }
+  return [value, derivative];
+}
+
+/**
+ * Find every root of a polynomial with simple roots at once with the
+ * Aberth–Ehrlich method
+ */
+function simpleRoots(coefficients: readonly number[]): Point[] {
+  const degree = coefficients.length - 1;
+  const monic = coefficients.map((c) => c / coefficients[0]);
+
+  // Start on a circle enclosing every root, off the real axis
+  const radius = 1 + Math.max(...monic.slice(1).map(Math.abs));
+  const roots: Point[] = Array.from({ length: degree }, (_, k) => {
+    const angle = (2 * Math.PI * k) / degree + 0.4;
+    return { re: radius * Math.cos(angle), im: radius * Math.sin(angle) };
+  });
+
+  for (let iteration = 0; iteration < MAX_ROOT_ITERATIONS; iteration++) {
+    let converged = true;
+    roots.forEach((z, k) => {
+      const [value, derivative] = evaluatePolynomial(monic, z);
+      if (value.re === 0 && value.im === 0) return;
+
+      const ratio = divide(value, derivative);
+      let repulsion: Point = { re: 0, im: 0 };
+      roots.forEach((other, j) => {
+        if (j !== k) repulsion = add(repulsion, divide({ re: 1, im: 0 }, subtract(z, other)));
+      });
+      const correction = divide(ratio, subtract({ re: 1, im: 0 }, multiply(ratio, repulsion)));
+      roots[k] = subtract(z, correction);
+
+      if (magnitude(correction) > ROOT_TOLERANCE * Math.max(1, magnitude(z))) {
+        converged = false;
+      }
+    });
+    if (converged) break;
+  }
+
+  return roots;
+}
+
+/**
+ * Refine a root against the polynomial as given, whose coefficients may not
+ * be exactly rational, with Newton's method adjusted for the multiplicity
+ */
+function polishRoot(coefficients: readonly number[], root: Point, multiplicity: number): Point {
+  let z = root;
+  let residual = magnitude(evaluatePolynomial(coefficients, z)[0]);
+  for (let i = 0; i < MAX_POLISH_ITERATIONS && residual > 0; i++) {
+    const [value, derivative] = evaluatePolynomial(coefficients, z);
+    const next = subtract(z, multiply({ re: multiplicity, im: 0 }, divide(value, derivative)));
+    const nextResidual = magnitude(evaluatePolynomial(coefficients, next)[0]);
+    if (!(nextResidual < residual)) break;
+    z = next;
+    residual = nextResidual;
+  }
+  return z;
+}
+
+/**
+ * Replace each part of a root with the shortest decimal that fits the
+ * polynomial at least as well, so 0.9999999999999998 becomes 1
+ */
+function snapRoot(coefficients: readonly number[], root: Point): Point {
+  const residual = (z: Point) => magnitude(evaluatePolynomial(coefficients, z)[0]);
+  const snap = (value: number, withValue: (part: number) => Point) => {
+    const best = residual(withValue(value));
+    for (let digits = 1; digits < 16; digits++) {
+      const candidate = Number(value.toPrecision(digits));
+      if (residual(withValue(candidate)) <= best) return candidate;
+    }
+    return value;
+  };
+
+  const re = snap(root.re, (part) => ({ re: part, im: root.im }));
+  const im = root.im === 0 ? 0 : snap(root.im, (part) => ({ re, im: part }));
+  return { re, im };
+}
+
+/**
+ * Find every root of a polynomial, real and complex, with multiplicities.
+ * Coefficients are given from the constant term up. Repeated roots are
+ * split off exactly first, so each is found as accurately as a simple root.
+ * Real roots come first in increasing order, then complex conjugate pairs.
+ */
+export function polynomialRoots(coefficients: readonly number[]): PolynomialRoot[] {
+  const { integers } = toIntegerPolynomial(coefficients);
+  if (integers.length === 0) {
+    throw new Error('Invalid polynomial');
+  }
+  if (integers.length - 1 > MAX_ROOT_DEGREE) {
+    throw new Error('Degree too high');
+  }
+
+  const original = [...coefficients].reverse();
+  const roots: PolynomialRoot[] = [];
+  for (const { factor, multiplicity } of squareFreeFactors(primitivePart(integers))) {
+    for (const z of simpleRoots(factor.map(Number))) {
+      const polished = polishRoot(original, z, multiplicity);
+      const size = REAL_ROOT_TOLERANCE * Math.max(1, magnitude(polished));
+      const root = snapRoot(original, {
+        re: Math.abs(polished.re) <= size ? 0 : polished.re,
+        im: Math.abs(polished.im) <= size ? 0 : polished.im,
+      });
+      roots.push({ re: root.re, im: root.im, multiplicity });
+    }
+  }
+
+  // Conjugates of the roots above the real axis, so pairs match exactly
+  const real = roots.filter((root) => root.im === 0);
+  const upper = roots.filter((root) => root.im > 0);
+  const complex =
+    real.length + 2 * upper.length === roots.length
+      ? upper.flatMap((root) => [root, { ...root, im: -root.im }])
+      : roots.filter((root) => root.im !== 0);
+
+  return [
+    ...real.sort((a, b) => a.re - b.re),
+    ...complex.sort((a, b) => a.re - b.re || b.im - a.im),
+  ];
+}
+
+/**
+ * Divide a polynomial (coefficients from the highest power down) by
+ * `q·x - p`, returning the quotient, or null if it does not divide exactly
+ */
+function divideByLinear(coefficients: readonly bigint[], p: bigint, q: bigint): bigint[] | null {
+  const quotient: bigint[] = [];
+  let carry = 0n;
+
+  for (let i = 0; i < coefficients.length - 1; i++) {
+    const value = coefficients[i] + carry;
+    if (value % q !== 0n) {
+      return null;
+    }
+    quotient.push(value / q);
+    carry = (value / q) * p;
+  }
+
+  return coefficients[coefficients.length - 1] + carry === 0n ? quotient : null;
+}
+
+/**
+ * Factor of a polynomial raised to its multiplicity
+ */
+interface Factor {
+  readonly base: string;
+  readonly power: number;
+}
+
+/**
+ * Write `x` or `x^n`
+ */
+function formatPower(variable: string, power: number): string {
+  return power === 1 ? variable : `${variable}^${power}`;
+}
+
+/**
+ * Write a factor in a product, e.g. `x^2` or `(x - 1)^2`
+ */
+function formatFactor({ base, power }: Factor): string {
+  const grouped = base.includes(' ') ? `(${base})` : base;
+  return power === 1 ? grouped : `${grouped}^${power}`;
+}
+
+/**
+ * Write an integer polynomial (coefficients from the highest power down),
+ * e.g. `2x^2 - x + 3`
+ */
+function formatPolynomial(coefficients: readonly bigint[], variable: string): string {
+  const degree = coefficients.length - 1;
+  let text = '';
+
+  coefficients.forEach((coefficient, index) => {
+    if (coefficient === 0n) return;
+
+    const power = degree - index;
+    const negative = coefficient < 0n;
+    const magnitude = negative ? -coefficient : coefficient;
+    const showMagnitude = magnitude !== 1n || power === 0;
+    const term =
+      (showMagnitude ? magnitude.toString() : '') + (power > 0 ? formatPower(variable, power) : '');
+
+    if (!text) {
+      text = negative ? `-${term}` : term;
+    } else {
+      text += negative ? ` - ${term}` : ` + ${term}`;
+    }
+  });
+
+  return text || '0';
+}
+
+/**
+ * Factor a polynomial in one variable over the rationals, splitting off a
+ * constant, powers of the variable and a linear factor for each rational
+ * root. Coefficients are given from the constant term up, as returned by
+ * math.js `rationalize`. Returns the factored form in calculator syntax,
+ * e.g. `2 * (x - 1)^2 * (x + 3)` or `(2x - 1) * (2x + 1) / 4`.
+ */
+export function factorPolynomial(coefficients: readonly number[], variable: string): string {
+  const scaled = toIntegerPolynomial(coefficients);
+  const denominator = scaled.denominator;
+  let integers = scaled.integers;
+  if (integers.length === 0) {
+    return '0';
+  }
+  if (integers.length === 1) {
+    return fraction(`${integers[0]}/${denominator}`).toFraction();
+  }
+
+  // Pull out the content, with the sign of the leading coefficient
+  let content = integers.reduce((acc, c) => gcdInteger(acc, c), 0n);
+  if (integers[0] < 0n) content = -content;
+  integers = integers.map((c) => c / content);
+
+  const factors: Factor[] = [];
+
+  // Powers of the variable for zero roots
+  let zeroRoots = 0;
+  while (integers[integers.length - 1] === 0n) {
+    integers = integers.slice(0, -1);
+    zeroRoots++;
+  }
+  if (zeroRoots > 0) {
+    factors.push({ base: variable, power: zeroRoots });
+  }
+
+  // Rational roots p/q have p dividing the constant term and q the leading coefficient
+  const numerators = divisors(integers[integers.length - 1]);
+  const denominators = divisors(integers[0]);
+  if (numerators && denominators) {
+    const roots: [bigint, bigint][] = [];
+    for (const q of denominators) {
+      for (const p of numerators) {
+        if (gcdInteger(p, q) === 1n) roots.push([p, q], [-p, q]);
+      }
+    }
+    // Larger roots first: (x - 2)(x + 1)
+    roots.sort(([p1, q1], [p2, q2]) => (p2 * q1 > p1 * q2 ? 1 : p2 * q1 < p1 * q2 ? -1 : 0));
+
+    for (const [p, q] of roots) {
+      if (integers.length === 1) break;
+
+      let multiplicity = 0;
+      let quotient = divideByLinear(integers, p, q);
+      while (quotient && integers.length > 1) {
+        integers = quotient;
+        multiplicity++;
+        quotient = divideByLinear(integers, p, q);
+      }
+      if (multiplicity > 0) {
+        factors.push({ base: formatPolynomial([q, -p], variable), power: multiplicity });
+      }
+    }
+  }
+
+  // Whatever has no rational roots is left as it is
+  if (integers.length > 1) {
+    factors.push({ base: formatPolynomial(integers, variable), power: 1 });
+  }
+
+  // The constant goes in front, with any denominator at the end: -3 * x^2 / 4
+  const common = gcdInteger(content, denominator);
+  const numerator = content / common;
+  const divisor = denominator / common;
+  if (numerator === 1n && divisor === 1n && factors.length === 1 && factors[0].power === 1) {
+    return factors[0].base;
+  }
+
+  const product = factors.map(formatFactor).join(' * ');
+  const prefix = numerator === 1n ? '' : numerator === -1n ? '-' : `${numerator} * `;
+  const suffix = divisor === 1n ? '' : ` / ${divisor}`;
+  return `${prefix}${product}${suffix}`;
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertExpressionBase,
+  convertResult,
+  evaluateProgrammer,
+  formatAllBases,
+  formatInteger,
+  isDigitInBase,
+  parseInteger,
+  wrapInteger,
+} from './programmer';
+import type { ProgrammerSettings } from '../types';
+
+const DEC64: ProgrammerSettings = { base: 'dec', wordSize: 64, signed: true };
+const HEX32: ProgrammerSettings = { base: 'hex', wordSize: 32, signed: false };
+
+/**
+ * Evaluate and return the displayed result, failing the test on errors
+ */
+function display(expression: string, settings: ProgrammerSettings = DEC64): string {
+  const result = evaluateProgrammer(expression, settings);
+  if (!result.success) {
+    throw new Error(`${expression}: ${result.error}`);
+  }
+  return result.displayValue;
+}
+
+describe('programmer', () => {
+  describe('isDigitInBase', () => {
+    it('accepts digits valid in the base', () => {
+      expect(isDigitInBase('1', 'bin')).toBe(true);
+      expect(isDigitInBase('7', 'oct')).toBe(true);
+      expect(isDigitInBase('f', 'hex')).toBe(true);
+    });
+
+    it('rejects digits outside the base', () => {
+      expect(isDigitInBase('2', 'bin')).toBe(false);
+      expect(isDigitInBase('8', 'oct')).toBe(false);
+      expect(isDigitInBase('A', 'dec')).toBe(false);
+      expect(isDigitInBase('.', 'dec')).toBe(false);
+    });
+  });
+
+  describe('parseInteger', () => {
+    it('parses literals in each base', () => {
+      expect(parseInteger('FF', 'hex')).toBe(255n);
+      expect(parseInteger('ff', 'hex')).toBe(255n);
+      expect(parseInteger('777', 'oct')).toBe(511n);
+      expect(parseInteger('1010', 'bin')).toBe(10n);
+    });
+
+    it('throws on invalid digits', () => {
+      expect(() => parseInteger('12', 'bin')).toThrow('Invalid digit');
+    });
+  });
+
+  describe('wrapInteger', () => {
+    it('wraps signed values to the word size', () => {
+      expect(wrapInteger(128n, { base: 'dec', wordSize: 8, signed: true })).toBe(-128n);
+    });
+
+    it('wraps unsigned values to the word size', () => {
+      expect(wrapInteger(-1n, { base: 'dec', wordSize: 16, signed: false })).toBe(65535n);
+    });
+  });
+
+  describe('formatInteger', () => {
+    it('shows two\'s complement outside decimal', () => {
+      expect(formatInteger(-1n, 'hex', 16)).toBe('FFFF');
+      expect(formatInteger(-1n, 'dec', 16)).toBe('-1');
+      expect(formatInteger(5n, 'bin', 8)).toBe('101');
+    });
+  });
+
+  describe('evaluateProgrammer', () => {
+    it('evaluates arithmetic with integer division', () => {
+      expect(display('7 / 2')).toBe('3');
+      expect(display('-7 / 2')).toBe('-3');
+      expect(display('7 % 3')).toBe('1');
+      expect(display('2 + 3 × 4')).toBe('14');
+    });
+
+    it('reads numbers in the current base', () => {
+      expect(display('FF + 1', HEX32)).toBe('100');
+      expect(display('101 + 1', { ...DEC64, base: 'bin' })).toBe('110');
+    });
+
+    it('evaluates bitwise operators', () => {
+      expect(display('F0 & 3C', HEX32)).toBe('30');
+      expect(display('F0 | 0F', HEX32)).toBe('FF');
+      expect(display('FF ^ 0F', HEX32)).toBe('F0');
+      expect(display('~0', HEX32)).toBe('FFFFFFFF');
+      expect(display('1 << 4')).toBe('16');
+      expect(display('256 >> 4')).toBe('16');
+    });
+
+    it('accepts operator keywords', () => {
+      expect(display('F0 AND 3C', HEX32)).toBe('30');
+      expect(display('12 xor 10')).toBe('6');
+      expect(display('NOT 0')).toBe('-1');
+      expect(display('10 MOD 4')).toBe('2');
+    });
+
+    it('uses C operator precedence', () => {
+      expect(display('1 + 2 << 1')).toBe('6');
+      expect(display('6 & 3 | 8')).toBe('10');
+      expect(display('(6 | 3) & 4')).toBe('4');
+    });
+
+    it('wraps overflow to the word size', () => {
+      const int8: ProgrammerSettings = { base: 'dec', wordSize: 8, signed: true };
+      expect(display('127 + 1', int8)).toBe('-128');
+      expect(display('255 + 1', { ...int8, signed: false })).toBe('0');
+      expect(display('1 << 8', int8)).toBe('0');
+    });
+
+    it('keeps full precision at 64 bits', () => {
+      expect(display('9223372036854775807 + 1')).toBe('-9223372036854775808');
+      expect(display('~0', { base: 'hex', wordSize: 64, signed: false })).toBe(
+        'FFFFFFFFFFFFFFFF'
+      );
+    });
+
+    it('shifts right arithmetically for signed values', () => {
+      expect(display('-16 >> 2')).toBe('-4');
+      expect(display('-1 >> 100')).toBe('-1');
+    });
+
+    it('reports errors', () => {
+      const cases: [string, string][] = [
+        ['1 / 0', 'Divide by zero'],
+        ['1.5', 'Integers only'],
+        ['2 +', 'Incomplete expression'],
+        ['(1 + 2', 'Missing )'],
+        ['1 << -1', 'Negative shift'],
+        ['', 'Empty expression'],
+      ];
+      for (const [expression, error] of cases) {
+        const result = evaluateProgrammer(expression, DEC64);
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toBe(error);
+        }
+      }
+    });
+
+    it('rejects digits that are not valid in the base', () => {
+      const result = evaluateProgrammer('12', { ...DEC64, base: 'bin' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('formatAllBases', () => {
+    it('shows a result in every base', () => {
+      expect(formatAllBases('-1', { base: 'dec', wordSize: 8, signed: true })).toEqual({
+        hex: 'FF',
+        dec: '-1',
+        oct: '377',
+        bin: '11111111',
+      });
+    });
+
+    it('returns null for text that is not an integer', () => {
+      expect(formatAllBases('Error', DEC64)).toBeNull();
+    });
+  });
+
+  describe('convertResult', () => {
+    it('converts between bases', () => {
+      expect(convertResult('255', DEC64, { ...DEC64, base: 'hex' })).toBe('FF');
+    });
+
+    it('reinterprets bits when signedness changes', () => {
+      const signed: ProgrammerSettings = { base: 'dec', wordSize: 8, signed: true };
+      expect(convertResult('-1', signed, { ...signed, signed: false })).toBe('255');
+    });
+
+    it('leaves non-integers unchanged', () => {
+      expect(convertResult('3.5', DEC64, HEX32)).toBe('3.5');
+    });
+  });
+
+  describe('convertExpressionBase', () => {
+    it('rewrites number literals', () => {
+      expect(convertExpressionBase('FF+1', 'hex', 'dec')).toBe('255+1');
+      expect(convertExpressionBase('10 AND 12', 'dec', 'bin')).toBe('1010 AND 1100');
+    });
+  });
+});
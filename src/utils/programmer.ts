@@ -0,0 +1,352 @@
+import type { CalculationResult, NumberBase, ProgrammerSettings, WordSize } from '../types';
+
+/**
+ * Radix of each number base
+ */
+export const RADIX: Record<NumberBase, number> = {
+  hex: 16,
+  dec: 10,
+  oct: 8,
+  bin: 2,
+};
+
+/**
+ * Word sizes offered in programmer mode
+ */
+export const WORD_SIZES: WordSize[] = [8, 16, 32, 64];
+
+/**
+ * Digits in order of value, used to check input against the current base
+ */
+const DIGITS = '0123456789ABCDEF';
+
+/**
+ * Operator keywords that may be typed instead of symbols
+ */
+const KEYWORDS: Record<string, string> = {
+  AND: '&',
+  OR: '|',
+  XOR: '^',
+  NOT: '~',
+  MOD: '%',
+};
+
+/**
+ * Errors that mean the expression could not be read; the rest are domain errors
+ */
+const SYNTAX_ERRORS = [
+  'Syntax Error',
+  'Incomplete expression',
+  'Missing )',
+  'Invalid number',
+  'Invalid digit',
+];
+
+/**
+ * Binary operators from lowest to highest precedence, as in C
+ */
+const PRECEDENCE: readonly (readonly string[])[] = [
+  ['|'],
+  ['^'],
+  ['&'],
+  ['<<', '>>'],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/**
+ * Symbols that form operator tokens, longest first
+ */
+const OPERATOR_SYMBOLS = ['<<', '>>', '+', '-', '*', '/', '%', '&', '|', '^', '~', '(', ')'];
+
+/**
+ * Check whether a digit can be entered in the given base
+ */
+export function isDigitInBase(digit: string, base: NumberBase): boolean {
+  const index = DIGITS.indexOf(digit.toUpperCase());
+  return index !== -1 && index < RADIX[base];
+}
+
+/**
+ * Wrap an integer to the word size, as fixed-width hardware registers do
+ */
+export function wrapInteger(value: bigint, settings: ProgrammerSettings): bigint {
+  return settings.signed
+    ? BigInt.asIntN(settings.wordSize, value)
+    : BigInt.asUintN(settings.wordSize, value);
+}
+
+/**
+ * Format an integer in a base. Decimal shows the signed value; the other
+ * bases show the two's complement bit pattern for the word size.
+ */
+export function formatInteger(value: bigint, base: NumberBase, wordSize: WordSize): string {
+  if (base === 'dec') {
+    return value.toString();
+  }
+  return BigInt.asUintN(wordSize, value).toString(RADIX[base]).toUpperCase();
+}
+
+/**
+ * Parse an unsigned integer literal written in a base
+ */
+export function parseInteger(text: string, base: NumberBase): bigint {
+  const digits = text.trim().toUpperCase();
+  if (!digits) {
+    throw new Error('Invalid number');
+  }
+
+  const radix = BigInt(RADIX[base]);
+  let value = 0n;
+  for (const digit of digits) {
+    if (!isDigitInBase(digit, base)) {
+      throw new Error('Invalid digit');
+    }
+    value = value * radix + BigInt(DIGITS.indexOf(digit));
+  }
+  return value;
+}
+
+/**
+ * Parse a displayed result (which may be negative in decimal) back into an
+ * integer wrapped to the word size
+ */
+export function parseResult(text: string, settings: ProgrammerSettings): bigint {
+  const trimmed = text.trim();
+  const value = trimmed.startsWith('-')
+    ? -parseInteger(trimmed.slice(1), settings.base)
+    : parseInteger(trimmed, settings.base);
+  return wrapInteger(value, settings);
+}
+
+/**
+ * Show a displayed result in every base, e.g. for the programmer display.
+ * Returns null if the text is not an integer in the current base.
+ */
+export function formatAllBases(
+  text: string,
+  settings: ProgrammerSettings
+): Record<NumberBase, string> | null {
+  try {
+    const value = parseResult(text, settings);
+    return {
+      hex: formatInteger(value, 'hex', settings.wordSize),
+      dec: formatInteger(value, 'dec', settings.wordSize),
+      oct: formatInteger(value, 'oct', settings.wordSize),
+      bin: formatInteger(value, 'bin', settings.wordSize),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-express a displayed result under new settings (base, word size or
+ * signedness). Text that is not an integer is returned unchanged.
+ */
+export function convertResult(
+  text: string,
+  from: ProgrammerSettings,
+  to: ProgrammerSettings
+): string {
+  try {
+    const value = wrapInteger(parseResult(text, from), to);
+    return formatInteger(value, to.base, to.wordSize);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Rewrite the number literals in an expression from one base to another so
+ * the expression keeps its meaning, e.g. `FF+1` in hex becomes `255+1` in decimal
+ */
+export function convertExpressionBase(expression: string, from: NumberBase, to: NumberBase): string {
+  return expression.replace(/[0-9A-Za-z]+/g, (token) => {
+    if (token.toUpperCase() in KEYWORDS) {
+      return token;
+    }
+    try {
+      return parseInteger(token, from).toString(RADIX[to]).toUpperCase();
+    } catch {
+      return token;
+    }
+  });
+}
+
+/**
+ * Split a programmer expression into number, keyword and operator tokens
+ */
+function tokenize(expression: string): string[] {
+  const source = expression.replace(/×/g, '*').replace(/÷/g, '/');
+  const tokens: string[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '.') {
+      throw new Error('Integers only');
+    }
+
+    const word = /^[0-9A-Za-z]+/.exec(source.slice(index));
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push(KEYWORDS[upper] ?? word[0]);
+      index += word[0].length;
+      continue;
+    }
+
+    const symbol = OPERATOR_SYMBOLS.find((op) => source.startsWith(op, index));
+    if (!symbol) {
+      throw new Error('Syntax Error');
+    }
+    tokens.push(symbol);
+    index += symbol.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Apply a binary operator, wrapping the result to the word size
+ */
+function applyOperator(
+  op: string,
+  a: bigint,
+  b: bigint,
+  settings: ProgrammerSettings
+): bigint {
+  const bits = BigInt(settings.wordSize);
+
+  switch (op) {
+    case '+':
+      return wrapInteger(a + b, settings);
+    case '-':
+      return wrapInteger(a - b, settings);
+    case '*':
+      return wrapInteger(a * b, settings);
+    case '/':
+    case '%':
+      if (b === 0n) {
+        throw new Error('Divide by zero');
+      }
+      // BigInt division truncates toward zero, like integer division in C
+      return wrapInteger(op === '/' ? a / b : a % b, settings);
+    case '&':
+      return wrapInteger(a & b, settings);
+    case '|':
+      return wrapInteger(a | b, settings);
+    case '^':
+      return wrapInteger(a ^ b, settings);
+    case '<<':
+    case '>>': {
+      if (b < 0n) {
+        throw new Error('Negative shift');
+      }
+      // Shifting by the word size or more clears every bit (or fills with the sign)
+      const count = b < bits ? b : bits;
+      return wrapInteger(op === '<<' ? a << count : a >> count, settings);
+    }
+    default:
+      throw new Error('Syntax Error');
+  }
+}
+
+/**
+ * Recursive descent evaluation of integer expressions with C precedence
+ */
+function evaluateTokens(tokens: string[], settings: ProgrammerSettings): bigint {
+  let position = 0;
+
+  const parseBinary = (level: number): bigint => {
+    if (level === PRECEDENCE.length) {
+      return parseUnary();
+    }
+
+    let left = parseBinary(level + 1);
+    while (position < tokens.length && PRECEDENCE[level].includes(tokens[position])) {
+      const op = tokens[position++];
+      const right = parseBinary(level + 1);
+      left = applyOperator(op, left, right, settings);
+    }
+    return left;
+  };
+
+  const parseUnary = (): bigint => {
+    const token = tokens[position];
+    if (token === '-' || token === '+' || token === '~') {
+      position++;
+      const operand = parseUnary();
+      if (token === '-') return wrapInteger(-operand, settings);
+      if (token === '~') return wrapInteger(~operand, settings);
+      return operand;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): bigint => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new Error('Incomplete expression');
+    }
+
+    if (token === '(') {
+      const value = parseBinary(0);
+      if (tokens[position++] !== ')') {
+        throw new Error('Missing )');
+      }
+      return value;
+    }
+
+    if (/^[0-9A-Za-z]+$/.test(token)) {
+      return wrapInteger(parseInteger(token, settings.base), settings);
+    }
+
+    throw new Error('Syntax Error');
+  };
+
+  const value = parseBinary(0);
+  if (position < tokens.length) {
+    throw new Error('Syntax Error');
+  }
+  return value;
+}
+
+/**
+ * Evaluate an integer expression in programmer mode. Numbers are read in the
+ * current base and every intermediate result wraps to the word size.
+ */
+export function evaluateProgrammer(
+  expression: string,
+  settings: ProgrammerSettings
+): CalculationResult {
+  if (!expression.trim()) {
+    return {
+      success: false,
+      error: 'Empty expression',
+      kind: 'syntax',
+    };
+  }
+
+  try {
+    const value = evaluateTokens(tokenize(expression), settings);
+    return {
+      success: true,
+      value: value.toString(),
+      displayValue: formatInteger(value, settings.base, settings.wordSize),
+    };
+  } catch (error) {
+    const message = (error as Error).message;
+    return {
+      success: false,
+      error: message,
+      kind: SYNTAX_ERRORS.includes(message) ? 'syntax' : 'domain',
+    };
+  }
+}
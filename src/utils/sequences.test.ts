@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { generateSequence } from './sequences';
+
+describe('sequences', () => {
+  describe('generateSequence', () => {
+    it('computes explicit terms from the start index', () => {
+      const terms = generateSequence((n) => 2 ** n, [], 0, 4);
+      expect(terms.map((term) => term.n)).toEqual([0, 1, 2, 3]);
+      expect(terms.map((term) => term.value)).toEqual([1, 2, 4, 8]);
+    });
+
+    it('keeps running partial sums', () => {
+      const terms = generateSequence((n) => n, [], 1, 5);
+      expect(terms.map((term) => term.partialSum)).toEqual([1, 3, 6, 10, 15]);
+    });
+
+    it('starts a recurrence from its initial terms', () => {
+      const fibonacci = generateSequence(
+        (n, term) => (term(n - 1) ?? NaN) + (term(n - 2) ?? NaN),
+        [1, 1],
+        1,
+        10
+      );
+      expect(fibonacci.map((term) => term.value)).toEqual([1, 1, 2, 3, 5, 8, 13, 21, 34, 55]);
+    });
+
+    it('only looks up earlier terms', () => {
+      const lookups: (number | undefined)[] = [];
+      generateSequence(
+        (n, term) => {
+          lookups.push(term(n - 1), term(n), term(n + 1), term(n - 1.5));
+          return 0;
+        },
+        [7],
+        1,
+        2
+      );
+      expect(lookups).toEqual([7, undefined, undefined, undefined]);
+    });
+
+    it('handles recurrences longer than the call stack allows', () => {
+      const terms = generateSequence((n, term) => (term(n - 1) ?? 0) + 1, [0], 0, 100000);
+      expect(terms[terms.length - 1].value).toBe(99999);
+    });
+
+    it('lets initial terms override an explicit rule', () => {
+      const terms = generateSequence((n) => n * n, [5], 1, 3);
+      expect(terms.map((term) => term.value)).toEqual([5, 4, 9]);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import type { SequenceTerm } from '../types';
+
+/**
+ * Most terms a sequence table lists
+ */
+export const MAX_SEQUENCE_TERMS = 500;
+
+/**
+ * Compute `count` terms of a sequence for n from `start`, each with the sum
+ * of the terms up to it. The first terms are the initial terms given and the
+ * rest come from `rule(n, term)`, where `term(k)` is the earlier term for
+ * index k, or undefined if there is none. Terms are computed in order, so a
+ * recurrence never calls itself and deep recurrences cannot overflow the stack.
+ */
+export function generateSequence(
+  rule: (n: number, term: (k: number) => number | undefined) => number,
+  initialTerms: readonly number[],
+  start: number,
+  count: number
+): SequenceTerm[] {
+  const terms: SequenceTerm[] = [];
+  const term = (k: number): number | undefined => {
+    const index = k - start;
+    return Number.isInteger(index) && index >= 0 ? terms[index]?.value : undefined;
+  };
+
+  let partialSum = 0;
+  for (let i = 0; i < count; i++) {
+    const n = start + i;
+    const value = i < initialTerms.length ? initialTerms[i] : rule(n, term);
+    partialSum += value;
+    terms.push({ n, value, partialSum });
+  }
+
+  return terms;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { findRootNear, findRoots } from './solver';
+
+describe('solver', () => {
+  describe('findRoots', () => {
+    it('finds every root in the interval in increasing order', () => {
+      expect(findRoots((x) => x * x - 4, -10, 10)).toEqual([-2, 2]);
+      const roots = findRoots(Math.sin, -7, 7);
+      expect(roots).toHaveLength(5);
+      roots.forEach((root, index) => expect(root).toBeCloseTo((index - 2) * Math.PI, 12));
+    });
+
+    it('refines roots to full precision', () => {
+      const [root] = findRoots((x) => x ** 3 - 2 * x - 5, -10, 10);
+      expect(root).toBeCloseTo(2.0945514815423265, 14);
+    });
+
+    it('includes roots at the ends of the interval', () => {
+      expect(findRoots((x) => x * x - 4, -2, 2)).toEqual([-2, 2]);
+    });
+
+    it('finds roots that touch zero without crossing it', () => {
+      expect(findRoots((x) => (x - 1) ** 2, -10, 10)).toEqual([1]);
+      expect(findRoots((x) => (x - 1) ** 2 * (x + 3), -10, 10)).toEqual([-3, 1]);
+    });
+
+    it('skips sign changes across poles', () => {
+      const roots = findRoots(Math.tan, -4, 4);
+      expect(roots).toHaveLength(3);
+      expect(roots[1]).toBe(0);
+    });
+
+    it('skips values outside the domain', () => {
+      expect(findRoots((x) => Math.sqrt(x) - 2, -10, 10)).toEqual([4]);
+    });
+
+    it('returns no roots when there are none', () => {
+      expect(findRoots((x) => x * x + 1, -10, 10)).toEqual([]);
+    });
+
+    it('throws for an invalid interval', () => {
+      expect(() => findRoots((x) => x, 1, -1)).toThrow('Invalid interval');
+      expect(() => findRoots((x) => x, 0, Infinity)).toThrow('Invalid interval');
+    });
+  });
+
+  describe('findRootNear', () => {
+    it('finds the root nearest the guess', () => {
+      expect(findRootNear((x) => x * x - 2, 1)).toBeCloseTo(Math.SQRT2, 14);
+      expect(findRootNear((x) => x * x - 2, -1)).toBeCloseTo(-Math.SQRT2, 14);
+      expect(findRootNear((x) => Math.cos(x) - x, 0)).toBeCloseTo(0.7390851332151607, 14);
+    });
+
+    it('keeps Newton steps inside the domain', () => {
+      expect(findRootNear(Math.log, 100)).toBe(1);
+    });
+
+    it('widens the search when Newton’s method fails', () => {
+      // Newton's method cycles between 0 and 1 for this cubic
+      expect(findRootNear((x) => x ** 3 - 2 * x + 2, 0)).toBeCloseTo(-1.7692923542386314, 12);
+      expect(findRootNear((x) => Math.sqrt(x) - 2, -5)).toBe(4);
+    });
+
+    it('returns null when there is no root', () => {
+      expect(findRootNear((x) => x * x + 1, 0)).toBeNull();
+    });
+
+    it('throws for an invalid guess', () => {
+      expect(() => findRootNear((x) => x, NaN)).toThrow('Invalid guess');
+    });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Number of equal steps an interval is sampled in when looking for roots;
+ * roots closer together than one step may be missed
+ */
+const SCAN_STEPS = 1000;
+
+/**
+ * Most iterations of Brent's or Newton's method before giving up
+ */
+const MAX_ITERATIONS = 100;
+
+/**
+ * Requested accuracy of a root, relative to its size
+ */
+const ROOT_TOLERANCE = 1e-14;
+
+/**
+ * Largest residual accepted at a root, relative to the values either side
+ * of it; sign changes across a pole such as tan(x) at π/2 fail this
+ */
+const RESIDUAL_TOLERANCE = 1e-6;
+
+/**
+ * Largest value at a local minimum of |f| counted as a root that touches
+ * zero without crossing it, such as x^2 at 0
+ */
+const TOUCH_TOLERANCE = 1e-10;
+
+/**
+ * Most times the search around a guess doubles its width
+ */
+const MAX_EXPANSIONS = 60;
+
+/**
+ * Evaluate a function, treating non-finite values as missing
+ */
+function sample(f: (x: number) => number, x: number): number {
+  const y = f(x);
+  return Number.isFinite(y) ? y : NaN;
+}
+
+/**
+ * Tolerance for a root near `x`
+ */
+function tolerance(x: number): number {
+  return ROOT_TOLERANCE * Math.max(1, Math.abs(x));
+}
+
+/**
+ * Replace a root with the shortest decimal that fits `f` at least as well,
+ * so 0.9999999999999998 becomes 1 and a touching root found only to about
+ * eight digits snaps to its exact value when it has one
+ */
+function snapRoot(f: (x: number) => number, root: number): number {
+  const residual = Math.abs(sample(f, root));
+  for (let digits = 1; digits < 16; digits++) {
+    const candidate = Number(root.toPrecision(digits));
+    if (Math.abs(sample(f, candidate)) <= residual) {
+      return candidate;
+    }
+  }
+  return root;
+}
+
+/**
+ * Find a root in [a, b] with Brent's method, given values of opposite sign
+ * at the ends. Returns null if the sign change is not a root (e.g. a pole).
+ */
+function brent(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  fa: number,
+  fb: number
+): number | null {
+  const limit = RESIDUAL_TOLERANCE * Math.max(1, Math.abs(fa), Math.abs(fb));
+
+  // b is the best estimate and c the other end of the bracket
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (Math.sign(fb) === Math.sign(fc)) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      [a, b, c] = [b, c, b];
+      [fa, fb, fc] = [fb, fc, fb];
+    }
+
+    const step = tolerance(b);
+    const middle = (c - b) / 2;
+    if (fb === 0 || Math.abs(middle) <= step) {
+      return Math.abs(fb) <= limit ? b : null;
+    }
+
+    if (Math.abs(e) >= step && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation, or the secant method with two points
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * middle * s;
+        q = 1 - s;
+      } else {
+        const r = fb / fc;
+        const t = fa / fc;
+        p = s * (2 * middle * t * (t - r) - (b - a) * (r - 1));
+        q = (t - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+
+      if (2 * p < Math.min(3 * middle * q - Math.abs(step * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = middle;
+        e = d;
+      }
+    } else {
+      // Bisection
+      d = middle;
+      e = d;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > step ? d : Math.sign(middle) * step;
+    fb = sample(f, b);
+    if (Number.isNaN(fb)) {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Minimize |f| between `a` and `b` by golden-section search, for roots
+ * that touch zero without changing sign
+ */
+function touchingRoot(f: (x: number) => number, a: number, b: number): number | null {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const size = (x: number) => Math.abs(sample(f, x));
+
+  let x1 = b - ratio * (b - a);
+  let x2 = a + ratio * (b - a);
+  let f1 = size(x1);
+  let f2 = size(x2);
+
+  for (let i = 0; i < MAX_ITERATIONS && b - a > tolerance(x1); i++) {
+    if (f1 < f2) {
+      b = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = b - ratio * (b - a);
+      f1 = size(x1);
+    } else {
+      a = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = a + ratio * (b - a);
+      f2 = size(x2);
+    }
+  }
+
+  const root = f1 < f2 ? x1 : x2;
+  return Math.min(f1, f2) <= TOUCH_TOLERANCE ? root : null;
+}
+
+/**
+ * Find the real roots of `f` between `min` and `max`, in increasing order.
+ * The interval is sampled for sign changes, which are refined with Brent's
+ * method, and for minima of |f| that touch zero.
+ */
+export function findRoots(f: (x: number) => number, min: number, max: number): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+    throw new Error('Invalid interval');
+  }
+
+  const step = (max - min) / SCAN_STEPS;
+  const xs = Array.from({ length: SCAN_STEPS + 1 }, (_, i) =>
+    i === SCAN_STEPS ? max : min + i * step
+  );
+  const ys = xs.map((x) => sample(f, x));
+  const roots: number[] = [];
+
+  const addRoot = (root: number | null) => {
+    if (root === null) return;
+    root = snapRoot(f, root);
+    const last = roots[roots.length - 1];
+    if (last === undefined || root - last > Math.max(tolerance(root), step / 100)) {
+      roots.push(root);
+    }
+  };
+
+  for (let i = 0; i <= SCAN_STEPS; i++) {
+    const y = ys[i];
+    if (Number.isNaN(y)) continue;
+
+    if (y === 0) {
+      addRoot(xs[i]);
+      continue;
+    }
+
+    const next = ys[i + 1];
+    const previous = ys[i - 1];
+    if (next !== undefined && Math.sign(y) === -Math.sign(next)) {
+      addRoot(brent(f, xs[i], xs[i + 1], y, next));
+    } else if (
+      previous !== undefined &&
+      next !== undefined &&
+      Math.sign(previous) === Math.sign(y) &&
+      Math.sign(next) === Math.sign(y) &&
+      Math.abs(y) <= Math.abs(previous) &&
+      Math.abs(y) <= Math.abs(next)
+    ) {
+      addRoot(touchingRoot(f, xs[i - 1], xs[i + 1]));
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Find a real root of `f` near `guess`, or null if there is none. Newton's
+ * method is tried first; otherwise the search widens around the guess until
+ * the sign of `f` changes and the root is refined with Brent's method.
+ */
+export function findRootNear(f: (x: number) => number, guess: number): number | null {
+  if (!Number.isFinite(guess)) {
+    throw new Error('Invalid guess');
+  }
+
+  // Newton's method with a central difference for the derivative
+  let x = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const y = sample(f, x);
+    if (y === 0) return x;
+
+    const h = 1e-6 * Math.max(1, Math.abs(x));
+    const slope = (sample(f, x + h) - sample(f, x - h)) / (2 * h);
+    let step = y / slope;
+    if (!Number.isFinite(step)) break;
+
+    // Shorten steps that leave the domain, e.g. ln(x) stepping below zero
+    for (let j = 0; j < MAX_EXPANSIONS && Number.isNaN(sample(f, x - step)); j++) {
+      step /= 2;
+    }
+    const next = x - step;
+
+    if (Math.abs(next - x) <= tolerance(next)) {
+      const residual = Math.abs(sample(f, next));
+      if (residual <= TOUCH_TOLERANCE * Math.max(1, Math.abs(slope))) {
+        return snapRoot(f, next);
+      }
+      break;
+    }
+    x = next;
+  }
+
+  // Widen the search on both sides of the guess until the sign changes
+  const y0 = sample(f, guess);
+  let width = 0.1 * Math.max(1, Math.abs(guess));
+  let left = guess;
+  let right = guess;
+  let fLeft = y0;
+  let fRight = y0;
+
+  for (let i = 0; i < MAX_EXPANSIONS; i++) {
+    const nextLeft = guess - width;
+    const nextRight = guess + width;
+    const fNextLeft = sample(f, nextLeft);
+    const fNextRight = sample(f, nextRight);
+
+    if (Math.sign(fRight) === -Math.sign(fNextRight)) {
+      const root = brent(f, right, nextRight, fRight, fNextRight);
+      if (root !== null) return snapRoot(f, root);
+    }
+    if (Math.sign(fLeft) === -Math.sign(fNextLeft)) {
+      const root = brent(f, nextLeft, left, fNextLeft, fLeft);
+      if (root !== null) return snapRoot(f, root);
+    }
+
+    left = nextLeft;
+    right = nextRight;
+    fLeft = fNextLeft;
+    fRight = fNextRight;
+    width *= 2;
+  }
+
+  return null;
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import { rewriteExpression, tokenize } from './tokenizer';
+
+describe('tokenizer', () => {
+  describe('tokenize', () => {
+    it('splits an expression into typed tokens', () => {
+      expect(tokenize('2x + sin(π)')).toEqual([
+        { type: 'number', text: '2' },
+        { type: 'name', text: 'x' },
+        { type: 'space', text: ' ' },
+        { type: 'operator', text: '+' },
+        { type: 'space', text: ' ' },
+        { type: 'name', text: 'sin' },
+        { type: 'open', text: '(' },
+        { type: 'name', text: 'π' },
+        { type: 'close', text: ')' },
+      ]);
+    });
+
+    it('reads exponent notation and base prefixes as one number', () => {
+      expect(tokenize('1.5e-3').map((token) => token.type)).toEqual(['number']);
+      expect(tokenize('0xff').map((token) => token.type)).toEqual(['number']);
+      expect(tokenize('.5').map((token) => token.type)).toEqual(['number']);
+    });
+
+    it('leaves an e without digits for Euler’s number', () => {
+      expect(tokenize('2e').map((token) => token.text)).toEqual(['2', 'e']);
+      expect(tokenize('2e+1').map((token) => token.text)).toEqual(['2e+1']);
+    });
+
+    it('keeps digits inside names', () => {
+      expect(tokenize('log10(r2d2)').map((token) => token.text)).toEqual([
+        'log10',
+        '(',
+        'r2d2',
+        ')',
+      ]);
+    });
+
+    it('reads multi-character operators whole', () => {
+      expect(tokenize('a<=b!=c').map((token) => token.text)).toEqual([
+        'a',
+        '<=',
+        'b',
+        '!=',
+        'c',
+      ]);
+    });
+
+    it('gives back the expression when joined', () => {
+      const expression = '√(2) × [1, 2]; "text" ∫ ∞ − 3² @';
+      expect(
+        tokenize(expression)
+          .map((token) => token.text)
+          .join('')
+      ).toBe(expression);
+    });
+  });
+
+  describe('rewriteExpression', () => {
+    it('leaves plain math.js syntax alone', () => {
+      expect(rewriteExpression('2 * (3 + 4) / 5')).toBe('2 * (3 + 4) / 5');
+      expect(rewriteExpression('1e5 + 2.5e-3')).toBe('1e5 + 2.5e-3');
+      expect(rewriteExpression('[1, 2; 3, 4]')).toBe('[1, 2; 3, 4]');
+    });
+
+    describe('unicode operators', () => {
+      it('replaces multiplication, division and minus signs', () => {
+        expect(rewriteExpression('6 × 2 ÷ 3 − 1')).toBe('6 * 2 / 3 - 1');
+        expect(rewriteExpression('2·3')).toBe('2*3');
+      });
+
+      it('writes squares and cubes as powers', () => {
+        expect(rewriteExpression('x² + y³')).toBe('x^2 + y^3');
+        expect(rewriteExpression('(1 + 2)²')).toBe('(1 + 2)^2');
+      });
+
+      it('replaces comparison signs', () => {
+        expect(rewriteExpression('a ≤ b ≠ c')).toBe('a <= b != c');
+      });
+    });
+
+    describe('aliases', () => {
+      it('renames logarithms where they are called', () => {
+        expect(rewriteExpression('ln(e)')).toBe('log(e)');
+        expect(rewriteExpression('log(100)')).toBe('log10(100)');
+        expect(rewriteExpression('log10(100) + log2(8)')).toBe('log10(100) + log2(8)');
+        expect(rewriteExpression('logb(8, 2)')).toBe('log(8, 2)');
+      });
+
+      it('renames constants and symbols', () => {
+        expect(rewriteExpression('π')).toBe('pi');
+        expect(rewriteExpression('∞')).toBe('Infinity');
+        expect(rewriteExpression('∫(x, x, 0, 1)')).toBe('integrate(x, x, 0, 1)');
+        expect(rewriteExpression('Σ(k, k, 1, 3)')).toBe('summation(k, k, 1, 3)');
+        expect(rewriteExpression('2Π(k, k, 1, 3)')).toBe('2*product(k, k, 1, 3)');
+        expect(rewriteExpression('φ(36)')).toBe('totient(36)');
+      });
+
+      it('reads min on its own as minutes', () => {
+        expect(rewriteExpression('2 h to min')).toBe('2 *h to minute');
+        expect(rewriteExpression('min(1, 2)')).toBe('min(1, 2)');
+      });
+    });
+
+    describe('square roots', () => {
+      it('calls sqrt on a bracket', () => {
+        expect(rewriteExpression('√(4)')).toBe('sqrt(4)');
+      });
+
+      it('applies to the operand after the sign', () => {
+        expect(rewriteExpression('√16')).toBe('sqrt(16)');
+        expect(rewriteExpression('√x + 1')).toBe('sqrt(x) + 1');
+        expect(rewriteExpression('√√16')).toBe('sqrt(sqrt(16))');
+        expect(rewriteExpression('2√3')).toBe('2*sqrt(3)');
+      });
+    });
+
+    describe('implicit multiplication', () => {
+      it('multiplies a number by a name or bracket', () => {
+        expect(rewriteExpression('2x')).toBe('2*x');
+        expect(rewriteExpression('2π')).toBe('2*pi');
+        expect(rewriteExpression('2(3 + 4)')).toBe('2*(3 + 4)');
+        expect(rewriteExpression('2e')).toBe('2*e');
+      });
+
+      it('multiplies a name by a following number', () => {
+        expect(rewriteExpression('π2')).toBe('pi*2');
+      });
+
+      it('multiplies adjacent brackets and calls', () => {
+        expect(rewriteExpression('(1 + 2)(3 + 4)')).toBe('(1 + 2)*(3 + 4)');
+        expect(rewriteExpression('sin(x)cos(x)')).toBe('sin(x)*cos(x)');
+        expect(rewriteExpression('x sin(x)')).toBe('x *sin(x)');
+      });
+
+      it('multiplies after powers and factorials', () => {
+        expect(rewriteExpression('x²y')).toBe('x^2*y');
+        expect(rewriteExpression('3!x')).toBe('3!*x');
+      });
+
+      it('multiplies a constant by a bracket rather than calling it', () => {
+        expect(rewriteExpression('π(2)')).toBe('pi*(2)');
+        expect(rewriteExpression('f(2)')).toBe('f(2)');
+      });
+
+      it('leaves separate numbers for math.js to report', () => {
+        expect(rewriteExpression('2 3')).toBe('2 3');
+      });
+
+      it('leaves conversions and keyword operators alone', () => {
+        expect(rewriteExpression('m^2 to ft^2')).toBe('m^2 to ft^2');
+        expect(rewriteExpression('7 mod 3')).toBe('7 mod 3');
+      });
+
+      it('works inside function definitions', () => {
+        expect(rewriteExpression('f(x) = 2x')).toBe('f(x) = 2*x');
+      });
+    });
+
+    describe('mixed numbers', () => {
+      it('reads nothing as a mixed number unless asked', () => {
+        expect(rewriteExpression('3 1/2')).toBe('3 1/2');
+        expect(rewriteExpression('2 × 3 1/2')).toBe('2 * 3 1/2');
+      });
+
+      it('adds the whole number to the fraction', () => {
+        expect(rewriteExpression('3 1/2', true)).toBe('(3 + 1/2)');
+        expect(rewriteExpression('-3 1/2 + 1', true)).toBe('-(3 + 1/2) + 1');
+        expect(rewriteExpression('[3 1/2, 1]', true)).toBe('[(3 + 1/2), 1]');
+        expect(rewriteExpression('2 × 3 1/2', true)).toBe('2 * (3 + 1/2)');
+      });
+
+      it('multiplies a mixed number by what follows', () => {
+        expect(rewriteExpression('2 1/2x', true)).toBe('(2 + 1/2)*x');
+      });
+
+      it('leaves numbers that cannot be a mixed number for math.js to report', () => {
+        expect(rewriteExpression('2^3 1/2', true)).toBe('2^3 1/2');
+        expect(rewriteExpression('3 1/2^2', true)).toBe('3 1/2^2');
+        expect(rewriteExpression('x 3 1/2', true)).toBe('x *3 1/2');
+        expect(rewriteExpression('3 1.5/2', true)).toBe('3 1.5/2');
+      });
+    });
+
+    describe('percentages', () => {
+      it('divides a percentage by 100', () => {
+        expect(rewriteExpression('50%')).toBe('(50 / 100)');
+        expect(rewriteExpression('x%')).toBe('(x / 100)');
+        expect(rewriteExpression('(x + 1)%')).toBe('((x + 1) / 100)');
+        expect(rewriteExpression('-10%')).toBe('-(10 / 100)');
+      });
+
+      it('takes a percentage added or subtracted relative to the value before it', () => {
+        expect(rewriteExpression('200 + 10%')).toBe('(200) * (100 + 10) / 100');
+        expect(rewriteExpression('200 − 10%')).toBe('(200) * (100 - 10) / 100');
+        expect(rewriteExpression('1 + 2 + 10%')).toBe('(1 + 2) * (100 + 10) / 100');
+      });
+
+      it('keeps contextual percentages within their bracket or argument', () => {
+        expect(rewriteExpression('max(200 + 10%, 5)')).toBe('max((200) * (100 + 10) / 100, 5)');
+        expect(rewriteExpression('3 * (200 + 10%)')).toBe('3 * ((200) * (100 + 10) / 100)');
+        expect(rewriteExpression('a = 200 + 10%')).toBe('a = (200) * (100 + 10) / 100');
+      });
+
+      it('uses a plain percentage when it is not the whole term', () => {
+        expect(rewriteExpression('200 + 10% * 2')).toBe('200 + (10 / 100) * 2');
+      });
+
+      it('reads % between operands as modulo', () => {
+        expect(rewriteExpression('10 % 3')).toBe('10 % 3');
+      });
+    });
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Kinds of token in a calculator expression
+ */
+export type TokenType =
+  | 'number'
+  | 'name'
+  | 'string'
+  | 'open'
+  | 'close'
+  | 'separator'
+  | 'operator'
+  | 'space';
+
+/**
+ * Piece of an expression as typed
+ */
+export interface Token {
+  readonly type: TokenType;
+  readonly text: string;
+}
+
+/**
+ * Numbers: hex, binary and octal literals, decimals and exponent notation.
+ * An `e` not followed by digits is left for Euler's number: `2e` is 2·e.
+ */
+const NUMBER_PATTERN =
+  /^(?:0[xX][0-9a-fA-F]+|0[bB][01]+|0[oO][0-7]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/;
+
+/**
+ * Names of variables, functions and units. π is a name on its own so that
+ * `2πr` and `π2` split into separate names.
+ */
+const NAME_PATTERN = /^(?:(?!π)[\p{L}_$])(?:(?!π)[\p{L}\d_$])*/u;
+
+/**
+ * Symbols read as names: constants and functions written as a single sign
+ */
+const SYMBOL_NAMES = ['π', '∞', '√', '∫'];
+
+/**
+ * Operators longer than one character, longest first
+ */
+const MULTI_CHARACTER_OPERATORS = ['>>>', '<<', '>>', '==', '!=', '<=', '>=', '.*', './', '.^'];
+
+/**
+ * Unicode operators from the keypad and pasted text, and what math.js calls them
+ */
+const UNICODE_OPERATORS: Record<string, string> = {
+  '×': '*',
+  '·': '*',
+  '⋅': '*',
+  '÷': '/',
+  '−': '-',
+  '²': '^2',
+  '³': '^3',
+  '≤': '<=',
+  '≥': '>=',
+  '≠': '!=',
+};
+
+/**
+ * Operators written after their operand
+ */
+const POSTFIX_OPERATORS = ['!', "'", '²', '³'];
+
+/**
+ * Words math.js reads as operators, e.g. `5 km to m` or `7 mod 3`
+ */
+const KEYWORDS = ['to', 'in', 'mod', 'and', 'or', 'xor', 'not'];
+
+/**
+ * Operators after which a new operand starts, as far as a contextual
+ * percentage is concerned: `x = 200 + 10%` takes 10% of 200, not of `x = 200`
+ */
+const GROUP_OPERATORS = ['=', '==', '!=', '<', '>', '<=', '>=', ':', '?'];
+
+/**
+ * Other names for math.js functions, applied where the name is called
+ */
+const FUNCTION_ALIASES: Record<string, string> = {
+  ln: 'log',
+  log: 'log10',
+  logb: 'log',
+  '√': 'sqrt',
+  '∫': 'integrate',
+  Σ: 'summation',
+  Π: 'product',
+  φ: 'totient',
+};
+
+/**
+ * Other names for math.js values, applied where the name is not called.
+ * On its own `min` is the minute unit, as in `2 h to min`.
+ */
+const VALUE_ALIASES: Record<string, string> = {
+  π: 'pi',
+  '∞': 'Infinity',
+  min: 'minute',
+};
+
+/**
+ * Constants that multiply a following parenthesis rather than call it: `π(2)`
+ */
+const CONSTANTS = ['pi', 'e', 'i', 'tau', 'phi', 'Infinity'];
+
+/**
+ * Split an expression into tokens. Every character belongs to a token, so
+ * joining the tokens gives back the expression; characters math.js does not
+ * know become single-character operators for it to report.
+ */
+export function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+    const char = expression[index];
+
+    const space = /^\s+/.exec(rest);
+    const number = NUMBER_PATTERN.exec(rest);
+    const name = NAME_PATTERN.exec(rest);
+    const string = /^"(?:[^"\\]|\\.)*"?/.exec(rest);
+    const operator = MULTI_CHARACTER_OPERATORS.find((op) => rest.startsWith(op));
+
+    let token: Token;
+    if (space) {
+      token = { type: 'space', text: space[0] };
+    } else if (number) {
+      token = { type: 'number', text: number[0] };
+    } else if (name) {
+      token = { type: 'name', text: name[0] };
+    } else if (SYMBOL_NAMES.includes(char)) {
+      token = { type: 'name', text: char };
+    } else if (string) {
+      token = { type: 'string', text: string[0] };
+    } else if ('([{'.includes(char)) {
+      token = { type: 'open', text: char };
+    } else if (')]}'.includes(char)) {
+      token = { type: 'close', text: char };
+    } else if (',;'.includes(char)) {
+      token = { type: 'separator', text: char };
+    } else {
+      token = { type: 'operator', text: operator ?? char };
+    }
+
+    tokens.push(token);
+    index += token.text.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether a token can begin an operand, so that an operand before it
+ * is multiplied by it: `2x`, `2(3)`, `x sin(x)`, `2√3`
+ */
+function startsOperand(token: Token | undefined): boolean {
+  if (!token) return false;
+  switch (token.type) {
+    case 'number':
+    case 'string':
+      return true;
+    case 'name':
+      return !KEYWORDS.includes(token.text);
+    case 'open':
+      return token.text === '(';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Index of the next token after `index` that is not whitespace, or -1
+ */
+function nextTokenIndex(tokens: readonly Token[], index: number): number {
+  const offset = tokens.slice(index + 1).findIndex((token) => token.type !== 'space');
+  return offset === -1 ? -1 : index + 1 + offset;
+}
+
+/**
+ * Index of the last token of a mixed number starting at `index`, such as
+ * `3 1/2`, or -1 if none starts there. A mixed number binds tighter than
+ * any operator (`2 * 3 1/2` is 7), but it is not read next to a power, so
+ * that `2^3 1/2` and `3 1/2^2` stay mistakes rather than being guessed at.
+ */
+function mixedNumberEnd(tokens: readonly Token[], index: number): number {
+  const [whole, space, numerator, slash, denominator] = tokens.slice(index, index + 5);
+  const isInteger = (token: Token | undefined) =>
+    token?.type === 'number' && /^\d+$/.test(token.text);
+  if (
+    !isInteger(whole) ||
+    space?.type !== 'space' ||
+    !isInteger(numerator) ||
+    slash?.text !== '/' ||
+    !isInteger(denominator)
+  ) {
+    return -1;
+  }
+
+  const before = tokens
+    .slice(0, index)
+    .reverse()
+    .find((token) => token.type !== 'space');
+  const after = tokens[nextTokenIndex(tokens, index + 4)];
+  const powers = ['^', '.^', ...POSTFIX_OPERATORS];
+  const startsOperand =
+    !before ||
+    before.type === 'open' ||
+    before.type === 'separator' ||
+    (before.type === 'operator' && !powers.includes(before.text));
+  const raised = after !== undefined && powers.includes(after.text);
+  return startsOperand && !raised ? index + 4 : -1;
+}
+
+/**
+ * Bracket, function argument or side of an assignment or comparison being
+ * rewritten, for contextual percentages
+ */
+interface Group {
+  /** Output index where the group's expression starts */
+  start: number;
+  /** Output index of the last binary + or - at this level, or -1 */
+  additive: number;
+}
+
+/**
+ * Rewrite an expression as typed into math.js syntax:
+ *
+ * - Unicode operators become ASCII: `×` → `*`, `−` → `-`, `x²` → `x^2`
+ * - Aliases become math.js names: `ln(` → `log(`, `log(` → `log10(`, `π` → `pi`
+ * - `√` applies to the operand after it: `√2` → `sqrt(2)`
+ * - Adjacent operands are multiplied: `2x`, `π2`, `)(`, `x sin(x)`
+ * - With `mixedNumbers`, as when results are shown that way, mixed numbers
+ *   are added up: `3 1/2` → `(3 + 1/2)`
+ * - A percentage added to or taken from a value is relative to it:
+ *   `200 + 10%` → `(200) * (100 + 10) / 100`; otherwise `x%` → `(x / 100)`
+ */
+export function rewriteExpression(expression: string, mixedNumbers = false): string {
+  const tokens = tokenize(expression);
+  const output: string[] = [];
+  const groups: Group[] = [{ start: 0, additive: -1 }];
+  // Output index where each open bracket's operand starts: the function
+  // name for a call, the bracket otherwise
+  const brackets: number[] = [];
+  let callStart: number | null = null;
+  let endsOperand = false;
+  let previousType: TokenType | null = null;
+  let operandStart = 0;
+  let openRoots = 0;
+  // Last token already written as part of a mixed number
+  let skipUntil = -1;
+
+  tokens.forEach((token, index) => {
+    if (index <= skipUntil) return;
+    if (token.type === 'space') {
+      output.push(token.text);
+      return;
+    }
+
+    const nextIndex = nextTokenIndex(tokens, index);
+    const next = tokens[nextIndex];
+    const group = groups[groups.length - 1];
+
+    // Implicit multiplication; `2 3` is left as a mistake
+    if (
+      endsOperand &&
+      startsOperand(token) &&
+      !(previousType === 'number' && token.type === 'number')
+    ) {
+      output.push('*');
+    }
+
+    const start = output.length;
+    let text = UNICODE_OPERATORS[token.text] ?? token.text;
+    let isOperand = false;
+
+    switch (token.type) {
+      case 'number': {
+        // 3 1/2 -> (3 + 1/2)
+        const end = mixedNumbers ? mixedNumberEnd(tokens, index) : -1;
+        if (end !== -1) {
+          const fraction = tokens.slice(index + 2, end + 1).map((part) => part.text);
+          text = `(${text} + ${fraction.join('')})`;
+          skipUntil = end;
+        }
+        isOperand = true;
+        break;
+      }
+
+      case 'string':
+        isOperand = true;
+        break;
+
+      case 'name': {
+        if (KEYWORDS.includes(text)) break;
+        const value = VALUE_ALIASES[text] ?? text;
+        const called = next?.text === '(' && !CONSTANTS.includes(value);
+
+        // √2 -> sqrt(2); the parenthesis closes after the next operand
+        const afterNext = tokens[nextTokenIndex(tokens, nextIndex)];
+        if (
+          text === '√' &&
+          (next?.type === 'number' || (next?.type === 'name' && afterNext?.text !== '('))
+        ) {
+          text = 'sqrt(';
+          openRoots++;
+          operandStart = start;
+          output.push(text);
+          endsOperand = false;
+          previousType = token.type;
+          return;
+        }
+
+        text = called ? FUNCTION_ALIASES[text] ?? text : value;
+        isOperand = !called;
+        if (called) {
+          callStart = start;
+        }
+        break;
+      }
+
+      case 'open':
+        brackets.push(callStart ?? start);
+        callStart = null;
+        groups.push({ start: start + 1, additive: -1 });
+        break;
+
+      case 'close':
+        operandStart = brackets.pop() ?? 0;
+        if (groups.length > 1) groups.pop();
+        output.push(text);
+        endsOperand = true;
+        previousType = token.type;
+        return;
+
+      case 'separator':
+        group.start = start + 1;
+        group.additive = -1;
+        break;
+
+      case 'operator':
+        if (token.text === '%' && !startsOperand(next)) {
+          rewritePercent(output, group, operandStart, next);
+          endsOperand = true;
+          previousType = token.type;
+          return;
+        }
+        if ((text === '+' || text === '-') && endsOperand) {
+          group.additive = start;
+        } else if (GROUP_OPERATORS.includes(text)) {
+          group.start = start + 1;
+          group.additive = -1;
+        }
+        break;
+    }
+
+    output.push(text);
+    if (isOperand) {
+      if (openRoots === 0) {
+        operandStart = start;
+      }
+      output.push(')'.repeat(openRoots));
+      openRoots = 0;
+    }
+    endsOperand = isOperand || POSTFIX_OPERATORS.includes(token.text);
+    previousType = token.type;
+  });
+
+  return output.join('');
+}
+
+/**
+ * Rewrite the operand ending the output as a percentage. After a binary
+ * `+` or `-` that ends the operation (`200 + 10%`, but not `200 + 10% * 2`)
+ * it is a percentage of the value before the sign; otherwise it is divided by 100.
+ */
+function rewritePercent(
+  output: string[],
+  group: Group,
+  operandStart: number,
+  next: Token | undefined
+): void {
+  const operand = output.splice(operandStart).join('');
+  const nextText = next && (UNICODE_OPERATORS[next.text] ?? next.text);
+  const ends =
+    !next ||
+    next.type === 'close' ||
+    next.type === 'separator' ||
+    nextText === '+' ||
+    nextText === '-' ||
+    GROUP_OPERATORS.includes(nextText ?? '');
+  const between = output.slice(group.additive + 1);
+  const base = output.slice(group.start, group.additive).join('');
+
+  if (group.additive !== -1 && ends && base.trim() && between.every((text) => !text.trim())) {
+    const sign = output[group.additive];
+    const indent = /^\s*/.exec(base)?.[0] ?? '';
+    output.splice(group.start);
+    output.push(`${indent}(${base.trim()}) * (100 ${sign} ${operand.trim()}) / 100`);
+    group.additive = -1;
+    return;
+  }
+
+  output.push(`(${operand} / 100)`);
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { UNIT_CATEGORIES, convertUnit, formatConversion } from './units';
+
+describe('units', () => {
+  describe('UNIT_CATEGORIES', () => {
+    it('only contains units that convert within their category', () => {
+      for (const category of UNIT_CATEGORIES) {
+        const base = category.units[0].name;
+        for (const unit of category.units) {
+          const result = convertUnit('1', unit.name, base);
+          expect(result.success, `${unit.name} to ${base}`).toBe(true);
+        }
+      }
+    });
+
+    it('has unique unit names', () => {
+      const names = UNIT_CATEGORIES.flatMap((category) => category.units.map((unit) => unit.name));
+      expect(new Set(names).size).toBe(names.length);
+    });
+  });
+
+  describe('formatConversion', () => {
+    it('builds a conversion expression', () => {
+      expect(formatConversion('5', 'km/h', 'm/s')).toBe('5 km/h to m/s');
+    });
+
+    it('parenthesizes expressions', () => {
+      expect(formatConversion('2 + 3', 'km', 'm')).toBe('(2 + 3) km to m');
+    });
+
+    it('leaves negative and exponent numbers alone', () => {
+      expect(formatConversion('-40', 'degF', 'degC')).toBe('-40 degF to degC');
+      expect(formatConversion('1.5e3', 'm', 'km')).toBe('1.5e3 m to km');
+    });
+  });
+
+  describe('convertUnit', () => {
+    it('converts speeds', () => {
+      const result = convertUnit('36', 'km/h', 'm/s');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('10 m / s');
+      }
+    });
+
+    it('converts temperatures with offsets', () => {
+      const result = convertUnit('-40', 'degF', 'degC');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('-40 degC');
+      }
+    });
+
+    it('converts expression values', () => {
+      const result = convertUnit('2 + 3', 'km', 'm');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.displayValue).toBe('5000 m');
+      }
+    });
+
+    it('reports an empty value', () => {
+      const result = convertUnit('  ', 'km', 'm');
+      expect(result.success).toBe(false);
+    });
+
+    it('reports mismatched units', () => {
+      const result = convertUnit('1', 'km', 'kg');
+      expect(result.success).toBe(false);
+    });
+  });
+});
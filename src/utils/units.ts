@@ -0,0 +1,163 @@
+import { evaluate } from './math-engine';
+import type { CalculationResult, UnitCategory } from '../types';
+
+/**
+ * Units offered by the unit converter, grouped by what they measure.
+ * Names are math.js unit expressions, so they can also be typed in the calculator.
+ */
+export const UNIT_CATEGORIES: readonly UnitCategory[] = [
+  {
+    name: 'Length',
+    units: [
+      { name: 'mm', label: 'Millimeters' },
+      { name: 'cm', label: 'Centimeters' },
+      { name: 'm', label: 'Meters' },
+      { name: 'km', label: 'Kilometers' },
+      { name: 'in', label: 'Inches' },
+      { name: 'ft', label: 'Feet' },
+      { name: 'yd', label: 'Yards' },
+      { name: 'mi', label: 'Miles' },
+    ],
+  },
+  {
+    name: 'Mass',
+    units: [
+      { name: 'mg', label: 'Milligrams' },
+      { name: 'g', label: 'Grams' },
+      { name: 'kg', label: 'Kilograms' },
+      { name: 'tonne', label: 'Metric tons' },
+      { name: 'oz', label: 'Ounces' },
+      { name: 'lb', label: 'Pounds' },
+      { name: 'stone', label: 'Stone' },
+    ],
+  },
+  {
+    name: 'Time',
+    units: [
+      { name: 'ms', label: 'Milliseconds' },
+      { name: 's', label: 'Seconds' },
+      { name: 'minute', label: 'Minutes' },
+      { name: 'h', label: 'Hours' },
+      { name: 'day', label: 'Days' },
+      { name: 'week', label: 'Weeks' },
+      { name: 'year', label: 'Years' },
+    ],
+  },
+  {
+    name: 'Speed',
+    units: [
+      { name: 'm/s', label: 'Meters per second' },
+      { name: 'km/h', label: 'Kilometers per hour' },
+      { name: 'mi/h', label: 'Miles per hour' },
+      { name: 'ft/s', label: 'Feet per second' },
+    ],
+  },
+  {
+    name: 'Area',
+    units: [
+      { name: 'cm^2', label: 'Square centimeters' },
+      { name: 'm^2', label: 'Square meters' },
+      { name: 'km^2', label: 'Square kilometers' },
+      { name: 'hectare', label: 'Hectares' },
+      { name: 'in^2', label: 'Square inches' },
+      { name: 'ft^2', label: 'Square feet' },
+      { name: 'acre', label: 'Acres' },
+      { name: 'mi^2', label: 'Square miles' },
+    ],
+  },
+  {
+    name: 'Volume',
+    units: [
+      { name: 'mL', label: 'Milliliters' },
+      { name: 'L', label: 'Liters' },
+      { name: 'm^3', label: 'Cubic meters' },
+      { name: 'teaspoon', label: 'Teaspoons' },
+      { name: 'tablespoon', label: 'Tablespoons' },
+      { name: 'floz', label: 'Fluid ounces' },
+      { name: 'cup', label: 'Cups' },
+      { name: 'gal', label: 'Gallons' },
+    ],
+  },
+  {
+    name: 'Temperature',
+    units: [
+      { name: 'degC', label: 'Celsius' },
+      { name: 'degF', label: 'Fahrenheit' },
+      { name: 'K', label: 'Kelvin' },
+    ],
+  },
+  {
+    name: 'Energy',
+    units: [
+      { name: 'J', label: 'Joules' },
+      { name: 'kJ', label: 'Kilojoules' },
+      { name: 'Wh', label: 'Watt hours' },
+      { name: 'kWh', label: 'Kilowatt hours' },
+      { name: 'BTU', label: 'British thermal units' },
+      { name: 'eV', label: 'Electronvolts' },
+    ],
+  },
+  {
+    name: 'Pressure',
+    units: [
+      { name: 'Pa', label: 'Pascals' },
+      { name: 'kPa', label: 'Kilopascals' },
+      { name: 'bar', label: 'Bar' },
+      { name: 'atm', label: 'Atmospheres' },
+      { name: 'psi', label: 'Pounds per square inch' },
+      { name: 'mmHg', label: 'Millimeters of mercury' },
+    ],
+  },
+  {
+    name: 'Data',
+    units: [
+      { name: 'b', label: 'Bits' },
+      { name: 'B', label: 'Bytes' },
+      { name: 'kB', label: 'Kilobytes' },
+      { name: 'MB', label: 'Megabytes' },
+      { name: 'GB', label: 'Gigabytes' },
+      { name: 'KiB', label: 'Kibibytes' },
+      { name: 'MiB', label: 'Mebibytes' },
+      { name: 'GiB', label: 'Gibibytes' },
+    ],
+  },
+  {
+    name: 'Angle',
+    units: [
+      { name: 'deg', label: 'Degrees' },
+      { name: 'rad', label: 'Radians' },
+      { name: 'grad', label: 'Gradians' },
+      { name: 'cycle', label: 'Turns' },
+    ],
+  },
+];
+
+/**
+ * Plain number, which needs no parentheses before a unit
+ */
+const PLAIN_NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+
+/**
+ * Build the calculator expression for a conversion, e.g. `5 km/h to m/s`.
+ * Values that are themselves expressions are parenthesized.
+ */
+export function formatConversion(value: string, from: string, to: string): string {
+  const trimmed = value.trim();
+  const quantity = PLAIN_NUMBER_PATTERN.test(trimmed) ? trimmed : `(${trimmed})`;
+  return `${quantity} ${from} to ${to}`;
+}
+
+/**
+ * Convert a value between two units
+ */
+export function convertUnit(value: string, from: string, to: string): CalculationResult {
+  if (!value.trim()) {
+    return {
+      success: false,
+      error: 'Empty expression',
+      kind: 'syntax',
+    };
+  }
+
+  return evaluate(formatConversion(value, from, to));
+}